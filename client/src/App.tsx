@@ -7,15 +7,31 @@ import GameBoard from "./components/game/GameBoard";
 import GameUI from "./components/game/GameUI";
 import { useShnarps } from "./lib/stores/useShnarps";
 import { useAIPlayer } from "./lib/hooks/useAIPlayer";
+import { useMultiplayer } from "./lib/hooks/useMultiplayer";
+import { useChat } from "./lib/stores/useChat";
 import { Toaster } from "./components/ui/sonner";
 import { ConnectionBanner } from "./components/game/ConnectionBanner";
+import Chat from "./components/game/Chat";
+import ReactionBar from "./components/game/ReactionBar";
+import SpectatorBar from "./components/game/SpectatorBar";
+import DisconnectedSeats from "./components/game/DisconnectedSeats";
+import { useAuth } from "./lib/stores/useAuth";
 
 const queryClient = new QueryClient();
 
 function App() {
-  const { initializeGame, gamePhase, players } = useShnarps();
+  const { initializeGame, gamePhase, players, eliminatedPlayers, multiplayerMode, localPlayerId, isMultiplayerHost, isSpectator, spectatorAllHands, pendingSeatClaim } = useShnarps();
+  const { sendChat, sendReaction, setSpectatorView, claimSeat, replaceWithAI, mutePlayer, kickPlayer } = useMultiplayer();
+  const user = useAuth(state => state.user);
+  const { messages, mutedPlayerIds } = useChat();
   useAIPlayer(); // Enable AI player automation
 
+  // Seats only change hands while a game is running
+  const gameRunning = gamePhase !== 'setup' && gamePhase !== 'game_over';
+  const disconnectedPlayers = players.filter(p => !p.isAI && p.isConnected === false);
+  // Only AI seats change hands; a dropped player's seat waits for them or the host
+  const freeSeats = gameRunning ? players.filter(p => p.isAI) : [];
+
   useEffect(() => {
     initializeGame();
   }, [initializeGame]);
@@ -31,6 +47,37 @@ function App() {
         <ConnectionBanner />
         <GameBoard />
         <GameUI />
+        {/* Reactions are for the table, so only seated players get them once cards are out */}
+        {multiplayerMode === 'online' && gamePhase !== 'setup' && players.some(p => p.id === localPlayerId) && (
+          <ReactionBar onReact={sendReaction} />
+        )}
+        {/* The creator of an AI-only room already sees every hand live */}
+        {multiplayerMode === 'online' && isSpectator && !isMultiplayerHost && (
+          <SpectatorBar
+            allHands={spectatorAllHands}
+            onToggleAllHands={setSpectatorView}
+            freeSeats={freeSeats}
+            pendingSeatId={pendingSeatClaim}
+            accountName={user?.username}
+            onClaimSeat={claimSeat}
+          />
+        )}
+        {multiplayerMode === 'online' && isMultiplayerHost && gameRunning && disconnectedPlayers.length > 0 && (
+          <DisconnectedSeats players={disconnectedPlayers} onReplaceWithAI={replaceWithAI} />
+        )}
+        {multiplayerMode === 'online' && (
+          <Chat
+            messages={messages}
+            onSendMessage={sendChat}
+            localPlayerId={localPlayerId}
+            isHost={isMultiplayerHost}
+            // AI seats can't chat, so only people are moderated
+            players={[...players, ...eliminatedPlayers].filter(p => !p.isAI && p.id !== localPlayerId)}
+            mutedPlayerIds={mutedPlayerIds}
+            onMutePlayer={mutePlayer}
+            onKickPlayer={kickPlayer}
+          />
+        )}
         <Toaster />
       </div>
     </QueryClientProvider>
@@ -5,7 +5,6 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DollarSign, Trophy, Volume2, Users } from 'lucide-react';
 
@@ -26,6 +25,9 @@ export function Settings({ open, onClose }: SettingsProps) {
   const [musicEnabled, setMusicEnabled] = useState(settings.musicEnabled);
   const [turnTimeLimit, setTurnTimeLimit] = useState(settings.turnTimeLimit);
   const [autoPlayDisconnected, setAutoPlayDisconnected] = useState(settings.autoPlayDisconnected);
+  const [coachEnabled, setCoachEnabled] = useState(settings.coachEnabled);
+  const [allowCoachOnline, setAllowCoachOnline] = useState(settings.allowCoachOnline);
+  const [showReactions, setShowReactions] = useState(settings.showReactions);
 
   const handleSave = () => {
     settings.updateSettings({
@@ -37,7 +39,10 @@ export function Settings({ open, onClose }: SettingsProps) {
       soundEnabled,
       musicEnabled,
       turnTimeLimit,
-      autoPlayDisconnected
+      autoPlayDisconnected,
+      coachEnabled,
+      allowCoachOnline,
+      showReactions
     });
     onClose();
   };
@@ -53,6 +58,9 @@ export function Settings({ open, onClose }: SettingsProps) {
     setMusicEnabled(true);
     setTurnTimeLimit(30);
     setAutoPlayDisconnected(true);
+    setCoachEnabled(false);
+    setAllowCoachOnline(true);
+    setShowReactions(true);
   };
 
   return (
@@ -173,6 +181,20 @@ export function Settings({ open, onClose }: SettingsProps) {
                   Players are eliminated when reaching this score
                 </p>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="coachEnabled" className="text-base text-gray-900">Coach Hints</Label>
+                  <p className="text-sm text-muted-foreground">
+                    On your turn, show the move the Expert AI would make and why
+                  </p>
+                </div>
+                <Switch
+                  id="coachEnabled"
+                  checked={coachEnabled}
+                  onCheckedChange={setCoachEnabled}
+                />
+              </div>
             </div>
           </TabsContent>
 
@@ -207,6 +229,34 @@ export function Settings({ open, onClose }: SettingsProps) {
                   onCheckedChange={setAutoPlayDisconnected}
                 />
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="allowCoachOnline" className="text-base text-gray-900">Allow Coach Hints</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let players in rooms you host turn on coach hints
+                  </p>
+                </div>
+                <Switch
+                  id="allowCoachOnline"
+                  checked={allowCoachOnline}
+                  onCheckedChange={setAllowCoachOnline}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="showReactions" className="text-base text-gray-900">Show Reactions</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Show other players' quick reactions over their seats
+                  </p>
+                </div>
+                <Switch
+                  id="showReactions"
+                  checked={showReactions}
+                  onCheckedChange={setShowReactions}
+                />
+              </div>
             </div>
           </TabsContent>
 
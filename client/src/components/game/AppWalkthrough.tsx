@@ -81,7 +81,7 @@ const walkthroughSteps = [
           <li>Enter your name and customize your avatar</li>
           <li>Click "Join Game"</li>
           <li>Add 3-7 more players (human or AI)</li>
-          <li>Select AI difficulty (Easy, Medium, Hard)</li>
+          <li>Select AI difficulty (Easy, Medium, Hard, Expert) and personality (Balanced, Aggressive, Sitter, Gang-up)</li>
           <li>Click "Start Game" when ready</li>
         </ol>
         <div className="bg-yellow-50 p-3 rounded-lg border border-yellow-200 mt-3">
@@ -2,6 +2,7 @@ import { useShnarps } from '../../lib/stores/useShnarps';
 import { Button } from '../ui/button';
 import { motion } from 'framer-motion';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
+import CoachHint from './CoachHint';
 
 export default function BiddingPhase() {
   const {
@@ -105,6 +106,8 @@ export default function BiddingPhase() {
             );
           })}
         </div>
+
+        <CoachHint />
       </div>
     </motion.div>
   );
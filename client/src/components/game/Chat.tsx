@@ -2,27 +2,39 @@ import { useState, useEffect, useRef } from 'react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { MessageCircle, X, Send } from 'lucide-react';
-
-interface ChatMessage {
-  id: string;
-  playerId: string;
-  playerName: string;
-  message: string;
-  timestamp: number;
-  isSystem?: boolean;
-}
+import { MessageCircle, X, Send, Shield, Volume2, VolumeX, UserX } from 'lucide-react';
+import { CHAT } from '@shared/constants';
+import type { ChatMessage } from '@shared/types';
 
 interface ChatProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
-  currentPlayerName: string;
+  localPlayerId: string | null;
+  // Host moderation - the other people at the table, and who is muted
+  isHost?: boolean;
+  players?: { id: string; name: string }[];
+  mutedPlayerIds?: string[];
+  onMutePlayer?: (playerId: string, muted: boolean) => void;
+  onKickPlayer?: (playerId: string) => void;
 }
 
-export default function Chat({ messages, onSendMessage, currentPlayerName }: ChatProps) {
+export default function Chat({
+  messages,
+  onSendMessage,
+  localPlayerId,
+  isHost = false,
+  players = [],
+  mutedPlayerIds = [],
+  onMutePlayer,
+  onKickPlayer
+}: ChatProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [showModeration, setShowModeration] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isMuted = localPlayerId !== null && mutedPlayerIds.includes(localPlayerId);
+  // Spectators have no seat, and the server only takes chat from seated players
+  const isWatching = localPlayerId === null;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -45,8 +57,10 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
     return (
       <Button
         onClick={() => setIsOpen(true)}
-        className="fixed bottom-4 right-4 z-50 rounded-full h-14 w-14 p-0 shadow-lg"
+        className="fixed bottom-4 right-4 rounded-full h-14 w-14 p-0 shadow-lg"
+        style={{ zIndex: 10000 }} // Above the setup lobby overlay
         variant="default"
+        aria-label="Open chat"
       >
         <MessageCircle className="h-6 w-6" />
       </Button>
@@ -54,19 +68,69 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
   }
 
   return (
-    <Card className="fixed bottom-4 right-4 z-50 w-80 md:w-96 shadow-2xl bg-white">
+    <Card className="fixed bottom-4 right-4 w-80 md:w-96 shadow-2xl bg-white" style={{ zIndex: 10000 }}>
       <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-lg">Chat</CardTitle>
-        <Button
-          onClick={() => setIsOpen(false)}
-          variant="ghost"
-          size="sm"
-          className="h-8 w-8 p-0"
-        >
-          <X className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          {isHost && players.length > 0 && (
+            <Button
+              onClick={() => setShowModeration(!showModeration)}
+              variant={showModeration ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 w-8 p-0"
+              aria-label="Moderate players"
+            >
+              <Shield className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            onClick={() => setIsOpen(false)}
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            aria-label="Close chat"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {/* Host controls */}
+        {isHost && showModeration && (
+          <div className="space-y-1 rounded-lg border p-2">
+            {players.map((player) => {
+              const muted = mutedPlayerIds.includes(player.id);
+              return (
+                <div key={player.id} className="flex items-center gap-2 text-sm">
+                  <span className={`flex-1 truncate ${muted ? 'text-muted-foreground line-through' : ''}`}>
+                    {player.name}
+                  </span>
+                  <Button
+                    onClick={() => onMutePlayer?.(player.id, !muted)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    aria-label={muted ? `Unmute ${player.name}` : `Mute ${player.name}`}
+                  >
+                    {muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      if (confirm(`Kick ${player.name} from the game?`)) onKickPlayer?.(player.id);
+                    }}
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                    aria-label={`Kick ${player.name}`}
+                  >
+                    <UserX className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Messages */}
         <div className="h-64 overflow-y-auto space-y-2 bg-gray-50 rounded-lg p-3">
           {messages.length === 0 ? (
@@ -80,7 +144,7 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
                 className={`text-sm ${
                   msg.isSystem
                     ? 'text-center text-muted-foreground italic'
-                    : msg.playerName === currentPlayerName
+                    : msg.playerId === localPlayerId
                     ? 'text-right'
                     : 'text-left'
                 }`}
@@ -94,7 +158,7 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
                   className={`inline-block rounded-lg px-3 py-1.5 ${
                     msg.isSystem
                       ? 'bg-gray-200 text-gray-600'
-                      : msg.playerName === currentPlayerName
+                      : msg.playerId === localPlayerId
                       ? 'bg-blue-500 text-white'
                       : 'bg-gray-300 text-gray-900'
                   }`}
@@ -110,7 +174,9 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
         {/* Input */}
         <div className="flex gap-2">
           <Input
-            placeholder="Type a message..."
+            placeholder={isWatching ? 'Spectators can read the chat only' : isMuted ? 'The host has muted you' : 'Type a message...'}
+            disabled={isMuted || isWatching}
+            maxLength={CHAT.MAX_LENGTH}
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={(e) => {
@@ -123,7 +189,7 @@ export default function Chat({ messages, onSendMessage, currentPlayerName }: Cha
           />
           <Button
             onClick={handleSend}
-            disabled={!inputValue.trim()}
+            disabled={!inputValue.trim() || isMuted || isWatching}
             size="sm"
             className="px-3"
           >
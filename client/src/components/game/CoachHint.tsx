@@ -0,0 +1,24 @@
+import { motion } from 'framer-motion';
+import { Lightbulb } from 'lucide-react';
+import { useCoach } from '../../lib/hooks/useCoach';
+
+// The coach's suggestion for the local player's turn, when coach hints are on
+export default function CoachHint() {
+  const advice = useCoach();
+  if (!advice) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 5 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex items-start gap-2 max-w-xs text-xs text-emerald-100 bg-emerald-900/90 px-3 py-2 rounded-lg border border-emerald-700 shadow-lg"
+      role="status"
+    >
+      <Lightbulb className="h-4 w-4 flex-shrink-0 text-emerald-300" />
+      <span>
+        <span className="font-semibold">Coach: </span>
+        {advice.reason}
+      </span>
+    </motion.div>
+  );
+}
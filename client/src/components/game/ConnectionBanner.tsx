@@ -1,12 +1,12 @@
 import { useEffect, useState } from 'react';
 import { useMultiplayer } from '../../lib/hooks/useMultiplayer';
 import { useShnarps } from '../../lib/stores/useShnarps';
-import { Wifi, WifiOff, Loader2, Users, Globe } from 'lucide-react';
+import { Wifi, WifiOff, Loader2, Users, Globe, Eye } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 export function ConnectionBanner() {
-  const { isConnected, mode } = useMultiplayer();
-  const { multiplayerMode, websocket, players, multiplayerRoomCode } = useShnarps();
+  const { isConnected } = useMultiplayer();
+  const { multiplayerMode, websocket, players, multiplayerRoomCode, spectatorCount } = useShnarps();
   const [showBanner, setShowBanner] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [showSuccessBanner, setShowSuccessBanner] = useState(false);
@@ -114,6 +114,15 @@ export function ConnectionBanner() {
               <Users className="h-3.5 w-3.5 text-gray-400" />
               <span className="text-xs text-gray-300">{connectedPlayers.length}/{humanPlayers.length}</span>
             </div>
+            {spectatorCount > 0 && (
+              <>
+                <div className="w-px h-3 bg-gray-600" />
+                <div className="flex items-center gap-1" title={`${spectatorCount} watching`}>
+                  <Eye className="h-3.5 w-3.5 text-gray-400" />
+                  <span className="text-xs text-gray-300">{spectatorCount}</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
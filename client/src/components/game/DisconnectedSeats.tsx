@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Bot, WifiOff } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { AI_DIFFICULTY_LABELS, AI_PERSONALITIES } from '../../lib/game/aiLabels';
+import type { AIDifficulty, AIPersonality, Player } from '@shared/types';
+
+interface DisconnectedSeatsProps {
+  players: Player[]; // People who dropped mid-game
+  onReplaceWithAI: (playerId: string, difficulty: AIDifficulty, personality: AIPersonality) => void;
+}
+
+/**
+ * Host-only list of players who dropped mid-game, each with a way to hand
+ * the seat to an AI so the table doesn't wait on them.
+ */
+export default function DisconnectedSeats({ players, onReplaceWithAI }: DisconnectedSeatsProps) {
+  const [difficulty, setDifficulty] = useState<AIDifficulty>('medium');
+  const [personality, setPersonality] = useState<AIPersonality>('balanced');
+
+  return (
+    <div
+      className="fixed top-14 right-3 w-64 space-y-2 rounded-xl bg-gray-900/90 p-3 text-white shadow-lg"
+      style={{ zIndex: 50 }}
+    >
+      <div className="flex items-center gap-2 text-xs font-medium text-gray-300">
+        <WifiOff className="h-3.5 w-3.5 text-yellow-400" />
+        Disconnected
+      </div>
+      <Select value={difficulty} onValueChange={value => setDifficulty(value as AIDifficulty)}>
+        <SelectTrigger className="h-8 bg-white text-gray-900">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(AI_DIFFICULTY_LABELS) as AIDifficulty[]).map(level => (
+            <SelectItem key={level} value={level}>
+              {AI_DIFFICULTY_LABELS[level]} AI
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={personality} onValueChange={value => setPersonality(value as AIPersonality)}>
+        <SelectTrigger className="h-8 bg-white text-gray-900" title={AI_PERSONALITIES[personality].description}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(AI_PERSONALITIES) as AIPersonality[]).map(style => (
+            <SelectItem key={style} value={style}>
+              {AI_PERSONALITIES[style].icon} {AI_PERSONALITIES[style].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {players.map(player => (
+        <div key={player.id} className="flex items-center justify-between gap-2">
+          <span className="truncate text-sm">{player.name}</span>
+          <Button
+            size="sm"
+            variant="secondary"
+            className="h-7"
+            onClick={() => onReplaceWithAI(player.id, difficulty, personality)}
+          >
+            <Bot className="h-3.5 w-3.5 mr-1" />
+            Replace
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo, useState } from 'react';
+import { useHandRecords } from '../../lib/stores/useHandRecords';
+import { analyzeHand } from '@shared/ai/analysis';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { ScrollArea } from '../ui/scroll-area';
+import { Button } from '../ui/button';
+
+// Replays a finished hand and lists the decisions that cost points, next to
+// the round history. Hands are only analyzed when opened - each one plays
+// every alternative out to the end.
+export default function GameAnalysis() {
+  const records = useHandRecords(state => state.records);
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+
+  const record = records.find(r => r.round === selectedRound) ?? records[records.length - 1];
+  const flagged = useMemo(() => (isOpen && record ? analyzeHand(record) : []), [isOpen, record]);
+
+  if (!isOpen) {
+    return (
+      <div className="fixed top-16 right-4 z-30">
+        <Button
+          onClick={() => setIsOpen(true)}
+          variant="outline"
+          className="bg-gray-800 text-white hover:bg-gray-700"
+          disabled={records.length === 0}
+        >
+          🔍 Analysis
+        </Button>
+      </div>
+    );
+  }
+
+  const nameOf = (playerId: string) => record?.players.find(p => p.id === playerId)?.name ?? 'Unknown';
+
+  return (
+    <div className="fixed top-16 right-4 z-40 w-96 max-h-96">
+      <Card className="bg-white border-2 border-gray-300 shadow-2xl">
+        <CardHeader className="pb-2 bg-white">
+          <div className="flex justify-between items-center">
+            <CardTitle className="text-lg text-gray-900">Hand Analysis</CardTitle>
+            <Button
+              onClick={() => setIsOpen(false)}
+              variant="ghost"
+              size="sm"
+              className="text-gray-900 hover:bg-gray-100"
+            >
+              ✕
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1 pt-2">
+            {records.map(r => (
+              <Button
+                key={r.round}
+                onClick={() => setSelectedRound(r.round)}
+                variant={r === record ? 'default' : 'outline'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+              >
+                Round {r.round}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="bg-white">
+          <ScrollArea className="h-64">
+            {flagged.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-4">
+                No costly decisions in this hand
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {flagged.map((decision, index) => (
+                  <div
+                    key={index}
+                    className="border-2 border-gray-300 rounded-lg p-2 bg-gray-100 text-xs"
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-semibold text-sm">{nameOf(decision.playerId)}</span>
+                      <span className="font-semibold text-red-600">+{decision.cost} points</span>
+                    </div>
+                    <p className="text-gray-900">
+                      {decision.label}
+                      {decision.trick !== undefined && ` (trick ${decision.trick})`}
+                    </p>
+                    <p className="text-muted-foreground">
+                      Chose {decision.chosen}; {decision.better} would have scored better
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
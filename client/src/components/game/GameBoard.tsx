@@ -1,10 +1,15 @@
 import { useShnarps } from '../../lib/stores/useShnarps';
+import { useSettings } from '../../lib/stores/useSettings';
+import { useReactions } from '../../lib/stores/useReactions';
 import PlayerHand from './PlayerHand';
 import Card from './Card';
 import { useMemo, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card as CardType, isValidPlay } from '../../lib/game/cardUtils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
+import { AI_PERSONALITIES } from '../../lib/game/aiLabels';
+import { REACTIONS } from '@shared/constants';
+import type { GameState } from '@shared/types';
 
 // Hook to track window size for responsive layout
 function useWindowSize() {
@@ -33,7 +38,13 @@ function getScoreColor(score: number): string {
   return 'bg-blue-500';
 }
 
-export default function GameBoard() {
+interface GameBoardProps {
+  // Draw this state read-only instead of the live game (the replay viewer)
+  replay?: { state: GameState; revealAll: boolean };
+}
+
+export default function GameBoard({ replay }: GameBoardProps) {
+  const live = useShnarps();
   const {
     players,
     currentTrick,
@@ -44,18 +55,19 @@ export default function GameBoard() {
     playingPlayers,
     scores,
     bids,
-    localPlayerId,
     highestBidder,
-    lastTrickWinner,
-    completedTricks,
-    playCard
-  } = useShnarps();
+    completedTricks
+  } = replay?.state ?? live;
+  const { localPlayerId, playCard } = live;
+  const revealAll = replay?.revealAll ?? false;
+  const bubbles = useReactions(state => state.bubbles);
+  const showReactions = useSettings(state => state.showReactions);
 
   const currentPlayer = players[currentPlayerIndex];
   const localPlayer = players.find(p => p.id === localPlayerId);
   // More robust check - if it's our turn based on currentPlayerIndex, we should be able to play
   // The playingPlayers check is a backup, but if currentPlayer is us, we're likely playing
-  const isLocalPlayerTurn = currentPlayer?.id === localPlayerId &&
+  const isLocalPlayerTurn = !replay && currentPlayer?.id === localPlayerId &&
     (playingPlayers.has(currentPlayer.id) || playingPlayers.size === 0 || (localPlayer?.hand?.length ?? 0) > 0);
 
   // Directly play the card when tapped (no confirmation needed)
@@ -245,6 +257,8 @@ export default function GameBoard() {
         const playerTricks = tricksWon.get(player.id) || 0;
         const isBidder = highestBidder === player.id;
         const playerBid = bids.get(player.id);
+        // Our own reactions always show, so the sender sees what went out
+        const bubble = !replay && (showReactions || isLocalPlayer) ? bubbles[player.id] : undefined;
 
         return (
           <motion.div
@@ -262,7 +276,22 @@ export default function GameBoard() {
               zIndex: isLocalPlayer ? 30 : isCurrentPlayer ? 20 : 10,
             }}
           >
-            <div className="flex flex-col items-center gap-1">
+            <div className="relative flex flex-col items-center gap-1">
+              {/* Quick reaction bubble over the seat */}
+              <AnimatePresence>
+                {bubble && (
+                  <motion.div
+                    key={bubble.id}
+                    initial={{ opacity: 0, y: 6, scale: 0.8 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -6 }}
+                    className="absolute bottom-full mb-1 whitespace-nowrap rounded-full bg-white px-2 py-1 text-xs font-semibold text-gray-900 shadow-lg pointer-events-none"
+                  >
+                    {REACTIONS[bubble.reaction].emoji} {REACTIONS[bubble.reaction].label}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
               {/* Compact player badge */}
               <motion.div
                 animate={isCurrentPlayer ? { scale: [1, 1.02, 1] } : {}}
@@ -300,6 +329,11 @@ export default function GameBoard() {
                       {player.isAI && (
                         <span className="text-[9px] opacity-70">AI</span>
                       )}
+                      {player.isAI && player.aiPersonality && player.aiPersonality !== 'balanced' && (
+                        <span className="text-[9px]" title={AI_PERSONALITIES[player.aiPersonality].label}>
+                          {AI_PERSONALITIES[player.aiPersonality].icon}
+                        </span>
+                      )}
                       {!isPlaying && gamePhase === 'hand_play' && (
                         <span className="text-[9px] px-1 bg-gray-600 rounded">Out</span>
                       )}
@@ -376,12 +410,12 @@ export default function GameBoard() {
 
               {/* Player hand */}
               {/* Show hand if: player is playing, OR local player during any active phase with cards */}
-              {(isPlaying || (isLocalPlayer && player.hand.length > 0 && gamePhase !== 'setup' && gamePhase !== 'game_over' && gamePhase !== 'round_complete')) && (
+              {(isPlaying || ((isLocalPlayer || revealAll) && player.hand.length > 0 && gamePhase !== 'setup' && gamePhase !== 'game_over' && gamePhase !== 'round_complete')) && (
                 <div className="mt-1">
                   <PlayerHand
                     cards={player.hand}
                     isCurrentPlayer={isCurrentPlayer && gamePhase === 'hand_play' && (isPlaying || isLocalPlayer)}
-                    faceUp={isLocalPlayer}
+                    faceUp={isLocalPlayer || revealAll}
                     onCardClick={isLocalPlayerTurn && gamePhase === 'hand_play' ? handleCardPlay : undefined}
                   />
                 </div>
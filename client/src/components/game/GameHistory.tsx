@@ -3,11 +3,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { ScrollArea } from '../ui/scroll-area';
 import { Button } from '../ui/button';
 import { useState } from 'react';
+import { getSuitSymbol } from '../../lib/game/cardUtils';
+import { downloadGameRecord } from '../../lib/game/gameRecordFile';
 
 export default function GameHistory() {
-  const { history, players } = useShnarps();
+  const { history, players, eliminatedPlayers, recording } = useShnarps();
   const [isOpen, setIsOpen] = useState(false);
 
+  // Eliminated players still appear in the rounds they played
+  const nameOf = (playerId: string) =>
+    [...players, ...eliminatedPlayers].find(p => p.id === playerId)?.name || 'Unknown';
+
   if (!isOpen) {
     return (
       <div className="fixed top-4 right-4 z-30">
@@ -28,6 +34,17 @@ export default function GameHistory() {
         <CardHeader className="pb-2 bg-white">
           <div className="flex justify-between items-center">
             <CardTitle className="text-lg text-gray-900">Game History</CardTitle>
+            {recording && (
+              <Button
+                onClick={() => downloadGameRecord(recording)}
+                variant="outline"
+                size="sm"
+                className="ml-auto mr-1 text-gray-900"
+                title="Save the game so far as a record file"
+              >
+                💾 Save
+              </Button>
+            )}
             <Button
               onClick={() => setIsOpen(false)}
               variant="ghost"
@@ -91,6 +108,31 @@ export default function GameHistory() {
                             );
                           })}
                         </div>
+
+                        {round.sitDecisions && Array.from(round.sitDecisions.values()).includes('sit') && (
+                          <p className="text-muted-foreground">
+                            Sat out: {Array.from(round.sitDecisions.entries())
+                              .filter(([, decision]) => decision === 'sit')
+                              .map(([playerId]) => nameOf(playerId))
+                              .join(', ')}
+                          </p>
+                        )}
+
+                        {round.tricks && round.tricks.length > 0 && (
+                          <div className="mt-2">
+                            <p className="font-medium mb-1">Tricks:</p>
+                            {round.tricks.map((trick, index) => (
+                              <p key={index} className="py-0.5">
+                                <span className="text-muted-foreground">{index + 1}.</span>{' '}
+                                {trick.plays
+                                  .map(play => `${nameOf(play.playerId)} ${play.card.rank}${getSuitSymbol(play.card.suit)}`)
+                                  .join(', ')}
+                                {' → '}
+                                <span className="font-semibold">{nameOf(trick.winnerId)}</span>
+                              </p>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -7,6 +7,8 @@ import BiddingPhase from './BiddingPhase';
 import SitPassPhase from './SitPassPhase';
 import HandPlayPhase from './HandPlayPhase';
 import GameHistory from './GameHistory';
+import GameAnalysis from './GameAnalysis';
+import ReplayViewer from './ReplayViewer';
 import MultiplayerSetup from './MultiplayerSetup';
 import AvatarCustomizer, { Avatar, type PlayerAvatar } from './AvatarCustomizer';
 import Tutorial from './Tutorial';
@@ -17,12 +19,15 @@ import { TurnTimer } from './TurnTimer';
 import { ErrorBoundary } from './ErrorBoundary';
 import { TurnIndicator, PhaseIndicator } from './TurnIndicator';
 import { Confetti } from './Confetti';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useMultiplayer } from '../../lib/hooks/useMultiplayer';
 import { useWallet } from '../../lib/stores/useWallet';
-import { BookOpen, HelpCircle, Settings, X, Wallet, History, Copy, Check, Trophy, Crown, Medal, Globe } from 'lucide-react';
+import { BookOpen, HelpCircle, Settings, X, Wallet, Copy, Check, Trophy, Crown, Medal, Globe, FolderOpen } from 'lucide-react';
 import { toast } from 'sonner';
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion } from 'framer-motion';
+import type { AIDifficulty, AIPersonality, GameRecording, Suit } from '@shared/types';
+import { AI_DIFFICULTY_LABELS, AI_PERSONALITIES } from '../../lib/game/aiLabels';
+import { GAME_RECORD_EXTENSION, downloadGameRecord, openGameRecord } from '../../lib/game/gameRecordFile';
 
 export default function GameUI() {
   const { 
@@ -30,7 +35,6 @@ export default function GameUI() {
     players,
     eliminatedPlayers,
     scores,
-    round,
     history,
     joinGame,
     addAIPlayer,
@@ -45,24 +49,44 @@ export default function GameUI() {
     removePlayer,
     multiplayerMode: mode,
     multiplayerRoomCode: roomCode,
-    isMultiplayerHost: isHost
+    isMultiplayerHost: isHost,
+    isPublicRoom,
+    backfillAt,
+    recording
   } = useShnarps();
   
   const { addAIPlayer: addMultiplayerAI, removePlayer: removeMultiplayerPlayer, startGame: startMultiplayerGame } = useMultiplayer();
   
   const [playerName, setPlayerName] = useState('');
   const [trumpSuit, setTrumpSuit] = useState<string>('');
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>('medium');
+  const [aiPersonality, setAIPersonality] = useState<AIPersonality>('balanced');
   const [gameMode, setGameMode] = useState<'menu' | 'local' | 'online'>('menu');
   const [showAvatarCustomizer, setShowAvatarCustomizer] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
   const [showWalkthrough, setShowWalkthrough] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [replaying, setReplaying] = useState<GameRecording | null>(null);
+  const recordFileInput = useRef<HTMLInputElement>(null);
   const [currentAvatar, setCurrentAvatar] = useState<PlayerAvatar>({
     color: '#3B82F6',
     icon: '👤'
   });
   const [copiedRoomCode, setCopiedRoomCode] = useState(false);
+  const [backfillSeconds, setBackfillSeconds] = useState<number | null>(null);
+
+  // Quick match rooms count down to the AI backfill and start
+  useEffect(() => {
+    if (backfillAt === null || gamePhase !== 'setup') {
+      setBackfillSeconds(null);
+      return;
+    }
+    const tick = () => setBackfillSeconds(Math.max(0, Math.ceil((backfillAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [backfillAt, gamePhase]);
 
   // Copy room code to clipboard
   const handleCopyRoomCode = async () => {
@@ -94,6 +118,22 @@ export default function GameUI() {
     }
   }, [gamePhase, players.length]);
 
+  // Load a saved game record into the replay viewer
+  const handleOpenRecord = async (file: File | undefined) => {
+    if (!file) return;
+    const result = await openGameRecord(file);
+    if (result.valid) {
+      setReplaying(result.recording);
+    } else {
+      toast.error(`Couldn't open ${file.name}: ${result.error}`);
+    }
+  };
+
+  // Replay of a finished or imported game - read-only, covers everything else
+  if (replaying) {
+    return <ReplayViewer recording={replaying} onClose={() => setReplaying(null)} />;
+  }
+
   // Welcome screen - choose game mode (only show if NOT in online mode)
   if (gameMode === 'menu' && gamePhase === 'setup' && players.length === 0 && mode === 'local') {
     console.log('Showing welcome menu - gameMode:', gameMode, 'mode:', mode, 'players:', players.length);
@@ -159,6 +199,25 @@ export default function GameUI() {
                   <HelpCircle className="h-4 w-4 mr-2" />
                   App Walkthrough (First Time Here?)
                 </Button>
+                <Button
+                  onClick={() => recordFileInput.current?.click()}
+                  variant="ghost"
+                  className="w-full justify-start"
+                  size="sm"
+                >
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Open Game Record (Replay a Saved Game)
+                </Button>
+                <input
+                  ref={recordFileInput}
+                  type="file"
+                  accept={`${GAME_RECORD_EXTENSION},.txt`}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleOpenRecord(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
               </div>
             </CardContent>
           </Card>
@@ -207,7 +266,7 @@ export default function GameUI() {
               <div>
                 <CardTitle className="text-xl">Shnarps</CardTitle>
                 <p className="text-sm text-green-100 mt-0.5">
-                  {isOnline ? 'Online Room' : 'Local Game'}
+                  {isOnline ? (isPublicRoom ? 'Public Room' : 'Online Room') : 'Local Game'}
                 </p>
               </div>
               <div className="flex items-center gap-2">
@@ -241,6 +300,11 @@ export default function GameUI() {
                     )}
                   </button>
                 </div>
+                {backfillSeconds !== null && (
+                  <p className="text-xs text-green-100 mt-2 text-center">
+                    Starting in {backfillSeconds}s - AI takes any empty seats
+                  </p>
+                )}
               </motion.div>
             )}
           </CardHeader>
@@ -286,7 +350,17 @@ export default function GameUI() {
                             {player.name}
                           </span>
                           {player.isAI && (
-                            <span className="text-[10px] px-1.5 py-0.5 bg-gray-200 rounded text-gray-600">AI</span>
+                            <span className="text-[10px] px-1.5 py-0.5 bg-gray-200 rounded text-gray-600">
+                              AI{player.aiDifficulty && ` · ${AI_DIFFICULTY_LABELS[player.aiDifficulty]}`}
+                            </span>
+                          )}
+                          {player.isAI && player.aiPersonality && player.aiPersonality !== 'balanced' && (
+                            <span
+                              className="text-[10px] px-1.5 py-0.5 bg-amber-100 rounded text-amber-700"
+                              title={AI_PERSONALITIES[player.aiPersonality].description}
+                            >
+                              {AI_PERSONALITIES[player.aiPersonality].icon} {AI_PERSONALITIES[player.aiPersonality].label}
+                            </span>
                           )}
                           {player.id === localPlayerId && (
                             <span className="text-[10px] px-1.5 py-0.5 bg-blue-100 rounded text-blue-600">You</span>
@@ -361,6 +435,36 @@ export default function GameUI() {
               </div>
             )}
 
+            {/* New bots play at the chosen difficulty and personality */}
+            {players.length < 8 && (!isOnline || isHost) && (
+              <div className="flex gap-2">
+                <Select value={aiDifficulty} onValueChange={value => setAIDifficulty(value as AIDifficulty)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AI_DIFFICULTY_LABELS) as AIDifficulty[]).map(difficulty => (
+                      <SelectItem key={difficulty} value={difficulty}>
+                        {AI_DIFFICULTY_LABELS[difficulty]} AI
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={aiPersonality} onValueChange={value => setAIPersonality(value as AIPersonality)}>
+                  <SelectTrigger className="flex-1" title={AI_PERSONALITIES[aiPersonality].description}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AI_PERSONALITIES) as AIPersonality[]).map(personality => (
+                      <SelectItem key={personality} value={personality}>
+                        {AI_PERSONALITIES[personality].icon} {AI_PERSONALITIES[personality].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Add AI button */}
             {players.length < 8 && (!isOnline || isHost) && (
               <Button
@@ -375,9 +479,9 @@ export default function GameUI() {
                     const aiName = availableNames.length > 0
                       ? availableNames[Math.floor(Math.random() * availableNames.length)]
                       : `AI ${players.length + 1}`;
-                    addMultiplayerAI(aiName);
+                    addMultiplayerAI(aiName, aiDifficulty, aiPersonality);
                   } else {
-                    addAIPlayer();
+                    addAIPlayer(aiDifficulty, aiPersonality);
                   }
                 }}
                 variant="outline"
@@ -462,7 +566,7 @@ export default function GameUI() {
               <Button 
                 onClick={() => {
                   if (trumpSuit) {
-                    chooseTrumpSuit(trumpSuit);
+                    chooseTrumpSuit(trumpSuit as Suit);
                     setTrumpSuit('');
                   }
                 }}
@@ -742,8 +846,26 @@ export default function GameUI() {
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 1.5 }}
-                className="p-4 pt-0 flex-shrink-0"
+                className="p-4 pt-0 flex-shrink-0 space-y-2"
               >
+                {recording && (
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => setReplaying(recording)}
+                      variant="outline"
+                      className="flex-1 h-12 text-base touch-manipulation bg-gray-800 text-white border-gray-600 hover:bg-gray-700"
+                    >
+                      ▶ Watch Replay
+                    </Button>
+                    <Button
+                      onClick={() => downloadGameRecord(recording)}
+                      variant="outline"
+                      className="flex-1 h-12 text-base touch-manipulation bg-gray-800 text-white border-gray-600 hover:bg-gray-700"
+                    >
+                      💾 Save Record
+                    </Button>
+                  </div>
+                )}
                 <Button
                   onClick={resetGame}
                   className="w-full h-12 text-base touch-manipulation bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 shadow-lg"
@@ -791,6 +913,7 @@ export default function GameUI() {
 
       {/* Game history - always shown after setup/game_over phases (handled by early returns above) */}
       <GameHistory />
+      <GameAnalysis />
 
       {/* Eliminated player - Simulate to End option */}
       {isLocalPlayerEliminated && !isSimulating && (
@@ -2,18 +2,24 @@ import { useShnarps } from '../../lib/stores/useShnarps';
 import { Button } from '../ui/button';
 import { motion } from 'framer-motion';
 import { ArrowRight } from 'lucide-react';
+import CoachHint from './CoachHint';
 
 export default function HandPlayPhase() {
   const {
     currentTrick,
     playingPlayers,
+    players,
+    currentPlayerIndex,
+    localPlayerId,
+    multiplayerMode,
     nextTrick
   } = useShnarps();
 
   const isTrickComplete = currentTrick.length === Array.from(playingPlayers).length && playingPlayers.size > 0;
 
   // Only show Next Trick button when trick is complete
-  if (isTrickComplete) {
+  // (online, the server moves to the next trick on its own timer)
+  if (isTrickComplete && multiplayerMode === 'local') {
     return (
       <motion.div
         initial={{ opacity: 0, y: -20 }}
@@ -32,5 +38,14 @@ export default function HandPlayPhase() {
     );
   }
 
+  // Cards are played from the hand itself; the coach sits just above it
+  if (players[currentPlayerIndex]?.id === localPlayerId) {
+    return (
+      <div className="fixed bottom-44 sm:bottom-40 left-1/2 transform -translate-x-1/2 z-40">
+        <CoachHint />
+      </div>
+    );
+  }
+
   return null;
 }
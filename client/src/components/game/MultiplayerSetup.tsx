@@ -2,8 +2,14 @@ import { useState, useEffect, useRef } from 'react';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
 import { useMultiplayer } from '../../lib/hooks/useMultiplayer';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { useLobby } from '../../lib/hooks/useLobby';
+import { useAuth } from '../../lib/stores/useAuth';
+import { useShnarps } from '../../lib/stores/useShnarps';
+import { LOBBY } from '@shared/constants';
+import { Loader2, AlertCircle, User as UserIcon, Users, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface MultiplayerSetupProps {
@@ -14,12 +20,27 @@ interface MultiplayerSetupProps {
 export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSetupProps) {
   const [playerName, setPlayerName] = useState('');
   const [roomCode, setRoomCode] = useState('');
-  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'spectate'>('menu');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'spectate' | 'lobby' | 'login' | 'register'>('menu');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const { connectToRoom, isConnected, mode: multiplayerMode } = useMultiplayer();
+  const [watchAllHands, setWatchAllHands] = useState(false);
+  const [isPublic, setIsPublic] = useState(false);
+  const { connectToRoom, mode: multiplayerMode } = useMultiplayer();
+  const { user, fetchUser, login, register, logout } = useAuth();
+  const { rooms: publicRooms, isLoading: isLoadingRooms } = useLobby(mode === 'lobby');
   const isMountedRef = useRef(true);
 
+  // Pick up an existing session so returning players are already logged in
+  useEffect(() => {
+    fetchUser().catch(err => console.error('Failed to load account:', err));
+  }, [fetchUser]);
+
+  // Logged-in players always play under their username
+  useEffect(() => {
+    if (user) setPlayerName(user.username);
+  }, [user]);
+
   // Track mount state to prevent state updates after unmount
   useEffect(() => {
     isMountedRef.current = true;
@@ -69,7 +90,7 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
     console.log('Create room button clicked, playerName:', playerName);
 
     try {
-      await connectToRoom(playerName.trim(), undefined, false);
+      await connectToRoom(playerName.trim(), undefined, false, { isPublic });
       toast.success('Room created successfully!');
     } catch (err) {
       if (isMountedRef.current) {
@@ -127,6 +148,122 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
     }
   };
 
+  const handleQuickMatch = async () => {
+    const nameError = validatePlayerName(playerName);
+    if (nameError) {
+      setError(nameError);
+      toast.error(nameError);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await connectToRoom(playerName.trim(), undefined, false, { quickMatch: true });
+    } catch (err) {
+      if (isMountedRef.current) {
+        const errorMsg = err instanceof Error ? err.message : 'Failed to find a game. Please try again.';
+        setError(errorMsg);
+        toast.error(errorMsg);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Join a listed room, or watch it if it is full or already playing
+  const handlePublicRoom = async (code: string, watch: boolean) => {
+    const nameError = watch ? null : validatePlayerName(playerName);
+    if (nameError) {
+      setError(nameError);
+      toast.error(nameError);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await connectToRoom(watch ? '' : playerName.trim(), code, watch);
+    } catch (err) {
+      if (isMountedRef.current) {
+        const errorMsg = err instanceof Error ? err.message : 'Failed to connect to the room. Please try again.';
+        setError(errorMsg);
+        toast.error(errorMsg);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleSpectateRoom = async () => {
+    const codeError = validateRoomCode(roomCode);
+    if (codeError) {
+      setError(codeError);
+      toast.error(codeError);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    useShnarps.getState().setSpectatorAllHands(watchAllHands);
+
+    try {
+      await connectToRoom('', roomCode.trim().toUpperCase(), true);
+      toast.success('Watching room');
+    } catch (err) {
+      if (isMountedRef.current) {
+        const errorMsg = err instanceof Error ? err.message : 'Failed to watch room. Check the code and try again.';
+        setError(errorMsg);
+        toast.error(errorMsg);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleAccountSubmit = async () => {
+    const nameError = validatePlayerName(playerName);
+    if (nameError) {
+      setError(nameError);
+      toast.error(nameError);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      if (mode === 'register') {
+        await register(playerName.trim(), password);
+        toast.success('Account created!');
+      } else {
+        await login(playerName.trim(), password);
+        toast.success('Logged in!');
+      }
+      if (isMountedRef.current) {
+        setPassword('');
+        setMode('menu');
+      }
+    } catch (err) {
+      if (isMountedRef.current) {
+        const errorMsg = err instanceof Error ? err.message : 'Something went wrong. Please try again.';
+        setError(errorMsg);
+        toast.error(errorMsg);
+      }
+    } finally {
+      if (isMountedRef.current) setIsLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      setPlayerName('');
+      toast.success('Logged out');
+    } catch {
+      toast.error('Failed to log out');
+    }
+  };
+
   // Clear error when switching modes
   const handleModeChange = (newMode: typeof mode) => {
     setError(null);
@@ -150,12 +287,43 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
                 <span>{error}</span>
               </div>
             )}
+            {user ? (
+              <div className="flex items-center justify-between gap-2 p-3 bg-gray-50 border rounded-md text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <UserIcon className="h-4 w-4 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{user.username}</div>
+                    <div className="text-xs text-muted-foreground">
+                      ${user.wallet} · {user.gamesWon}/{user.gamesPlayed} games won
+                    </div>
+                  </div>
+                </div>
+                <Button onClick={handleLogout} variant="ghost" size="sm" disabled={isLoading}>
+                  Log out
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button onClick={() => handleModeChange('login')} className="flex-1" variant="outline" size="sm" disabled={isLoading}>
+                  Log In
+                </Button>
+                <Button onClick={() => handleModeChange('register')} className="flex-1" variant="outline" size="sm" disabled={isLoading}>
+                  Create Account
+                </Button>
+              </div>
+            )}
+            <Button onClick={() => handleModeChange('lobby')} className="w-full" size="lg" disabled={isLoading}>
+              🌐 Public Rooms &amp; Quick Match
+            </Button>
             <Button onClick={() => handleModeChange('create')} className="w-full" size="lg" disabled={isLoading}>
               Create New Room
             </Button>
             <Button onClick={() => handleModeChange('join')} className="w-full" variant="outline" size="lg" disabled={isLoading}>
               Join Existing Room
             </Button>
+            <Button onClick={() => handleModeChange('spectate')} className="w-full" variant="outline" size="lg" disabled={isLoading}>
+              👀 Watch a Room
+            </Button>
             <Button onClick={handleCreateSpectatorRoom} className="w-full" variant="secondary" size="lg" disabled={isLoading}>
               {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
               🤖 Spectate AI Game
@@ -202,11 +370,20 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
                   }
                 }}
                 maxLength={20}
-                disabled={isLoading}
+                disabled={isLoading || !!user}
                 aria-describedby={error ? "create-error" : undefined}
               />
               <p className="text-xs text-muted-foreground mt-1">Press Enter to create room</p>
             </div>
+            <div className="flex items-start gap-2">
+              <Switch id="create-public" checked={isPublic} onCheckedChange={setIsPublic} disabled={isLoading} />
+              <div>
+                <Label htmlFor="create-public" className="text-sm">List in public rooms</Label>
+                <p className="text-xs text-muted-foreground">
+                  Anyone can find and join it. Private rooms are reached by code only
+                </p>
+              </div>
+            </div>
             <Button
               onClick={handleCreateRoom}
               className="w-full"
@@ -258,7 +435,7 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
                   if (error) setError(null);
                 }}
                 maxLength={20}
-                disabled={isLoading}
+                disabled={isLoading || !!user}
               />
             </div>
             <div>
@@ -305,5 +482,253 @@ export default function MultiplayerSetup({ onBack, onConnected }: MultiplayerSet
     );
   }
 
+  if (mode === 'lobby') {
+    return (
+      <div className="fixed inset-0 flex items-start justify-center pt-8 md:pt-16" style={{ zIndex: 9999 }}>
+        <Card className="w-full max-w-md mx-4 shadow-2xl bg-white">
+          <CardHeader>
+            <CardTitle className="text-center">Public Rooms</CardTitle>
+            <p className="text-center text-sm text-muted-foreground">
+              Join a table, or let quick match find you one
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm" role="alert">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+            <div>
+              <label htmlFor="lobby-name" className="text-sm font-medium">Your Name</label>
+              <Input
+                id="lobby-name"
+                placeholder="Enter your name (2-20 characters)"
+                value={playerName}
+                onChange={(e) => {
+                  setPlayerName(e.target.value);
+                  if (error) setError(null);
+                }}
+                maxLength={20}
+                disabled={isLoading || !!user}
+              />
+            </div>
+            <Button
+              onClick={handleQuickMatch}
+              className="w-full"
+              disabled={!playerName.trim() || isLoading}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Connecting...
+                </>
+              ) : (
+                '⚡ Quick Match'
+              )}
+            </Button>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Joins a table that is waiting for players, or opens one. AI fills any empty seats after {LOBBY.BACKFILL_DELAY / 1000} seconds.
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-1.5 pr-1">
+              {isLoadingRooms ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : publicRooms.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-4">No public rooms right now</p>
+              ) : (
+                publicRooms.map(room => {
+                  const canJoin = room.gamePhase === 'setup' && room.playerCount < room.maxPlayers;
+                  return (
+                    <div key={room.roomId} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1.5">
+                          <span className="text-sm font-medium truncate">{room.hostName}'s table</span>
+                          <span className="text-[10px] font-mono text-gray-500">{room.roomId}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-[11px] text-gray-500">
+                          <span className="flex items-center gap-0.5">
+                            <Users className="h-3 w-3" /> {room.playerCount}/{room.maxPlayers}
+                          </span>
+                          {room.spectatorCount > 0 && (
+                            <span className="flex items-center gap-0.5">
+                              <Eye className="h-3 w-3" /> {room.spectatorCount}
+                            </span>
+                          )}
+                          <span>{room.gamePhase === 'setup' ? 'Waiting' : `Round ${room.round}`}</span>
+                          <span>Start {room.settings.startingScore}</span>
+                          {room.settings.turnTimeLimit > 0 && <span>{room.settings.turnTimeLimit}s turns</span>}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant={canJoin ? 'default' : 'outline'}
+                        onClick={() => handlePublicRoom(room.roomId, !canJoin)}
+                        disabled={isLoading || (canJoin && !playerName.trim())}
+                      >
+                        {canJoin ? 'Join' : 'Watch'}
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            <Button onClick={() => handleModeChange('menu')} className="w-full" variant="ghost" disabled={isLoading}>
+              Back
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (mode === 'spectate') {
+    return (
+      <div className="fixed inset-0 flex items-start justify-center pt-8 md:pt-16" style={{ zIndex: 9999 }}>
+        <Card className="w-full max-w-md mx-4 shadow-2xl bg-white">
+          <CardHeader>
+            <CardTitle className="text-center">Watch a Room</CardTitle>
+            <p className="text-center text-sm text-muted-foreground">
+              Follow a game in progress without taking a seat
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm" role="alert">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+            <div>
+              <label htmlFor="spectate-code" className="text-sm font-medium">Room Code</label>
+              <Input
+                id="spectate-code"
+                placeholder="Enter 6-character code"
+                value={roomCode}
+                onChange={(e) => {
+                  setRoomCode(e.target.value.toUpperCase());
+                  if (error) setError(null);
+                }}
+                maxLength={6}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && roomCode.trim()) {
+                    handleSpectateRoom();
+                  }
+                }}
+                disabled={isLoading}
+                className="font-mono tracking-widest text-center text-lg"
+              />
+            </div>
+            <div className="flex items-start gap-2">
+              <Switch id="spectate-all-hands" checked={watchAllHands} onCheckedChange={setWatchAllHands} disabled={isLoading} />
+              <div>
+                <Label htmlFor="spectate-all-hands" className="text-sm">Show all hands</Label>
+                <p className="text-xs text-muted-foreground">
+                  Shows each hand once it has been played out, so nobody can pass cards on to the players
+                </p>
+              </div>
+            </div>
+            <Button
+              onClick={handleSpectateRoom}
+              className="w-full"
+              disabled={!roomCode.trim() || isLoading}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Connecting...
+                </>
+              ) : (
+                'Watch Room'
+              )}
+            </Button>
+            <Button onClick={() => handleModeChange('menu')} className="w-full" variant="ghost" disabled={isLoading}>
+              Back
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (mode === 'login' || mode === 'register') {
+    const isRegister = mode === 'register';
+    return (
+      <div className="fixed inset-0 flex items-start justify-center pt-8 md:pt-16" style={{ zIndex: 9999 }}>
+        <Card className="w-full max-w-md mx-4 shadow-2xl bg-white">
+          <CardHeader>
+            <CardTitle className="text-center">{isRegister ? 'Create Account' : 'Log In'}</CardTitle>
+            <p className="text-center text-sm text-muted-foreground">
+              Keep your wallet and stats on every device
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm" role="alert">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+            <div>
+              <label htmlFor="account-username" className="text-sm font-medium">Username</label>
+              <Input
+                id="account-username"
+                placeholder={isRegister ? 'Letters, numbers and _ (3-20 characters)' : 'Your username'}
+                value={playerName}
+                onChange={(e) => {
+                  setPlayerName(e.target.value);
+                  if (error) setError(null);
+                }}
+                maxLength={20}
+                autoComplete="username"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="account-password" className="text-sm font-medium">Password</label>
+              <Input
+                id="account-password"
+                type="password"
+                placeholder={isRegister ? 'At least 8 characters' : 'Your password'}
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  if (error) setError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && playerName.trim() && password) {
+                    handleAccountSubmit();
+                  }
+                }}
+                autoComplete={isRegister ? 'new-password' : 'current-password'}
+                disabled={isLoading}
+              />
+            </div>
+            <Button
+              onClick={handleAccountSubmit}
+              className="w-full"
+              disabled={!playerName.trim() || !password || isLoading}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              {isRegister ? 'Create Account' : 'Log In'}
+            </Button>
+            <Button
+              onClick={() => handleModeChange(isRegister ? 'login' : 'register')}
+              className="w-full"
+              variant="link"
+              disabled={isLoading}
+            >
+              {isRegister ? 'Already have an account? Log in' : 'New here? Create an account'}
+            </Button>
+            <Button onClick={() => handleModeChange('menu')} className="w-full" variant="ghost" disabled={isLoading}>
+              Back
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return null;
 }
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Smile } from 'lucide-react';
+import { Button } from '../ui/button';
+import { REACTION, REACTIONS } from '@shared/constants';
+import type { ReactionId } from '@shared/types';
+
+interface ReactionBarProps {
+  onReact: (reaction: ReactionId) => void;
+}
+
+/**
+ * One-tap reactions for the table, for when typing mid-hand is too slow.
+ * Sits above the chat button and waits out the cooldown after each send.
+ */
+export default function ReactionBar({ onReact }: ReactionBarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [coolingDown, setCoolingDown] = useState(false);
+
+  useEffect(() => {
+    if (!coolingDown) return;
+    const timer = setTimeout(() => setCoolingDown(false), REACTION.COOLDOWN);
+    return () => clearTimeout(timer);
+  }, [coolingDown]);
+
+  const react = (reaction: ReactionId) => {
+    onReact(reaction);
+    setCoolingDown(true);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="fixed bottom-20 right-4 flex flex-col items-end gap-1" style={{ zIndex: 10000 }}>
+      {isOpen && (
+        <div className="flex flex-col gap-1 rounded-xl bg-gray-900/90 p-1.5 shadow-lg">
+          {(Object.keys(REACTIONS) as ReactionId[]).map(reaction => (
+            <button
+              key={reaction}
+              onClick={() => react(reaction)}
+              disabled={coolingDown}
+              className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-left text-sm text-white hover:bg-white/10 disabled:opacity-40 touch-manipulation"
+            >
+              <span className="text-lg">{REACTIONS[reaction].emoji}</span>
+              {REACTIONS[reaction].label}
+            </button>
+          ))}
+        </div>
+      )}
+      <Button
+        onClick={() => setIsOpen(!isOpen)}
+        variant="secondary"
+        className="rounded-full h-12 w-12 p-0 shadow-lg"
+        aria-label="Quick reactions"
+      >
+        <Smile className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
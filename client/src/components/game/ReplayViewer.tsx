@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Pause, Play, X } from 'lucide-react';
+import GameBoard from './GameBoard';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { getSuitSymbol } from '../../lib/game/cardUtils';
+import { replayRecording, roundStarts, type ReplayStep } from '@shared/replay';
+import type { GameRecording } from '@shared/types';
+
+// Time each action stays on the table while the replay plays by itself (ms)
+const STEP_DELAY = 900;
+
+interface ReplayViewerProps {
+  recording: GameRecording;
+  onClose: () => void;
+}
+
+// What happened at a step, e.g. "Jake bids 3" or "Luke plays K♠"
+function describeStep({ state, action }: ReplayStep, nameOf: (playerId: string) => string): string {
+  if (!action) return 'The table before the first deal';
+  switch (action.action) {
+    case 'deal':
+      return `Round ${state.round} dealt`;
+    case 'bid':
+      return action.payload.bid === 0
+        ? `${nameOf(action.payload.playerId)} passes`
+        : `${nameOf(action.payload.playerId)} bids ${action.payload.bid}`;
+    case 'trump':
+      return `${nameOf(action.payload.playerId)} calls ${action.payload.suit} ${getSuitSymbol(action.payload.suit)}`;
+    case 'sitpass':
+      return `${nameOf(action.payload.playerId)} ${action.payload.decision === 'sit' ? 'sits out' : 'plays'}`;
+    case 'penalty':
+      return action.payload.choice === 'self'
+        ? `${nameOf(action.payload.playerId)} takes the -5`
+        : `${nameOf(action.payload.playerId)} gives everyone else +5`;
+    case 'playcard':
+      return `${nameOf(action.payload.playerId)} plays ${action.payload.card.rank}${getSuitSymbol(action.payload.card.suit)}`;
+    case 'advance':
+      return state.gamePhase === 'hand_play' ? `Trick ${state.trickNumber}` : 'Hand scored';
+  }
+}
+
+/**
+ * Plays a finished game back on the table, one action at a time
+ */
+export default function ReplayViewer({ recording, onClose }: ReplayViewerProps) {
+  const { steps, error } = useMemo(() => replayRecording(recording), [recording]);
+  const rounds = useMemo(() => roundStarts(steps), [steps]);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [revealAll, setRevealAll] = useState(false);
+
+  const lastIndex = steps.length - 1;
+  const step = steps[index];
+  const everyone = [...step.state.players, ...step.state.eliminatedPlayers];
+  const nameOf = (playerId: string) => everyone.find(p => p.id === playerId)?.name ?? 'Unknown';
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (index >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(index + 1), STEP_DELAY);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, lastIndex]);
+
+  const goTo = (next: number) => {
+    setIsPlaying(false);
+    setIndex(Math.max(0, Math.min(lastIndex, next)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-gradient-to-br from-green-800 to-green-900">
+      <div className="relative flex-1 min-h-0">
+        <GameBoard replay={{ state: step.state, revealAll }} />
+      </div>
+
+      <div className="flex-shrink-0 bg-gray-900/95 text-white px-4 py-3 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="font-semibold truncate">{describeStep(step, nameOf)}</span>
+          <span className="text-gray-400 flex-shrink-0">
+            Step {index} / {lastIndex}
+          </span>
+        </div>
+        {error && <p className="text-xs text-red-400">Replay stopped early: {error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="secondary" onClick={() => goTo(index - 1)} disabled={index === 0} aria-label="Step back">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setIsPlaying(!isPlaying)}
+            disabled={index >= lastIndex && !isPlaying}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => goTo(index + 1)} disabled={index >= lastIndex} aria-label="Step forward">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+
+          <Select
+            value={String(step.state.round)}
+            onValueChange={round => goTo(rounds.get(Number(round)) ?? index)}
+          >
+            <SelectTrigger className="w-32 h-8 bg-gray-800 border-gray-700 text-white">
+              <SelectValue placeholder="Round" />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(rounds.keys()).map(round => (
+                <SelectItem key={round} value={String(round)}>
+                  Round {round}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="revealAll" checked={revealAll} onCheckedChange={setRevealAll} />
+            <Label htmlFor="revealAll" className="text-sm">Reveal all hands</Label>
+          </div>
+
+          <Button size="sm" variant="ghost" onClick={onClose} className="text-white hover:bg-gray-800" aria-label="Close replay">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { canPlayerSit } from '../../lib/game/gameLogic';
 import { motion } from 'framer-motion';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
 import { Play, UserX } from 'lucide-react';
+import CoachHint from './CoachHint';
 
 export default function SitPassPhase() {
   const {
@@ -120,6 +121,8 @@ export default function SitPassPhase() {
             {getSitBlockReason()}
           </motion.p>
         )}
+
+        <CoachHint />
       </div>
     </motion.div>
   );
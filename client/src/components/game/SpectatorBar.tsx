@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Eye, Armchair } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import type { Player } from '@shared/types';
+
+interface SpectatorBarProps {
+  allHands: boolean;
+  onToggleAllHands: (allHands: boolean) => void;
+  freeSeats: Player[]; // AI seats a spectator may take
+  pendingSeatId: string | null;
+  accountName?: string; // Logged-in spectators sit down under their username
+  onClaimSeat: (playerId: string, playerName: string) => void;
+}
+
+/**
+ * Lets someone watching by code switch between the live table, with every
+ * hand hidden, and the all-hands view the server only sends once a hand is
+ * over. Once the game is running they can also take over an AI seat from the
+ * next hand.
+ */
+export default function SpectatorBar({
+  allHands,
+  onToggleAllHands,
+  freeSeats,
+  pendingSeatId,
+  accountName,
+  onClaimSeat
+}: SpectatorBarProps) {
+  const [showSeats, setShowSeats] = useState(false);
+  const [name, setName] = useState(accountName ?? '');
+  const pendingSeat = freeSeats.find(p => p.id === pendingSeatId);
+
+  return (
+    <div className="fixed bottom-4 left-4 flex flex-col items-start gap-1" style={{ zIndex: 10000 }}>
+      {showSeats && (
+        <div className="w-64 space-y-2 rounded-xl bg-gray-900/90 p-3 text-white shadow-lg">
+          <p className="text-xs text-gray-300">
+            You take the seat, with its score, when the next hand is dealt.
+          </p>
+          <Input
+            placeholder="Your name"
+            value={accountName ?? name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={20}
+            disabled={!!accountName}
+            className="h-8 bg-white text-gray-900"
+          />
+          {freeSeats.length === 0 ? (
+            <p className="text-xs text-gray-400">No seats are free right now</p>
+          ) : (
+            freeSeats.map(player => (
+              <div key={player.id} className="flex items-center justify-between gap-2">
+                <span className="truncate text-sm">
+                  {player.name}
+                  <span className="ml-1 text-[10px] text-gray-400">{player.isAI ? 'AI' : 'Left'}</span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="h-7"
+                  disabled={!(accountName ?? name).trim() || player.id === pendingSeatId}
+                  onClick={() => onClaimSeat(player.id, (accountName ?? name).trim())}
+                >
+                  {player.id === pendingSeatId ? 'Next hand' : 'Take seat'}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-2 rounded-full bg-gray-900/90 px-3 py-2 text-white shadow-lg">
+        <Eye className="h-4 w-4 text-blue-400" />
+        <span className="text-xs font-medium">
+          {pendingSeat ? `Taking ${pendingSeat.name}'s seat next hand` : 'Watching'}
+        </span>
+        <div className="w-px h-3 bg-gray-600" />
+        <Switch id="spectatorAllHands" checked={allHands} onCheckedChange={onToggleAllHands} />
+        <Label htmlFor="spectatorAllHands" className="text-xs text-gray-300">
+          All hands{allHands && ' (a hand behind)'}
+        </Label>
+        {(freeSeats.length > 0 || showSeats) && (
+          <>
+            <div className="w-px h-3 bg-gray-600" />
+            <button
+              onClick={() => setShowSeats(!showSeats)}
+              className="flex items-center gap-1 text-xs text-gray-300 hover:text-white"
+              aria-label="Take a seat"
+            >
+              <Armchair className="h-4 w-4" />
+              Sit in
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
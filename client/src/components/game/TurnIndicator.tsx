@@ -7,7 +7,6 @@ export function TurnIndicator() {
     players,
     currentPlayerIndex,
     localPlayerId,
-    playingPlayers,
   } = useShnarps();
 
   const currentPlayer = players[currentPlayerIndex];
@@ -0,0 +1,17 @@
+import type { AIDifficulty, AIPersonality } from '@shared/types';
+
+// How the lobby and the table describe an AI seat
+
+export const AI_DIFFICULTY_LABELS: Record<AIDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+export const AI_PERSONALITIES: Record<AIPersonality, { label: string; icon: string; description: string }> = {
+  balanced: { label: 'Balanced', icon: '⚖️', description: 'Plays its difficulty straight' },
+  aggressive: { label: 'Aggressive', icon: '🔥', description: 'Bids a trick over what its hand is worth' },
+  sitter: { label: 'Sitter', icon: '🪑', description: 'Sits out anything but a strong hand, up to the musty limit' },
+  ganger: { label: 'Gang-up', icon: '👊', description: 'Piles on anyone getting close to winning' },
+};
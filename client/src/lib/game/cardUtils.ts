@@ -35,15 +35,6 @@ export function createDeck(): Card[] {
   return deck;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
 export function sortHandBySuit(hand: Card[]): Card[] {
   const suitOrder = { 'spades': 0, 'hearts': 1, 'diamonds': 2, 'clubs': 3 };
   
@@ -106,7 +97,7 @@ export function isValidPlay(
   card: Card,
   hand: Card[],
   currentTrick: { playerId: string; card: Card }[],
-  trumpSuit: string | null
+  _trumpSuit: string | null
 ): boolean {
   // If first card of trick, any card is valid
   if (currentTrick.length === 0) return true;
@@ -0,0 +1,27 @@
+import { formatGameRecord } from '@shared/gameRecord';
+import { validateGameRecord } from '@shared/validation';
+import type { GameRecording } from '@shared/types';
+
+// Saving and opening game record files (format in GAME_RECORD.md)
+
+export const GAME_RECORD_EXTENSION = '.shnarps';
+
+/**
+ * Save the game as a record file through the browser's download
+ */
+export function downloadGameRecord(recording: GameRecording): void {
+  const blob = new Blob([formatGameRecord(recording)], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `shnarps-${new Date().toISOString().slice(0, 10)}${GAME_RECORD_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a record file and replay it through the rules, so only legal games load
+ */
+export async function openGameRecord(file: File): Promise<ReturnType<typeof validateGameRecord>> {
+  return validateGameRecord(await file.text());
+}
@@ -1,25 +1,20 @@
 import { useEffect, useRef } from 'react';
 import { useShnarps } from '../stores/useShnarps';
-import { makeAIBid, chooseAITrumpSuit, makeAISitPlayDecision, chooseAICardToPlay } from '../game/aiPlayer';
-import { isValidPlay } from '../game/cardUtils';
-import { canPlayerSit } from '../game/gameLogic';
+import { chooseAIAction, strategyForPlayer } from '@shared/ai/strategy';
 
 export function useAIPlayer() {
   const {
     gamePhase,
     players,
     currentPlayerIndex,
-    bids,
     placeBid,
     chooseTrumpSuit,
     chooseSitOrPlay,
     choosePenalty,
     playCard,
-    trumpSuit,
     currentTrick,
     playingPlayers,
     completedTricks,
-    scores,
     isSimulating,
     multiplayerMode,
     isMultiplayerHost
@@ -90,77 +85,27 @@ export function useAIPlayer() {
     const baseDelay = isSimulating ? 10 : (hasHumanPlaying ? 300 : 100);
     const randomDelay = isSimulating ? 0 : (hasHumanPlaying ? 200 : 100);
 
-    // Add delay to make AI decisions feel more natural
-    const aiDelay = setTimeout(() => {
-      // Bidding phase
-      if (gamePhase === 'bidding') {
-        const currentHighestBid = Math.max(0, ...Array.from(bids.values()));
-        const isDealer = currentPlayerIndex === useShnarps.getState().dealerIndex;
-        const highestBidderId = useShnarps.getState().highestBidder;
-        const aiBid = makeAIBid(
-          currentPlayer.hand,
-          currentHighestBid,
-          isDealer,
-          players.length,
-          currentPlayer.id,
-          scores,
-          highestBidderId
-        );
-        placeBid(currentPlayer.id, aiBid);
-      }
-
-      // Trump selection phase
-      else if (gamePhase === 'trump_selection') {
-        const aiTrump = chooseAITrumpSuit(currentPlayer.hand);
-        chooseTrumpSuit(aiTrump);
-      }
-
-      // Everyone sat out phase
-      else if (gamePhase === 'everyone_sat') {
-        // AI strategy: Usually better to take -5 yourself (moves toward winning)
-        // But if very close to losing (score >= 28), give +5 to others instead
-        const currentScore = scores.get(currentPlayer.id) || 16;
-        const choice = currentScore >= 28 ? 'others' : 'self';
-        choosePenalty(choice);
-      }
+    // Set by cleanup, so a decision the table has moved past isn't played
+    let cancelled = false;
 
-      // Sit/pass phase
-      else if (gamePhase === 'sit_pass') {
-        const highestBid = Math.max(0, ...Array.from(bids.values()));
-        const canSit = canPlayerSit(currentPlayer, highestBid, trumpSuit);
-        const currentScore = scores.get(currentPlayer.id) || 16;
-        const decision = makeAISitPlayDecision(
-          currentPlayer,
-          currentPlayer.hand,
-          trumpSuit,
-          highestBid,
-          canSit,
-          currentScore,
-          scores
-        );
-        chooseSitOrPlay(currentPlayer.id, decision);
-      }
-
-      // Hand play phase
-      else if (gamePhase === 'hand_play' && playingPlayers.has(currentPlayer.id)) {
+    // Add delay to make AI decisions feel more natural
+    const aiDelay = setTimeout(async () => {
+      // Same strategies the server plays, so a local bot plays like an online one
+      const action = await chooseAIAction(useShnarps.getState(), strategyForPlayer(currentPlayer));
+      if (cancelled) return;
+      if (action?.action === 'bid') {
+        placeBid(currentPlayer.id, action.payload.bid);
+      } else if (action?.action === 'trump') {
+        chooseTrumpSuit(action.payload.suit);
+      } else if (action?.action === 'sitpass') {
+        chooseSitOrPlay(currentPlayer.id, action.payload.decision);
+      } else if (action?.action === 'penalty') {
+        choosePenalty(action.payload.choice);
+      } else if (action?.action === 'playcard') {
         // CRITICAL: Check if this player already played in current trick
-        const hasPlayedInTrick = currentTrick.some(play => play.playerId === currentPlayer.id);
-        if (hasPlayedInTrick) {
-          return; // Already played, don't play again
-        }
-
-        const playableCards = currentPlayer.hand.filter(card =>
-          isValidPlay(card, currentPlayer.hand, currentTrick, trumpSuit)
-        );
-
-        if (playableCards.length > 0) {
-          const cardToPlay = chooseAICardToPlay(
-            currentPlayer.hand,
-            currentTrick,
-            trumpSuit,
-            playableCards
-          );
-          playCard(currentPlayer.id, cardToPlay);
+        const hasPlayedInTrick = useShnarps.getState().currentTrick.some(play => play.playerId === currentPlayer.id);
+        if (!hasPlayedInTrick) {
+          playCard(currentPlayer.id, action.payload.card);
         }
       }
 
@@ -169,9 +114,10 @@ export function useAIPlayer() {
     }, baseDelay + Math.random() * randomDelay);
 
     return () => {
+      cancelled = true;
       clearTimeout(aiDelay);
       // Clear pending flag if component unmounts or dependencies change
       actionPendingRef.current = null;
     };
-  }, [gamePhase, currentPlayerIndex, players, bids, trumpSuit, currentTrick, playingPlayers, scores, isSimulating, multiplayerMode, isMultiplayerHost, placeBid, chooseTrumpSuit, chooseSitOrPlay, choosePenalty, playCard]);
+  }, [gamePhase, currentPlayerIndex, players, currentTrick, playingPlayers, isSimulating, multiplayerMode, isMultiplayerHost, placeBid, chooseTrumpSuit, chooseSitOrPlay, choosePenalty, playCard]);
 }
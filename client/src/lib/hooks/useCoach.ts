@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useShnarps } from '../stores/useShnarps';
+import { useSettings } from '../stores/useSettings';
+import { coachAdvice, type CoachAdvice } from '@shared/ai/coach';
+
+/**
+ * The coach's advice for the local player's current decision, or null when
+ * hints are off (by the player, or by the host of an online room) or it
+ * isn't their turn. Worked out once per decision - the search takes a moment.
+ */
+export function useCoach(): CoachAdvice | null {
+  const coachEnabled = useSettings(state => state.coachEnabled);
+  const {
+    coachAllowed,
+    localPlayerId,
+    gamePhase,
+    currentPlayerIndex,
+    currentTrick,
+    completedTricks,
+    round
+  } = useShnarps();
+  const [advice, setAdvice] = useState<CoachAdvice | null>(null);
+
+  useEffect(() => {
+    setAdvice(null);
+    if (!coachEnabled || !coachAllowed || !localPlayerId) return;
+
+    // Drop advice for a decision that has moved on while the search ran
+    let current = true;
+    coachAdvice(useShnarps.getState(), localPlayerId).then(
+      result => { if (current) setAdvice(result); },
+      error => console.error('Coach failed:', error)
+    );
+    return () => {
+      current = false;
+    };
+  }, [coachEnabled, coachAllowed, localPlayerId, gamePhase, currentPlayerIndex, currentTrick.length, completedTricks.length, round]);
+
+  return advice;
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { createClientMessage } from '@shared/messages';
+import type { LobbyRoom } from '@shared/types';
+
+/**
+ * Live list of public rooms while `enabled`. Uses its own socket, since
+ * browsing happens before the player has a room connection.
+ */
+export function useLobby(enabled: boolean) {
+  const [rooms, setRooms] = useState<LobbyRoom[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify(createClientMessage.watchLobby(true)));
+    };
+
+    ws.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type === 'LOBBY_ROOMS') {
+        setRooms(message.rooms);
+        setIsLoading(false);
+      }
+    };
+
+    ws.onerror = () => setIsLoading(false);
+
+    return () => {
+      ws.close(1000, 'Left the lobby');
+    };
+  }, [enabled]);
+
+  return { rooms, isLoading };
+}
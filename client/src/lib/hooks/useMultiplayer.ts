@@ -1,5 +1,11 @@
 import { useEffect, useRef, useState } from 'react';
 import { useShnarps } from '../stores/useShnarps';
+import { useSettings } from '../stores/useSettings';
+import { useChat } from '../stores/useChat';
+import { useReactions } from '../stores/useReactions';
+import { ErrorCode, createClientMessage } from '@shared/messages';
+import { CHAT } from '@shared/constants';
+import type { AIDifficulty, AIPersonality, ReactionId } from '@shared/types';
 
 export type MultiplayerMode = 'local' | 'online';
 
@@ -15,7 +21,6 @@ export function useMultiplayer() {
     multiplayerRoomCode: roomCode, 
     isMultiplayerHost: isHost,
     websocket,
-    localPlayerId,
     setMultiplayerMode,
     setWebSocket 
   } = useShnarps();
@@ -33,11 +38,15 @@ export function useMultiplayer() {
       setIsConnected(true);
       reconnectAttempts.current = 0; // Reset counter on successful reconnect
       
-      // Rejoin the existing room
+      // Rejoin the existing room - spectators who came by code have no seat, so they just watch again
+      if (store.isSpectator && !store.isMultiplayerHost) {
+        ws.send(JSON.stringify(createClientMessage.spectateRoom(existingRoomCode, store.spectatorAllHands)));
+        return;
+      }
       ws.send(JSON.stringify({
         type: 'REJOIN_ROOM',
         roomId: existingRoomCode,
-        playerId: store.localPlayerId
+        reconnectToken: store.reconnectToken
       }));
     };
 
@@ -74,7 +83,14 @@ export function useMultiplayer() {
     setWebSocket(ws);
   };
 
-  const connectToRoom = (playerName: string, existingRoomCode?: string, spectatorMode: boolean = false) => {
+  // spectatorMode with a room code watches that room; without one it creates an AI-only room to watch.
+  // quickMatch ignores the room code and lets the server pick or open a public room.
+  const connectToRoom = (
+    playerName: string,
+    existingRoomCode?: string,
+    spectatorMode: boolean = false,
+    options: { isPublic?: boolean; quickMatch?: boolean } = {}
+  ) => {
     reconnectAttempts.current = 0; // Reset reconnect counter for fresh connection
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${protocol}//${window.location.host}/ws`;
@@ -86,7 +102,13 @@ export function useMultiplayer() {
       console.log('WebSocket connected');
       setIsConnected(true);
       
-      if (existingRoomCode) {
+      if (options.quickMatch) {
+        console.log('Looking for a quick match');
+        ws.send(JSON.stringify(createClientMessage.quickMatch(playerName)));
+      } else if (existingRoomCode && spectatorMode) {
+        console.log('Spectating room:', existingRoomCode);
+        ws.send(JSON.stringify(createClientMessage.spectateRoom(existingRoomCode, useShnarps.getState().spectatorAllHands)));
+      } else if (existingRoomCode) {
         console.log('Joining room:', existingRoomCode);
         ws.send(JSON.stringify({
           type: 'JOIN_ROOM',
@@ -95,10 +117,14 @@ export function useMultiplayer() {
         }));
       } else {
         console.log('Creating new room, spectatorMode:', spectatorMode);
+        const { startingScore, winningScore, eliminationScore, moneyPerPoint, moneyPerPunt, allowCoachOnline } = useSettings.getState();
         ws.send(JSON.stringify({
           type: 'CREATE_ROOM',
           playerName: spectatorMode ? '' : playerName, // Empty name for spectator
-          spectatorMode
+          spectatorMode,
+          isPublic: options.isPublic ?? false,
+          // The room plays by the host's rule settings
+          settings: { startingScore, winningScore, eliminationScore, moneyPerPoint, moneyPerPunt, coachAllowed: allowCoachOnline }
         }));
         // Mode will be set to 'online' when we receive ROOM_CREATED message
       }
@@ -162,13 +188,39 @@ export function useMultiplayer() {
       case 'ROOM_CREATED':
         console.log('Room created:', message.roomId);
         store.setMultiplayerMode('online', message.roomId, true);
-        store.setMultiplayerState(message.players, message.gameState, message.localPlayerId);
+        store.setMultiplayerState(message);
+        useChat.getState().clear();
         break;
 
       case 'JOINED_ROOM':
         console.log('Joined room:', message.roomId);
         store.setMultiplayerMode('online', message.roomId, false);
-        store.setMultiplayerState(message.players, message.gameState, message.localPlayerId);
+        store.setMultiplayerState(message);
+        useChat.getState().load(message.chat ?? [], message.mutedPlayerIds ?? []);
+        break;
+
+      case 'SPECTATING':
+        console.log('Spectating room:', message.roomId);
+        store.setMultiplayerMode('online', message.roomId, false);
+        store.setMultiplayerState(message);
+        store.setSpectatorAllHands(message.allHands);
+        useChat.getState().load(message.chat ?? [], message.mutedPlayerIds ?? []);
+        setIsConnected(true);
+        break;
+
+      case 'SPECTATOR_COUNT':
+        store.setSpectatorCount(message.count);
+        break;
+
+      case 'CLAIM_PENDING':
+        store.setPendingSeatClaim(message.playerId);
+        break;
+
+      case 'SEAT_CLAIMED':
+        console.log('Took a seat in room:', message.roomId);
+        store.setPendingSeatClaim(null);
+        store.setMultiplayerState(message);
+        useChat.getState().load(message.chat ?? [], message.mutedPlayerIds ?? []);
         break;
 
       case 'PLAYER_JOINED':
@@ -181,7 +233,7 @@ export function useMultiplayer() {
         store.removePlayer(message.playerId);
         break;
 
-      case 'HOST_TRANSFERRED':
+      case 'HOST_TRANSFERRED': {
         console.log('Host transferred to:', message.newHostId);
         const isNewHost = message.newHostId === store.localPlayerId;
         store.setMultiplayerMode('online', store.multiplayerRoomCode, isNewHost);
@@ -190,6 +242,7 @@ export function useMultiplayer() {
           store.removePlayer(message.leftPlayerId);
         }
         break;
+      }
 
       case 'ROOM_CLOSED':
         console.log('Room closed:', message.reason);
@@ -199,7 +252,7 @@ export function useMultiplayer() {
         store.initializeGame();
         break;
 
-      case 'PLAYER_DISCONNECTED':
+      case 'PLAYER_DISCONNECTED': {
         console.log('Player disconnected:', message.playerName);
         // Store will handle marking player as disconnected
         const disconnectedPlayer = store.players.find(p => p.id === message.playerId);
@@ -207,22 +260,47 @@ export function useMultiplayer() {
           disconnectedPlayer.isConnected = false;
         }
         break;
+      }
 
-      case 'PLAYER_RECONNECTED':
+      case 'PLAYER_RECONNECTED': {
         console.log('Player reconnected:', message.playerName);
         const reconnectedPlayer = store.players.find(p => p.id === message.playerId);
         if (reconnectedPlayer) {
           reconnectedPlayer.isConnected = true;
         }
         break;
+      }
 
       case 'REJOINED_ROOM':
         console.log('Rejoined room:', message.roomId);
         store.setMultiplayerMode('online', message.roomId, message.isHost);
-        store.setMultiplayerState(message.players, message.gameState, message.localPlayerId);
+        store.setMultiplayerState(message);
+        // Catch up on what was said while we were away
+        useChat.getState().load(message.chat ?? [], message.mutedPlayerIds ?? []);
         setIsConnected(true);
         break;
 
+      case 'CHAT_MESSAGE':
+        useChat.getState().receive(message.message);
+        break;
+
+      case 'REACTION':
+        useReactions.getState().show(message.playerId, message.reaction);
+        break;
+
+      case 'PLAYER_MUTED':
+        useChat.getState().setMuted(message.playerId, message.muted);
+        break;
+
+      case 'KICKED':
+        console.log('Kicked:', message.reason);
+        alert(message.reason);
+        setIsConnected(false);
+        store.setMultiplayerMode('local', null, false);
+        store.initializeGame();
+        useChat.getState().clear();
+        break;
+
       case 'TURN_TIMER_START':
         console.log('Turn timer started:', message.timeLimit);
         store.setTurnTimer(message.timeLimit);
@@ -230,23 +308,38 @@ export function useMultiplayer() {
 
       case 'GAME_STATE_SYNC':
         console.log('Game state sync');
-        store.setMultiplayerState(message.players, message.gameState, message.localPlayerId || store.localPlayerId);
+        store.setMultiplayerState(message);
         break;
 
       case 'GAME_STATE_UPDATE':
+        // Informational only - the GAME_STATE_SYNC that follows carries the resulting state
         console.log('Game state update:', message.action);
-        store.applyGameAction(message.action, message.payload);
         break;
 
       case 'GAME_STARTED':
         console.log('Game started');
         // Update both players (with hands) and game state
-        store.setMultiplayerState(message.players, message.gameState, message.localPlayerId || store.localPlayerId);
+        store.setMultiplayerState(message);
         break;
 
       case 'ERROR':
         console.error('Server error:', message.message);
+        // Rejected chat is reported in the chat panel rather than a popup
+        if (message.code === ErrorCode.CHAT_MUTED || message.code === ErrorCode.CHAT_RATE_LIMITED) {
+          useChat.getState().notice(message.message);
+          break;
+        }
+        if (message.code === ErrorCode.SEAT_NOT_AVAILABLE) {
+          store.setPendingSeatClaim(null);
+        }
         alert(message.message);
+        // Our seat can't be reclaimed - stop reconnecting and go back to the menu
+        if (message.code === ErrorCode.INVALID_RECONNECT_TOKEN) {
+          store.websocket?.close(1000, 'Rejoin rejected');
+          setIsConnected(false);
+          store.setMultiplayerMode('local', null, false);
+          store.initializeGame();
+        }
         break;
         
       default:
@@ -268,14 +361,11 @@ export function useMultiplayer() {
     }
   };
 
-  const addAIPlayer = (aiName: string) => {
-    console.log('addAIPlayer called:', { aiName, hasWs: !!websocket, wsState: websocket?.readyState, isHost });
+  const addAIPlayer = (aiName: string, difficulty: AIDifficulty = 'medium', personality: AIPersonality = 'balanced') => {
+    console.log('addAIPlayer called:', { aiName, difficulty, personality, hasWs: !!websocket, wsState: websocket?.readyState, isHost });
     if (websocket && websocket.readyState === WebSocket.OPEN && isHost) {
       console.log('Sending ADD_AI message to server');
-      websocket.send(JSON.stringify({
-        type: 'ADD_AI',
-        aiName
-      }));
+      websocket.send(JSON.stringify(createClientMessage.addAI(aiName, difficulty, personality)));
     } else {
       console.log('Cannot send ADD_AI - conditions not met');
     }
@@ -298,6 +388,49 @@ export function useMultiplayer() {
     }
   };
 
+  const sendChat = (text: string) => {
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      websocket.send(JSON.stringify(createClientMessage.chat(text.slice(0, CHAT.MAX_LENGTH))));
+    }
+  };
+
+  const setSpectatorView = (allHands: boolean) => {
+    useShnarps.getState().setSpectatorAllHands(allHands);
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      websocket.send(JSON.stringify(createClientMessage.setSpectatorView(allHands)));
+    }
+  };
+
+  const claimSeat = (playerId: string, playerName: string) => {
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      websocket.send(JSON.stringify(createClientMessage.claimSeat(playerId, playerName)));
+    }
+  };
+
+  const replaceWithAI = (playerId: string, difficulty: AIDifficulty, personality: AIPersonality = 'balanced') => {
+    if (websocket && websocket.readyState === WebSocket.OPEN && isHost) {
+      websocket.send(JSON.stringify(createClientMessage.replaceWithAI(playerId, difficulty, personality)));
+    }
+  };
+
+  const sendReaction = (reaction: ReactionId) => {
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      websocket.send(JSON.stringify(createClientMessage.react(reaction)));
+    }
+  };
+
+  const mutePlayer = (playerId: string, muted: boolean) => {
+    if (websocket && websocket.readyState === WebSocket.OPEN && isHost) {
+      websocket.send(JSON.stringify(createClientMessage.mutePlayer(playerId, muted)));
+    }
+  };
+
+  const kickPlayer = (playerId: string) => {
+    if (websocket && websocket.readyState === WebSocket.OPEN && isHost) {
+      websocket.send(JSON.stringify(createClientMessage.kickPlayer(playerId)));
+    }
+  };
+
   const disconnect = () => {
     // Clear any pending reconnection attempts
     if (reconnectTimeoutRef.current) {
@@ -333,6 +466,13 @@ export function useMultiplayer() {
     addAIPlayer,
     removePlayer,
     startGame,
+    sendChat,
+    sendReaction,
+    setSpectatorView,
+    claimSeat,
+    replaceWithAI,
+    mutePlayer,
+    kickPlayer,
     disconnect
   };
 }
@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import type { PublicUser } from '@shared/schema';
+
+interface AuthState {
+  user: PublicUser | null;
+  isLoading: boolean;
+
+  // Actions
+  fetchUser: () => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  applyGameResult: (moneyChange: number, won: boolean) => void;
+}
+
+interface AuthResponse {
+  success: boolean;
+  user?: PublicUser;
+  error?: string;
+}
+
+// The session lives in an httpOnly cookie, so every call sends credentials
+async function authRequest(method: string, url: string, body?: unknown): Promise<AuthResponse> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+
+  const data: AuthResponse = await res.json().catch(() => ({ success: false }));
+  if (!res.ok && res.status !== 401) {
+    throw new Error(data.error || res.statusText);
+  }
+  return data;
+}
+
+export const useAuth = create<AuthState>()((set, get) => ({
+  user: null,
+  isLoading: false,
+
+  fetchUser: async () => {
+    set({ isLoading: true });
+    try {
+      const data = await authRequest('GET', '/api/user');
+      set({ user: data.user ?? null });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  login: async (username: string, password: string) => {
+    set({ isLoading: true });
+    try {
+      const data = await authRequest('POST', '/api/login', { username, password });
+      if (!data.user) throw new Error(data.error || 'Login failed');
+      set({ user: data.user });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  register: async (username: string, password: string) => {
+    set({ isLoading: true });
+    try {
+      const data = await authRequest('POST', '/api/register', { username, password });
+      if (!data.user) throw new Error(data.error || 'Registration failed');
+      set({ user: data.user });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  logout: async () => {
+    await authRequest('POST', '/api/logout');
+    set({ user: null });
+  },
+
+  // Mirror the server's end-of-game update so the account shows it without a refetch
+  applyGameResult: (moneyChange: number, won: boolean) => {
+    const { user } = get();
+    if (!user) return;
+    set({
+      user: {
+        ...user,
+        wallet: user.wallet + moneyChange,
+        gamesPlayed: user.gamesPlayed + 1,
+        gamesWon: user.gamesWon + (won ? 1 : 0)
+      }
+    });
+  }
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { CHAT } from '@shared/constants';
+import type { ChatMessage } from '@shared/types';
+
+// Chat for the online room we are in. The server keeps the history and
+// replays it on join and rejoin; this only mirrors what it sends.
+
+interface ChatState {
+  messages: ChatMessage[];
+  mutedPlayerIds: string[];
+  load: (messages: ChatMessage[], mutedPlayerIds: string[]) => void;
+  receive: (message: ChatMessage) => void;
+  setMuted: (playerId: string, muted: boolean) => void;
+  // Our own rejected message (muted, too fast) shown as a system line only we see
+  notice: (text: string) => void;
+  clear: () => void;
+}
+
+export const useChat = create<ChatState>((set) => ({
+  messages: [],
+  mutedPlayerIds: [],
+
+  load: (messages, mutedPlayerIds) => set({ messages, mutedPlayerIds }),
+
+  receive: (message) => set(state => ({
+    messages: [...state.messages, message].slice(-CHAT.HISTORY_SIZE)
+  })),
+
+  setMuted: (playerId, muted) => set(state => ({
+    mutedPlayerIds: muted
+      ? [...state.mutedPlayerIds.filter(id => id !== playerId), playerId]
+      : state.mutedPlayerIds.filter(id => id !== playerId)
+  })),
+
+  notice: (text) => set(state => ({
+    messages: [...state.messages, {
+      id: `notice_${Date.now()}`,
+      playerId: null,
+      playerName: '',
+      message: text,
+      timestamp: Date.now(),
+      isSystem: true
+    }].slice(-CHAT.HISTORY_SIZE)
+  })),
+
+  clear: () => set({ messages: [], mutedPlayerIds: [] }),
+}));
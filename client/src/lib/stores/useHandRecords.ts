@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { useShnarps } from './useShnarps';
+import type { HandRecord } from '@shared/ai/analysis';
+
+// Every finished hand of the current game, kept for the post-hand analysis.
+// The engine empties hands when a round is scored, so the deal is captured
+// when bidding opens and completed from the table once the round is over.
+
+interface HandRecordsState {
+  records: HandRecord[];
+}
+
+export const useHandRecords = create<HandRecordsState>(() => ({
+  records: [],
+}));
+
+let dealt: Pick<HandRecord, 'round' | 'players' | 'dealerIndex' | 'scores'> | null = null;
+
+useShnarps.subscribe((state, previous) => {
+  // A shorter history means a new game
+  if (state.history.length < previous.history.length) {
+    dealt = null;
+    useHandRecords.setState({ records: [] });
+  }
+
+  if (state.gamePhase === 'bidding' && (previous.gamePhase !== 'bidding' || state.round !== previous.round)) {
+    dealt = {
+      round: state.round,
+      players: state.players.map(p => ({ ...p, hand: [...p.hand] })),
+      dealerIndex: state.dealerIndex,
+      scores: new Map(state.scores),
+    };
+  }
+
+  if (state.history.length > previous.history.length && dealt?.round === state.round) {
+    // The round history has every dealt hand, including the ones we never saw
+    const dealtHands = state.history[state.history.length - 1].dealtHands;
+    const record: HandRecord = {
+      ...dealt,
+      players: dealt.players.map(p => ({ ...p, hand: dealtHands?.get(p.id) ?? p.hand })),
+      bids: new Map(state.bids),
+      trumpSuit: state.trumpSuit,
+      playingPlayers: Array.from(state.playingPlayers),
+      tricks: state.completedTricks,
+    };
+    dealt = null;
+    useHandRecords.setState(({ records }) => ({ records: [...records, record] }));
+  }
+});
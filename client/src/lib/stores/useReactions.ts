@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { REACTION } from '@shared/constants';
+import type { ReactionId } from '@shared/types';
+
+// Quick reactions currently showing over each seat. The server relays them
+// and keeps nothing, so a bubble just fades after REACTION.DISPLAY_TIME.
+
+interface ReactionBubble {
+  id: number; // Tells a newer reaction from the same player apart from the one it replaced
+  reaction: ReactionId;
+}
+
+interface ReactionsState {
+  bubbles: Record<string, ReactionBubble>; // playerId -> reaction on show
+  show: (playerId: string, reaction: ReactionId) => void;
+}
+
+let nextBubbleId = 0;
+
+export const useReactions = create<ReactionsState>((set) => ({
+  bubbles: {},
+
+  show: (playerId, reaction) => {
+    const id = nextBubbleId++;
+    set(state => ({ bubbles: { ...state.bubbles, [playerId]: { id, reaction } } }));
+    setTimeout(() => {
+      set(state => {
+        if (state.bubbles[playerId]?.id !== id) return state;
+        const { [playerId]: _expired, ...rest } = state.bubbles;
+        return { bubbles: rest };
+      });
+    }, REACTION.DISPLAY_TIME);
+  },
+}));
@@ -14,6 +14,11 @@ export interface GameSettings {
   // Multiplayer
   turnTimeLimit: number; // in seconds, 0 = no limit
   autoPlayDisconnected: boolean;
+  allowCoachOnline: boolean; // Sent with rooms we host; off hides hints for everyone in them
+  showReactions: boolean; // Off hides other players' quick reactions at the table
+
+  // Coach
+  coachEnabled: boolean;
 
   // Audio
   soundEnabled: boolean;
@@ -33,6 +38,9 @@ const defaultSettings: GameSettings = {
   eliminationScore: 32,
   turnTimeLimit: 30, // 30 seconds per turn
   autoPlayDisconnected: true,
+  allowCoachOnline: true,
+  showReactions: true,
+  coachEnabled: false,
   soundEnabled: true,
   musicEnabled: true
 };
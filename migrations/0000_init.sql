@@ -0,0 +1,58 @@
+CREATE TABLE "game_players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer,
+	"user_id" integer,
+	"player_name" text NOT NULL,
+	"score" integer DEFAULT 16 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"joined_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "game_rounds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"round" integer NOT NULL,
+	"trump_suit" text,
+	"highest_bidder" text,
+	"bids" jsonb NOT NULL,
+	"playing_players" jsonb NOT NULL,
+	"tricks_won" jsonb NOT NULL,
+	"score_changes" jsonb NOT NULL,
+	"final_scores" jsonb NOT NULL,
+	"punts" jsonb,
+	"money_changes" jsonb,
+	"final_wallets" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "games" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_code" text NOT NULL,
+	"host_id" integer,
+	"status" text DEFAULT 'waiting' NOT NULL,
+	"max_players" integer DEFAULT 8 NOT NULL,
+	"current_players" integer DEFAULT 0 NOT NULL,
+	"game_state" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "games_game_code_unique" UNIQUE("game_code")
+);
+--> statement-breakpoint
+CREATE TABLE "room_snapshots" (
+	"room_id" text PRIMARY KEY NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_rounds" ADD CONSTRAINT "game_rounds_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "games" ADD CONSTRAINT "games_host_id_users_id_fk" FOREIGN KEY ("host_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_rounds_game_id_round_idx" ON "game_rounds" USING btree ("game_id","round");
\ No newline at end of file
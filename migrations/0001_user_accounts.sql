@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "wallet" integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "games_played" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "games_won" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "created_at" timestamp DEFAULT now();
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "game_rounds" ADD COLUMN "seed" bigint;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "game_rounds" ADD COLUMN "dealt_hands" jsonb;--> statement-breakpoint
+ALTER TABLE "game_rounds" ADD COLUMN "sit_decisions" jsonb;--> statement-breakpoint
+ALTER TABLE "game_rounds" ADD COLUMN "tricks" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ALTER COLUMN "wallet" SET DATA TYPE numeric(12, 2);
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processAITurn, setApplyGameAction, setBroadcastGameState, type GameRoom } from './gameLoop';
+import { addPlayer, applyAction, createGameState } from '@shared/gameEngine';
+import type { EngineAction, GameAction, GameState } from '@shared/types';
+
+// The search answers when the test says so
+const search = vi.hoisted(() => ({ resolve: null as ((action: GameAction | null) => void) | null }));
+vi.mock('@shared/ai/strategy', () => ({
+  strategyForPlayer: () => ({}),
+  chooseAIAction: () => new Promise(resolve => { search.resolve = resolve; })
+}));
+
+function dealtRoom(): GameRoom {
+  let state: GameState = createGameState();
+  for (const id of ['p0', 'p1', 'p2', 'p3']) {
+    state = addPlayer(state, { id, name: id, hand: [], isActive: true, consecutiveSits: 0, isAI: true });
+  }
+  const dealt = applyAction(state, { action: 'deal', payload: { seed: 9 } });
+  if (!dealt.valid) throw new Error(dealt.error);
+  return { id: 'ROOM01', gameState: dealt.state, aiTimeouts: new Set() };
+}
+
+const applied = vi.fn((room: GameRoom, action: EngineAction) => {
+  const result = applyAction(room.gameState, action);
+  if (result.valid) room.gameState = result.state;
+  return result.valid;
+});
+
+let room: GameRoom;
+
+/** Let the 800ms delay run and the search start */
+async function startSearch() {
+  processAITurn(room, () => {});
+  await vi.advanceTimersByTimeAsync(800);
+  expect(search.resolve).not.toBeNull();
+}
+
+function bidFor(state: GameState): GameAction {
+  return { action: 'bid', payload: { playerId: state.players[state.currentPlayerIndex].id, bid: 0 } };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  setApplyGameAction(applied);
+  setBroadcastGameState(() => {});
+  search.resolve = null;
+  applied.mockClear();
+  room = dealtRoom();
+});
+
+afterEach(() => {
+  room.aiTimeouts.forEach(timeout => clearTimeout(timeout));
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('processAITurn', () => {
+  it('plays the searched move when only other parts of the room changed', async () => {
+    await startSearch();
+    const action = bidFor(room.gameState);
+
+    // e.g. a seat reconnecting replaces the state but not the turn
+    room.gameState = { ...room.gameState, players: room.gameState.players.map(p => ({ ...p })) };
+    search.resolve!(action);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(applied).toHaveBeenCalledWith(room, action);
+  });
+
+  it('drops the searched move once the turn has moved on', async () => {
+    await startSearch();
+    const action = bidFor(room.gameState);
+
+    expect(applied(room, action)).toBe(true);
+    applied.mockClear();
+    search.resolve!(action);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(applied).not.toHaveBeenCalled();
+  });
+
+  it('keeps its timers on the room so clearing them stops the loop', async () => {
+    processAITurn(room, () => {});
+    expect(room.aiTimeouts.size).toBe(1);
+
+    room.aiTimeouts.forEach(timeout => clearTimeout(timeout));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(search.resolve).toBeNull();
+  });
+});
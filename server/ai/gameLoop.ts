@@ -1,45 +1,21 @@
 // Server-side game loop for AI players
-import { makeAIBid, chooseAITrumpSuit, makeAISitPlayDecision, chooseAICardToPlay } from './aiEngine';
-import { canPlayerSit, getPlayableCards } from './cardHelpers';
-import type { Card, Player, GamePhase, Suit, TrickPlay } from '@shared/types';
+import { chooseAIAction, strategyForPlayer } from '@shared/ai/strategy';
+import type { EngineAction, GameAction, GameState } from '@shared/types';
 
 // GameRoom interface for AI game loop
-// Uses `any` for WebSocket/Timeout types to avoid Node.js type coupling
+// Only the parts of the room the loop reads - websocket.ts owns the rest
 export interface GameRoom {
   id: string;
-  players: Map<string, Player & { ws?: any }>;
-  gameState: {
-    gamePhase: GamePhase;
-    currentPlayerIndex: number;
-    dealerIndex: number;
-    deck: Card[];
-    currentTrick: TrickPlay[];
-    completedTricks: TrickPlay[][];
-    bids: Map<string, number>;
-    trumpSuit: Suit | null;
-    highestBidder: string | null;
-    playingPlayers: Set<string>;
-    mustyPlayers: Set<string>;
-    scores: Map<string, number>;
-    round: number;
-  };
-  host: string;
-  createdAt: number;
-  turnTimer?: any;
-  turnTimeLimit: number;
-  turnStartTime?: number;
-  stateLocked: boolean;
-  aiProcessing: boolean;
-  aiTimeouts: Set<any>;
-  stateLockTimeout?: any;
+  gameState: GameState;
+  aiTimeouts: Set<NodeJS.Timeout>; // Cleared with the room, so the loop stops when it goes
 }
 
-// Import the applyGameAction function from websocket module
-// This will be set by websocket.ts
-let applyGameActionFn: ((room: GameRoom, action: string, payload: any) => void) | null = null;
+// The engine dispatch and broadcast functions from the websocket module
+// These will be set by websocket.ts
+let applyGameActionFn: ((room: GameRoom, action: EngineAction) => boolean) | null = null;
 let broadcastGameStateFn: ((room: GameRoom) => void) | null = null;
 
-export function setApplyGameAction(fn: (room: GameRoom, action: string, payload: any) => void) {
+export function setApplyGameAction(fn: (room: GameRoom, action: EngineAction) => boolean) {
   applyGameActionFn = fn;
 }
 
@@ -47,10 +23,26 @@ export function setBroadcastGameState(fn: (room: GameRoom) => void) {
   broadcastGameStateFn = fn;
 }
 
+// Run `callback` after `delayMs`, tracked on the room until it fires
+function scheduleOnRoom(room: GameRoom, callback: () => void, delayMs: number): void {
+  const timeout = setTimeout(() => {
+    room.aiTimeouts.delete(timeout);
+    callback();
+  }, delayMs);
+  room.aiTimeouts.add(timeout);
+}
+
+// Whose decision it is and at which point of the hand. Other changes to the
+// room (a seat reconnecting, a chat message) leave a searched move valid.
+function turnKey(state: GameState): string {
+  const playerId = state.players[state.currentPlayerIndex]?.id;
+  return [state.round, state.gamePhase, playerId, state.completedTricks.length, state.currentTrick.length].join('|');
+}
+
 // Execute AI turn for the current player if they're an AI
 export function processAITurn(room: GameRoom, broadcast: (message: any) => void): void {
   // Check if current player is AI - if not, stop the loop
-  const playerArray = Array.from(room.players.values());
+  const playerArray = room.gameState.players;
   const currentPlayer = playerArray[room.gameState.currentPlayerIndex];
 
   if (!currentPlayer || !currentPlayer.isAI) {
@@ -66,203 +58,65 @@ export function processAITurn(room: GameRoom, broadcast: (message: any) => void)
   }
 
   // Add small delay to make AI feel more natural
-  setTimeout(() => {
+  scheduleOnRoom(room, async () => {
     try {
       // Re-check that it's still this player's turn (state may have changed)
-      const updatedPlayerArray = Array.from(room.players.values());
-      const updatedPlayer = updatedPlayerArray[room.gameState.currentPlayerIndex];
+      const updatedPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
       if (!updatedPlayer || updatedPlayer.id !== currentPlayer.id) {
         // Player turn changed, don't process
         return;
       }
 
-      switch (gamePhase) {
-        case 'bidding': {
-          const bidValues = Array.from(room.gameState.bids.values()) as number[];
-          const currentHighestBid = Math.max(0, ...bidValues);
-          const isDealer = room.gameState.currentPlayerIndex === room.gameState.dealerIndex;
-          const highestBidderId = room.gameState.highestBidder;
-
-          const aiBid = makeAIBid(
-            currentPlayer.hand,
-            currentHighestBid,
-            isDealer,
-            playerArray.length,
-            currentPlayer.id,
-            room.gameState.scores,
-            highestBidderId
-          );
-
-          console.log(`🤖 AI ${currentPlayer.name} bids ${aiBid}`);
-
-          // Apply action to server state
-          if (applyGameActionFn) {
-            applyGameActionFn(room, 'bid', { playerId: currentPlayer.id, bid: aiBid });
-          }
-
-          // Broadcast bid action to all clients
-          broadcast({
-            type: 'GAME_STATE_UPDATE',
-            action: 'bid',
-            payload: { playerId: currentPlayer.id, bid: aiBid }
-          });
-
-          // CRITICAL: Broadcast full game state to ensure sync
-          if (broadcastGameStateFn) {
-            broadcastGameStateFn(room);
-          }
-
-          // Continue processing next AI turn
-          setTimeout(() => processAITurn(room, broadcast), 500);
-          break;
-        }
-
-        case 'trump_selection': {
-          const aiTrump = chooseAITrumpSuit(currentPlayer.hand);
-
-          console.log(`🤖 AI ${currentPlayer.name} chooses ${aiTrump} as trump`);
-
-          // Apply action to server state
-          if (applyGameActionFn) {
-            applyGameActionFn(room, 'trump', { suit: aiTrump });
-          }
-
-          broadcast({
-            type: 'GAME_STATE_UPDATE',
-            action: 'trump',
-            payload: { suit: aiTrump }
-          });
-
-          // CRITICAL: Broadcast full game state to ensure sync
-          if (broadcastGameStateFn) {
-            broadcastGameStateFn(room);
-          }
-
-          // Continue processing next AI turn
-          setTimeout(() => processAITurn(room, broadcast), 500);
-          break;
-        }
-
-        case 'sit_pass': {
-          const bidValues = Array.from(room.gameState.bids.values()) as number[];
-          const highestBid = Math.max(0, ...bidValues);
-          const canSit = canPlayerSit(currentPlayer, highestBid, room.gameState.trumpSuit);
-          const currentScore = room.gameState.scores.get(currentPlayer.id);
-
-          const decision = makeAISitPlayDecision(
-            currentPlayer,
-            currentPlayer.hand,
-            room.gameState.trumpSuit,
-            highestBid,
-            canSit,
-            currentScore,
-            room.gameState.scores
-          );
-
-          console.log(`🤖 AI ${currentPlayer.name} decides to ${decision}`);
-
-          // Update consecutiveSits on server
-          if (decision === 'play') {
-            currentPlayer.consecutiveSits = 0;
-          } else {
-            currentPlayer.consecutiveSits += 1;
-          }
-
-          // Apply action to server state
-          if (applyGameActionFn) {
-            applyGameActionFn(room, 'sitpass', { playerId: currentPlayer.id, decision });
-          }
-
-          broadcast({
-            type: 'GAME_STATE_UPDATE',
-            action: 'sitpass',
-            payload: { playerId: currentPlayer.id, decision }
-          });
-
-          // CRITICAL: Broadcast full game state to ensure sync
-          if (broadcastGameStateFn) {
-            broadcastGameStateFn(room);
-          }
-
-          // Continue processing next AI turn
-          setTimeout(() => processAITurn(room, broadcast), 500);
-          break;
-        }
-
-        case 'hand_play': {
-          // CRITICAL: Skip if this player is not in playingPlayers (they sat out)
-          if (!room.gameState.playingPlayers.has(currentPlayer.id)) {
-            console.log(`⚠️ AI ${currentPlayer.name} is sitting out, skipping hand_play`);
-            return;
-          }
-
-          const playableCards = getPlayableCards(
-            currentPlayer.hand,
-            room.gameState.currentTrick,
-            room.gameState.trumpSuit
-          );
-
-          const cardToPlay = chooseAICardToPlay(
-            currentPlayer.hand,
-            room.gameState.currentTrick,
-            room.gameState.trumpSuit,
-            playableCards
-          );
-
-          console.log(`🤖 AI ${currentPlayer.name} plays ${cardToPlay.rank}${cardToPlay.suit}`);
-
-          // Apply action to server state
-          if (applyGameActionFn) {
-            applyGameActionFn(room, 'playcard', { playerId: currentPlayer.id, card: cardToPlay });
-          }
-
-          broadcast({
-            type: 'GAME_STATE_UPDATE',
-            action: 'playcard',
-            payload: { playerId: currentPlayer.id, card: cardToPlay }
-          });
-
-          // CRITICAL: Broadcast full game state to ensure sync
-          if (broadcastGameStateFn) {
-            broadcastGameStateFn(room);
-          }
-
-          // Continue processing next AI turn
-          setTimeout(() => processAITurn(room, broadcast), 500);
-          break;
-        }
-
-        case 'everyone_sat': {
-          // AI strategy: Usually better to take -5 yourself (moves toward winning)
-          // But if very close to losing (score >= 28), give +5 to others instead
-          const currentScore = room.gameState.scores.get(currentPlayer.id) || 16;
-          const choice = currentScore >= 28 ? 'others' : 'self';
+      // CRITICAL: Skip if this player is not in playingPlayers (they sat out)
+      if (gamePhase === 'hand_play' && !room.gameState.playingPlayers.has(currentPlayer.id)) {
+        console.log(`⚠️ AI ${currentPlayer.name} is sitting out, skipping hand_play`);
+        return;
+      }
 
-          console.log(`🤖 AI ${currentPlayer.name} chooses penalty: ${choice}`);
+      // The expert yields while it searches, so the room can move on meanwhile.
+      // If the turn itself moved on, whatever moved it continues the room.
+      const searchedTurn = turnKey(room.gameState);
+      const action = await chooseAIAction(room.gameState, strategyForPlayer(currentPlayer));
+      if (!action || turnKey(room.gameState) !== searchedTurn) return;
 
-          // Apply action to server state
-          if (applyGameActionFn) {
-            applyGameActionFn(room, 'penalty', { choice });
-          }
+      console.log(`🤖 AI ${currentPlayer.name} ${describeAction(action)}`);
 
-          broadcast({
-            type: 'GAME_STATE_UPDATE',
-            action: 'penalty',
-            payload: { choice }
-          });
+      // Apply action to server state
+      if (applyGameActionFn) {
+        applyGameActionFn(room, action);
+      }
 
-          // CRITICAL: Broadcast full game state to ensure sync
-          if (broadcastGameStateFn) {
-            broadcastGameStateFn(room);
-          }
+      // Broadcast the action to all clients
+      broadcast({
+        type: 'GAME_STATE_UPDATE',
+        action: action.action,
+        payload: action.payload
+      });
 
-          // Continue processing next AI turn
-          setTimeout(() => processAITurn(room, broadcast), 500);
-          break;
-        }
+      // CRITICAL: Broadcast full game state to ensure sync
+      if (broadcastGameStateFn) {
+        broadcastGameStateFn(room);
       }
+
+      // Continue processing next AI turn
+      scheduleOnRoom(room, () => processAITurn(room, broadcast), 500);
     } catch (error) {
       console.error('❌ Error processing AI turn:', error);
     }
   }, 800); // 800ms delay for natural feel
 }
+
+function describeAction(action: GameAction): string {
+  switch (action.action) {
+    case 'bid':
+      return `bids ${action.payload.bid}`;
+    case 'trump':
+      return `chooses ${action.payload.suit} as trump`;
+    case 'sitpass':
+      return `decides to ${action.payload.decision}`;
+    case 'playcard':
+      return `plays ${action.payload.card.rank}${action.payload.card.suit}`;
+    case 'penalty':
+      return `chooses penalty: ${action.payload.choice}`;
+  }
+}
@@ -0,0 +1,227 @@
+// Headless games between AI strategies, played through the real rules engine.
+// Used by the simulation CLI (server/simulate.ts) to compare strategies.
+
+import { chooseAIAction, type Strategy } from '@shared/ai/strategy';
+import { applyAction, addPlayer, createGameState, getCurrentPlayer } from '@shared/gameEngine';
+import { createRandom, nextSeed } from '@shared/random';
+import { DEFAULT_SETTINGS } from '@shared/constants';
+import type { EngineAction, GameEvent, GameSettings, GameState, Player } from '@shared/types';
+
+export interface SimulationEntry {
+  name: string;
+  strategy: Strategy;
+}
+
+export interface StrategyStats {
+  name: string;
+  seatGames: number; // One per seat per game
+  wins: number;
+  eliminations: number;
+  roundsPlayed: number; // Hands this strategy played rather than sat out
+  punts: number;
+  bidsTaken: number; // Hands won the bid and called trump
+  bidsMade: number; // ... and took at least the tricks bid
+  totalFinalScore: number;
+  totalMoneyChange: number;
+}
+
+export interface TournamentReport {
+  games: number;
+  seed: number;
+  totalRounds: number;
+  misdeals: number;
+  unfinished: number; // Hit MAX_ROUNDS without a winner
+  draws: number; // Ended with nobody at the winning score
+  strategies: StrategyStats[];
+}
+
+// A game that runs this long is stuck in a loop, not still being played
+const MAX_ROUNDS = 500;
+
+interface GameRecord {
+  state: GameState;
+  events: GameEvent[];
+  finished: boolean;
+}
+
+/**
+ * Play one game to the end. Seats are filled in the order given.
+ */
+async function playGame(seats: SimulationEntry[], seed: number, settings: GameSettings): Promise<GameRecord> {
+  // Each deal gets its own seed from the game's, so one game seed replays the whole game
+  const random = createRandom(seed);
+  const strategies = new Map<string, Strategy>();
+  const events: GameEvent[] = [];
+
+  let state = createGameState();
+  seats.forEach((entry, index) => {
+    const player: Player = {
+      id: `seat${index}`,
+      name: entry.name,
+      hand: [],
+      isActive: true,
+      consecutiveSits: 0,
+      isAI: true,
+      wallet: 100,
+      punts: 0
+    };
+    strategies.set(player.id, entry.strategy);
+    state = addPlayer(state, player, settings);
+  });
+
+  const apply = (action: EngineAction) => {
+    const result = applyAction(state, action, settings);
+    if (!result.valid) {
+      throw new Error(`Seed ${seed}: ${action.action} rejected in ${state.gamePhase} - ${result.error}`);
+    }
+    state = result.state;
+    events.push(...result.events);
+  };
+
+  while (state.gamePhase !== 'game_over' && state.round <= MAX_ROUNDS) {
+    switch (state.gamePhase) {
+      case 'setup':
+      case 'round_complete':
+        apply({ action: 'deal', payload: { seed: nextSeed(random) } });
+        break;
+      case 'trick_complete':
+        apply({ action: 'advance', payload: {} });
+        break;
+      default: {
+        const player = getCurrentPlayer(state);
+        const action = player && await chooseAIAction(state, strategies.get(player.id)!);
+        if (!action) {
+          throw new Error(`Seed ${seed}: nobody can move in ${state.gamePhase}`);
+        }
+        apply(action);
+      }
+    }
+  }
+
+  return { state, events, finished: state.gamePhase === 'game_over' };
+}
+
+/**
+ * Play `games` games and total up how each strategy did. Seating rotates
+ * every game so no strategy keeps the same position relative to the deal.
+ */
+export async function runTournament(
+  entries: SimulationEntry[],
+  games: number,
+  seed: number,
+  settings: GameSettings = DEFAULT_SETTINGS
+): Promise<TournamentReport> {
+  const stats = new Map<string, StrategyStats>();
+  entries.forEach(({ name }) => {
+    if (stats.has(name)) return;
+    stats.set(name, {
+      name,
+      seatGames: 0,
+      wins: 0,
+      eliminations: 0,
+      roundsPlayed: 0,
+      punts: 0,
+      bidsTaken: 0,
+      bidsMade: 0,
+      totalFinalScore: 0,
+      totalMoneyChange: 0
+    });
+  });
+
+  const report: TournamentReport = {
+    games,
+    seed,
+    totalRounds: 0,
+    misdeals: 0,
+    unfinished: 0,
+    draws: 0,
+    strategies: Array.from(stats.values())
+  };
+
+  for (let game = 0; game < games; game++) {
+    const shift = game % entries.length;
+    const seats = [...entries.slice(shift), ...entries.slice(0, shift)];
+    const { state, events, finished } = await playGame(seats, (seed + game) >>> 0, settings);
+
+    const statsFor = (playerId: string) => stats.get(seats[Number(playerId.slice('seat'.length))].name)!;
+
+    seats.forEach((_, index) => {
+      const entry = statsFor(`seat${index}`);
+      entry.seatGames++;
+      entry.totalFinalScore += state.scores.get(`seat${index}`) ?? settings.startingScore;
+    });
+
+    state.history.forEach(round => {
+      round.playingPlayers.forEach(playerId => {
+        const entry = statsFor(playerId);
+        entry.roundsPlayed++;
+        if (round.punts?.has(playerId)) entry.punts++;
+      });
+
+      // Everyone-sat hands have no tricks to count
+      if (round.highestBidder && round.playingPlayers.length > 1) {
+        const entry = statsFor(round.highestBidder);
+        entry.bidsTaken++;
+        const bid = round.bids.get(round.highestBidder) ?? 0;
+        if ((round.tricksWon.get(round.highestBidder) ?? 0) >= bid) entry.bidsMade++;
+      }
+    });
+
+    events.forEach(event => {
+      if (event.type === 'misdeal') {
+        report.misdeals++;
+      } else if (event.type === 'player_eliminated') {
+        statsFor(event.playerId).eliminations++;
+      } else if (event.type === 'game_over') {
+        if (event.winnerId) {
+          statsFor(event.winnerId).wins++;
+        } else {
+          report.draws++;
+        }
+        Object.entries(event.moneyChanges).forEach(([playerId, change]) => {
+          statsFor(playerId).totalMoneyChange += change;
+        });
+      }
+    });
+
+    report.totalRounds += state.history.length;
+    if (!finished) report.unfinished++;
+  }
+
+  return report;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '-');
+const average = (total: number, count: number) => (count > 0 ? (total / count).toFixed(2) : '-');
+
+/**
+ * Plain-text summary table for the terminal
+ */
+export function formatReport(report: TournamentReport): string {
+  const header = ['strategy', 'seats', 'win rate', 'avg score', 'punt rate', 'bids made', 'eliminated', 'avg $'];
+  const rows = report.strategies.map(s => [
+    s.name,
+    String(s.seatGames),
+    percent(s.wins, s.seatGames),
+    average(s.totalFinalScore, s.seatGames),
+    percent(s.punts, s.roundsPlayed),
+    `${percent(s.bidsMade, s.bidsTaken)} of ${s.bidsTaken}`,
+    percent(s.eliminations, s.seatGames),
+    average(s.totalMoneyChange, s.seatGames)
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+  return [
+    `${report.games} games, seed ${report.seed}`,
+    `avg rounds ${average(report.totalRounds, report.games)}, misdeals ${report.misdeals}, ` +
+      `draws ${report.draws}, unfinished ${report.unfinished}`,
+    '',
+    line(header),
+    line(widths.map(width => '-'.repeat(width))),
+    ...rows.map(line)
+  ].join('\n');
+}
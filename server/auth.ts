@@ -0,0 +1,218 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Where passport keeps the logged-in user's id (see serializeUser below)
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: Express.User["id"] };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const CredentialsSchema = z.object({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(20, "Username must be 20 characters or less")
+    .regex(/^[A-Za-z0-9_]+$/, "Username can only contain letters, numbers and underscores"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be 128 characters or less")
+});
+
+// =============================================================================
+// PASSWORDS
+// =============================================================================
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// =============================================================================
+// SESSIONS
+// =============================================================================
+
+/**
+ * Sessions live in Postgres next to the users when DATABASE_URL is set,
+ * and in memory (lost on restart) otherwise.
+ */
+async function createSessionStore(): Promise<session.Store> {
+  if (process.env.DATABASE_URL) {
+    const PostgresSessionStore = connectPg(session);
+    const { pool } = await import("./db");
+    return new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }); // prune expired entries daily
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ SESSION_SECRET not set - using a random secret, sessions end on restart");
+  return randomBytes(32).toString("hex");
+}
+
+// Set by setupAuth, reused to read the session off WebSocket upgrade requests
+let sessionMiddleware: RequestHandler | null = null;
+
+/**
+ * Resolve the logged-in user for a raw HTTP request, such as the upgrade
+ * request of a WebSocket connection. Resolves undefined for guests.
+ */
+export function getSessionUser(req: IncomingMessage): Promise<Express.User | undefined> {
+  const middleware = sessionMiddleware;
+  if (!middleware) return Promise.resolve(undefined);
+
+  const request = req as Request;
+  return new Promise((resolve, reject) => {
+    // express-session only needs a response to write a cookie, which we never do here
+    middleware(request, {} as Response, (error?: unknown) => {
+      if (error) return reject(error);
+      const userId = request.session?.passport?.user;
+      if (typeof userId !== "number") return resolve(undefined);
+      storage.getUser(userId).then(resolve, reject);
+    });
+  });
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+export async function setupAuth(app: Express): Promise<void> {
+  sessionMiddleware = session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: await createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE
+    }
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Register a new account and log straight in
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = CredentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ success: false, error: "Username already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password)
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({ success: true, user: toPublicUser(user) });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ success: false, error: info?.message || "Invalid username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({ success: true, user: toPublicUser(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ success: true });
+    });
+  });
+
+  // Current account, including wallet and stats
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ success: false, error: "Not logged in" });
+    }
+    res.json({ success: true, user: toPublicUser(req.user) });
+  });
+}
@@ -0,0 +1,43 @@
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzlePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+if (!process.env.DATABASE_URL) {
+  throw new Error(
+    "DATABASE_URL must be set. Did you forget to provision a database?",
+  );
+}
+
+/**
+ * Neon's serverless driver only speaks to Neon (over WebSockets); a local,
+ * Docker or any other Postgres gets node-postgres instead.
+ */
+export function isNeonUrl(connectionString: string): boolean {
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+interface Database {
+  pool: pg.Pool; // Neon's Pool is a node-postgres Pool, which connect-pg-simple expects
+  db: PgDatabase<PgQueryResultHKT, typeof schema>;
+}
+
+function connect(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    const pool = new NeonPool({ connectionString });
+    return { pool, db: drizzleNeon({ client: pool, schema }) };
+  }
+  const pool = new pg.Pool({ connectionString });
+  return { pool, db: drizzlePg({ client: pool, schema }) };
+}
+
+export const { pool, db } = connect(process.env.DATABASE_URL);
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// The secret is read once at import, so each test loads a fresh copy
+async function loadTokens(env: Record<string, string | undefined>) {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  return import('./reconnectTokens');
+}
+
+const seat = { roomId: 'ABC123', playerId: 'guest_1', nonce: 'n1' };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('reconnect tokens', () => {
+  it('reads back the seat it signed', async () => {
+    const tokens = await loadTokens({ RECONNECT_TOKEN_SECRET: 'secret' });
+    expect(tokens.readReconnectToken(tokens.signReconnectToken(seat))).toEqual(seat);
+  });
+
+  it('rejects tampered payloads and signatures', async () => {
+    const tokens = await loadTokens({ RECONNECT_TOKEN_SECRET: 'secret' });
+    const [payload, signature] = tokens.signReconnectToken(seat).split('.');
+    const forged = Buffer.from(JSON.stringify(['ABC123', 'host', 'n1'])).toString('base64url');
+
+    expect(tokens.readReconnectToken(`${forged}.${signature}`)).toBeNull();
+    expect(tokens.readReconnectToken(`${payload}.${signature.slice(1)}`)).toBeNull();
+    expect(tokens.readReconnectToken(payload)).toBeNull();
+    expect(tokens.readReconnectToken(42)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const other = await loadTokens({ RECONNECT_TOKEN_SECRET: 'other' });
+    const token = other.signReconnectToken(seat);
+    const tokens = await loadTokens({ RECONNECT_TOKEN_SECRET: 'secret' });
+    expect(tokens.readReconnectToken(token)).toBeNull();
+  });
+
+  it('derives its key from SESSION_SECRET rather than reusing it', async () => {
+    const fromSession = await loadTokens({ RECONNECT_TOKEN_SECRET: undefined, SESSION_SECRET: 'session' });
+    const token = fromSession.signReconnectToken(seat);
+    expect(fromSession.readReconnectToken(token)).toEqual(seat);
+
+    const sameString = await loadTokens({ RECONNECT_TOKEN_SECRET: 'session' });
+    expect(sameString.readReconnectToken(token)).toBeNull();
+  });
+
+  it('refuses to start in production without a secret', async () => {
+    await expect(loadTokens({
+      NODE_ENV: 'production',
+      RECONNECT_TOKEN_SECRET: undefined,
+      SESSION_SECRET: undefined
+    })).rejects.toThrow(/must be set in production/);
+  });
+});
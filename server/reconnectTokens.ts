@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Reconnect tokens for REJOIN_ROOM.
+ *
+ * A token names one seat (room + player) plus that seat's current nonce and is
+ * signed with HMAC-SHA256. The room only keeps the nonce: issuing a new token
+ * replaces it, which revokes every token handed out before.
+ */
+
+export interface ReconnectSeat {
+  roomId: string;
+  playerId: string;
+  nonce: string;
+}
+
+/**
+ * RECONNECT_TOKEN_SECRET, or a key derived from SESSION_SECRET so the session
+ * secret itself never signs anything but sessions. Production needs one of
+ * them: a random secret would strand every guest of a restored room.
+ */
+function getTokenSecret(): string {
+  if (process.env.RECONNECT_TOKEN_SECRET) return process.env.RECONNECT_TOKEN_SECRET;
+  if (process.env.SESSION_SECRET) {
+    return createHmac("sha256", process.env.SESSION_SECRET).update("reconnect-tokens").digest("hex");
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("RECONNECT_TOKEN_SECRET or SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ RECONNECT_TOKEN_SECRET not set - using a random secret, guests can't rejoin restored rooms after a restart");
+  return randomBytes(32).toString("hex");
+}
+
+const secret = getTokenSecret();
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function createNonce(): string {
+  return randomBytes(16).toString("base64url");
+}
+
+export function signReconnectToken(seat: ReconnectSeat): string {
+  const payload = Buffer.from(JSON.stringify([seat.roomId, seat.playerId, seat.nonce])).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check the signature and decode the seat. Returns null for anything that
+ * wasn't signed by this server - the caller still has to compare the nonce.
+ */
+export function readReconnectToken(token: unknown): ReconnectSeat | null {
+  if (typeof token !== "string") return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+
+  try {
+    const [roomId, playerId, nonce] = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof roomId !== "string" || typeof playerId !== "string" || typeof nonce !== "string") return null;
+    return { roomId, playerId, nonce };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,421 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import {
+  addAIToRoom,
+  addSpectator,
+  broadcastGameState,
+  claimSeat,
+  createPlayer,
+  createRoom,
+  deleteRoom,
+  joinRoom,
+  kickPlayer,
+  postChat,
+  postReaction,
+  quickMatch,
+  removeSpectator,
+  replaceWithAI,
+  serializeRoomState,
+  serializeSpectatorState,
+  setPlayerConnected,
+  setPlayerMuted,
+  setSpectatorView,
+  startGame,
+  submitAction,
+  type GameRoom
+} from './roomManager';
+import { applyAction, getCurrentPlayer, getDecisionOptions } from '@shared/gameEngine';
+import { CHAT, GAME, REACTION, SPECTATOR, TIMING } from '@shared/constants';
+import { ErrorCode } from '@shared/messages';
+import { ChatSchema } from '@shared/validation';
+import type { DecisionOptions, EngineAction } from '@shared/types';
+
+let room: GameRoom;
+
+/** A started game: host plus two guests and one AI seat */
+function startedRoom(): GameRoom {
+  const started = createRoom('host', 'Host');
+  joinRoom(started, createPlayer('guest1', 'Guest 1', false));
+  joinRoom(started, createPlayer('guest2', 'Guest 2', false));
+  addAIToRoom(started, 'Robo', 'medium', 'balanced');
+  expect(startGame(started)).toEqual({ ok: true });
+  return started;
+}
+
+/** A legal move that keeps the hand going: the top bid, play rather than sit */
+function moveFor(playerId: string, options: DecisionOptions): EngineAction {
+  switch (options.action) {
+    case 'bid':
+      return { action: 'bid', payload: { playerId, bid: options.validBids[options.validBids.length - 1] } };
+    case 'trump':
+      return { action: 'trump', payload: { playerId, suit: options.suits[0] } };
+    case 'sitpass':
+      return { action: 'sitpass', payload: { playerId, decision: 'play' } };
+    case 'playcard':
+      return { action: 'playcard', payload: { playerId, card: options.validCards[0] } };
+    case 'penalty':
+      return { action: 'penalty', payload: { playerId, choice: 'self' } };
+  }
+}
+
+/**
+ * Play the current hand to the end: people move as soon as it's their turn,
+ * the server's timers move the AI and the finished tricks. `check` runs
+ * before every step while the hand is still in play.
+ */
+async function playOutHand(target: GameRoom, check: () => void = () => {}) {
+  const round = target.gameState.round;
+  for (let step = 0; step < 500; step++) {
+    const state = target.gameState;
+    if (state.round !== round || state.gamePhase === 'round_complete' || state.gamePhase === 'game_over') return;
+    check();
+
+    const player = getCurrentPlayer(state);
+    const options = getDecisionOptions(state);
+    if (player && !player.isAI && options) {
+      expect(submitAction(target, player.id, moveFor(player.id, options)).valid).toBe(true);
+    } else {
+      await vi.advanceTimersByTimeAsync(250);
+    }
+  }
+  throw new Error(`Hand did not finish (stuck in ${target.gameState.gamePhase})`);
+}
+
+const lastChat = () => room.chat[room.chat.length - 1];
+
+function handSeenBy(viewerId: string | null, seatId: string) {
+  return serializeRoomState(room, viewerId).players.find(p => p.id === seatId)!.hand;
+}
+
+beforeEach(() => {
+  // Nothing here should wait on AI turns or round transitions
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  room = startedRoom();
+});
+
+afterEach(() => {
+  deleteRoom(room.id);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('hand visibility', () => {
+  it('shows each player only their own hand', () => {
+    expect(handSeenBy('guest1', 'guest1')).toHaveLength(5);
+    expect(handSeenBy('guest1', 'guest2')).toEqual([]);
+    expect(handSeenBy('guest1', 'host')).toEqual([]);
+  });
+
+  it('hides AI hands from the players', () => {
+    const ai = room.gameState.players.find(p => p.isAI)!;
+    expect(handSeenBy('host', ai.id)).toEqual([]);
+  });
+
+  it('keeps the hand of a seat handed to an AI hidden from the other seats', () => {
+    setPlayerConnected(room, 'guest2', false);
+    expect(replaceWithAI(room, 'guest2', 'hard')).toEqual({ ok: true });
+
+    expect(room.gameState.players.find(p => p.id === 'guest2')!.isAI).toBe(true);
+    expect(handSeenBy('host', 'guest2')).toEqual([]);
+    expect(handSeenBy('guest1', 'guest2')).toEqual([]);
+  });
+
+  it('keeps the hand of a kicked player hidden once an AI takes over', () => {
+    expect(kickPlayer(room, 'host', 'guest1')).toEqual({ ok: true });
+
+    expect(room.gameState.players.find(p => p.id === 'guest1')!.isAI).toBe(true);
+    expect(handSeenBy('guest2', 'guest1')).toEqual([]);
+  });
+
+  it('shows every hand to the spectator of an AI-only room', () => {
+    room.gameState.players.forEach(p => expect(handSeenBy(null, p.id)).toHaveLength(5));
+  });
+
+  it('hides every hand from spectators outside the all-hands view', () => {
+    const hidden = serializeSpectatorState(room, false);
+    expect(hidden.players.every(p => p.hand.length === 0)).toBe(true);
+    const allHands = serializeSpectatorState(room, true);
+    expect(allHands.players.every(p => p.hand.length === 5)).toBe(true);
+  });
+});
+
+describe('seat changes', () => {
+  it('hands a dropped seat to an AI of the chosen difficulty and personality', () => {
+    setPlayerConnected(room, 'guest1', false);
+    expect(replaceWithAI(room, 'guest1', 'hard', 'ganger')).toEqual({ ok: true });
+    expect(room.gameState.players.find(p => p.id === 'guest1')).toMatchObject({
+      isAI: true,
+      aiDifficulty: 'hard',
+      aiPersonality: 'ganger'
+    });
+  });
+
+  describe('claiming a seat', () => {
+    function spectator() {
+      const ws = { readyState: WebSocket.OPEN, send: vi.fn() } as unknown as WebSocket;
+      expect(addSpectator(room, ws)).toEqual({ ok: true });
+      return ws;
+    }
+
+    it('lets a spectator claim an AI seat', () => {
+      const robo = room.gameState.players.find(p => p.isAI)!;
+      expect(claimSeat(room, spectator(), robo.id, 'Watcher', null, () => {})).toEqual({ ok: true });
+    });
+
+    it('keeps a briefly disconnected guest in their seat', () => {
+      setPlayerConnected(room, 'guest1', false);
+      expect(claimSeat(room, spectator(), 'guest1', 'Watcher', null, () => {})).toMatchObject({
+        ok: false,
+        code: ErrorCode.SEAT_NOT_AVAILABLE
+      });
+
+      setPlayerConnected(room, 'guest1', true);
+      expect(room.gameState.players.find(p => p.id === 'guest1')).toMatchObject({ name: 'Guest 1', isAI: false });
+    });
+
+    it('frees the seat once the host hands it to an AI', () => {
+      setPlayerConnected(room, 'guest1', false);
+      replaceWithAI(room, 'guest1', 'medium');
+      expect(claimSeat(room, spectator(), 'guest1', 'Watcher', null, () => {})).toEqual({ ok: true });
+    });
+  });
+});
+
+describe('trick and round transitions', () => {
+  const countOf = (action: EngineAction['action']) => room.recording!.actions.filter(a => a.action === action).length;
+
+  /** Play until a trick is won and the table is holding it for the clients */
+  async function playUntilTrickComplete() {
+    for (let step = 0; step < 500; step++) {
+      const state = room.gameState;
+      if (state.gamePhase === 'trick_complete') return;
+      const player = getCurrentPlayer(state);
+      const options = getDecisionOptions(state);
+      if (player && !player.isAI && options) {
+        expect(submitAction(room, player.id, moveFor(player.id, options)).valid).toBe(true);
+      } else {
+        await vi.advanceTimersByTimeAsync(50);
+      }
+    }
+    throw new Error(`No trick finished (stuck in ${room.gameState.gamePhase})`);
+  }
+
+  it('starts the next trick once TIMING.TRICK_COMPLETE_DELAY has passed', async () => {
+    await playUntilTrickComplete();
+    const advances = countOf('advance');
+
+    await vi.advanceTimersByTimeAsync(TIMING.TRICK_COMPLETE_DELAY - 100);
+    expect(room.gameState.gamePhase).toBe('trick_complete');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(room.gameState.gamePhase).toBe('hand_play');
+    expect(countOf('advance')).toBe(advances + 1);
+
+    await vi.advanceTimersByTimeAsync(TIMING.TRICK_COMPLETE_DELAY);
+    expect(countOf('advance')).toBe(advances + 1);
+  });
+
+  it('deals the next hand once TIMING.ROUND_COMPLETE_DELAY has passed', async () => {
+    await playOutHand(room);
+    expect(room.gameState.gamePhase).toBe('round_complete');
+    const deals = countOf('deal');
+
+    await vi.advanceTimersByTimeAsync(TIMING.ROUND_COMPLETE_DELAY - 100);
+    expect(room.gameState.gamePhase).toBe('round_complete');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(room.gameState.round).toBe(2);
+    expect(countOf('deal')).toBe(deals + 1);
+
+    await vi.advanceTimersByTimeAsync(TIMING.ROUND_COMPLETE_DELAY);
+    expect(countOf('deal')).toBe(deals + 1);
+  });
+
+  it('leaves a room alone once it has moved past the trick the timer was set for', async () => {
+    await playUntilTrickComplete();
+    const advances = countOf('advance');
+
+    // Play the next trick out behind the timer's back, so the room waits on a later trick
+    let state = room.gameState;
+    do {
+      const player = getCurrentPlayer(state);
+      const options = getDecisionOptions(state);
+      const action: EngineAction = state.gamePhase === 'trick_complete'
+        ? { action: 'advance', payload: {} }
+        : moveFor(player!.id, options!);
+      const result = applyAction(state, action, room.settings);
+      if (!result.valid) throw new Error(result.error);
+      state = result.state;
+    } while (state.gamePhase !== 'trick_complete');
+    room.gameState = state;
+
+    await vi.advanceTimersByTimeAsync(TIMING.TRICK_COMPLETE_DELAY);
+    expect(room.gameState).toBe(state);
+    expect(countOf('advance')).toBe(advances);
+  });
+});
+
+describe('chat', () => {
+  it('relays a seated player\'s message under their name', () => {
+    expect(postChat(room, 'guest1', 'good luck')).toEqual({ ok: true });
+    expect(lastChat()).toMatchObject({ playerId: 'guest1', playerName: 'Guest 1', message: 'good luck' });
+
+    expect(postChat(room, 'stranger', 'hi')).toMatchObject({ ok: false, code: ErrorCode.PLAYER_NOT_FOUND });
+  });
+
+  it('trims messages and refuses empty or overlong ones', () => {
+    expect(ChatSchema.parse({ type: 'CHAT', text: '  hi  ' }).text).toBe('hi');
+    expect(ChatSchema.safeParse({ type: 'CHAT', text: '   ' }).success).toBe(false);
+    expect(ChatSchema.safeParse({ type: 'CHAT', text: 'x'.repeat(CHAT.MAX_LENGTH) }).success).toBe(true);
+    expect(ChatSchema.safeParse({ type: 'CHAT', text: 'x'.repeat(CHAT.MAX_LENGTH + 1) }).success).toBe(false);
+  });
+
+  it('limits each player to CHAT.RATE_LIMIT messages per CHAT.RATE_WINDOW', () => {
+    for (let i = 0; i < CHAT.RATE_LIMIT; i++) {
+      expect(postChat(room, 'guest1', `message ${i}`)).toEqual({ ok: true });
+    }
+    expect(postChat(room, 'guest1', 'one too many')).toMatchObject({ ok: false, code: ErrorCode.CHAT_RATE_LIMITED });
+    expect(postChat(room, 'guest2', 'someone else')).toEqual({ ok: true });
+
+    vi.advanceTimersByTime(CHAT.RATE_WINDOW);
+    expect(postChat(room, 'guest1', 'back again')).toEqual({ ok: true });
+  });
+
+  it('drops a reaction sent inside the cooldown', () => {
+    expect(postReaction(room, 'guest1', 'nice_hand')).toBe(true);
+    expect(postReaction(room, 'guest1', 'ouch')).toBe(false);
+
+    vi.advanceTimersByTime(REACTION.COOLDOWN);
+    expect(postReaction(room, 'guest1', 'ouch')).toBe(true);
+  });
+});
+
+describe('moderation', () => {
+  it('silences a muted player until the host unmutes them', () => {
+    expect(setPlayerMuted(room, 'host', 'guest1', true)).toEqual({ ok: true });
+    expect(lastChat()).toMatchObject({ isSystem: true, message: 'Guest 1 was muted by the host' });
+    expect(postChat(room, 'guest1', 'hello?')).toMatchObject({ ok: false, code: ErrorCode.CHAT_MUTED });
+    expect(postReaction(room, 'guest1', 'ouch')).toBe(false);
+
+    expect(setPlayerMuted(room, 'host', 'guest1', false)).toEqual({ ok: true });
+    expect(postChat(room, 'guest1', 'hello')).toEqual({ ok: true });
+    expect(postReaction(room, 'guest1', 'ouch')).toBe(true);
+  });
+
+  it('only lets the host mute or kick', () => {
+    expect(setPlayerMuted(room, 'guest1', 'guest2', true)).toMatchObject({ ok: false, code: ErrorCode.NOT_HOST });
+    expect(room.mutedPlayers.has('guest2')).toBe(false);
+
+    expect(kickPlayer(room, 'guest1', 'guest2')).toMatchObject({ ok: false, code: ErrorCode.NOT_HOST });
+    expect(room.gameState.players.find(p => p.id === 'guest2')).toMatchObject({ isAI: false, name: 'Guest 2' });
+  });
+
+  it('does not let the host mute or kick themselves', () => {
+    expect(setPlayerMuted(room, 'host', 'host', true)).toMatchObject({ ok: false, code: ErrorCode.INVALID_ACTION });
+    expect(kickPlayer(room, 'host', 'host')).toMatchObject({ ok: false, code: ErrorCode.INVALID_ACTION });
+    expect(room.gameState.players.find(p => p.id === 'host')!.isAI).toBe(false);
+  });
+
+  it('removes a kicked player\'s seat before the game starts', () => {
+    const waiting = createRoom('host2', 'Host');
+    try {
+      joinRoom(waiting, createPlayer('guest3', 'Guest 3', false));
+      expect(kickPlayer(waiting, 'host2', 'guest3')).toEqual({ ok: true });
+      expect(waiting.gameState.players.map(p => p.id)).toEqual(['host2']);
+    } finally {
+      deleteRoom(waiting.id);
+    }
+  });
+});
+
+describe('quick match', () => {
+  function fullQuickMatch(): GameRoom {
+    const { room: matched } = quickMatch(createPlayer('qm0', 'Player 0', false));
+    for (let i = 1; i < GAME.MAX_PLAYERS; i++) {
+      expect(quickMatch(createPlayer(`qm${i}`, `Player ${i}`, false)).room).toBe(matched);
+    }
+    return matched;
+  }
+
+  it('starts a full table shortly after the last seat fills', () => {
+    const matched = fullQuickMatch();
+    try {
+      expect(matched.backfillAt).toBe(Date.now() + TIMING.AI_TURN_DELAY);
+      vi.advanceTimersByTime(TIMING.AI_TURN_DELAY);
+      expect(matched.gameState.gamePhase).toBe('bidding');
+      expect(matched.backfillTimer).toBeUndefined();
+    } finally {
+      deleteRoom(matched.id);
+    }
+  });
+
+  it('drops the pending start when the room is cleaned up', () => {
+    const matched = fullQuickMatch();
+    deleteRoom(matched.id);
+    expect(matched.backfillTimer).toBeUndefined();
+    expect(matched.backfillAt).toBeUndefined();
+  });
+});
+
+describe('spectators', () => {
+  /** Connection that keeps the game states it is sent */
+  function watcher() {
+    const states: { players: { hand: unknown[] }[] }[] = [];
+    const ws = {
+      readyState: WebSocket.OPEN,
+      send: (data: string) => {
+        const message = JSON.parse(data);
+        if (message.type === 'GAME_STATE_SYNC') states.push(message);
+      }
+    } as unknown as WebSocket;
+    expect(addSpectator(room, ws)).toEqual({ ok: true });
+    return { ws, states };
+  }
+
+  it('sends the live table straight away with every hand hidden', () => {
+    const { states } = watcher();
+    broadcastGameState(room);
+    expect(states).toHaveLength(1);
+    expect(states[0].players.every(p => p.hand.length === 0)).toBe(true);
+  });
+
+  it('holds the all-hands view until the hand is over, however long it runs', async () => {
+    const { ws, states } = watcher();
+    setSpectatorView(room, ws, true);
+    broadcastGameState(room);
+
+    // Nobody at the table moves for well past a minute
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(room.gameState.gamePhase).toBe('bidding');
+    expect(states).toHaveLength(0);
+
+    await playOutHand(room, () => expect(states).toHaveLength(0));
+    expect(states.length).toBeGreaterThan(0);
+    expect(states[0].players.every(p => p.hand.length === 5)).toBe(true);
+  });
+
+  it('replays a finished hand SPECTATOR.ALL_HANDS_REPLAY_STEP apart', async () => {
+    const { ws, states } = watcher();
+    setSpectatorView(room, ws, true);
+    broadcastGameState(room);
+    broadcastGameState(room);
+    await playOutHand(room);
+
+    const shown = states.length;
+    await vi.advanceTimersByTimeAsync(SPECTATOR.ALL_HANDS_REPLAY_STEP);
+    expect(states.length).toBe(shown + 1);
+  });
+
+  it('drops held views when the spectator switches back or leaves', async () => {
+    const switched = watcher();
+    setSpectatorView(room, switched.ws, true);
+    setSpectatorView(room, switched.ws, false);
+    const left = watcher();
+    setSpectatorView(room, left.ws, true);
+    removeSpectator(room, left.ws);
+
+    await playOutHand(room);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(left.states).toHaveLength(0);
+    expect(switched.states.every(state => state.players.every(p => p.hand.length === 0))).toBe(true);
+  });
+});
@@ -0,0 +1,1697 @@
+import { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { processAITurn, setApplyGameAction, setBroadcastGameState } from './ai/gameLoop';
+import { roomStore, type RoomSnapshot } from './roomStore';
+import { storage } from './storage';
+import { createNonce, signReconnectToken, readReconnectToken } from './reconnectTokens';
+import { ErrorCode } from '@shared/messages';
+import { GAME, TIMING, CHAT, REACTION, SPECTATOR, LOBBY, DEFAULT_SETTINGS } from '@shared/constants';
+import { findStrongestSuit, getValidPlays } from '@shared/cardOperations';
+import { randomSeed } from '@shared/random';
+import { recordAction, startRecording } from '@shared/replay';
+import {
+  applyAction,
+  addPlayer,
+  removePlayer,
+  createGameState,
+  getCurrentPlayer,
+  getValidBids,
+  getDecisionOptions,
+  canSit,
+  type EngineResult,
+} from '@shared/gameEngine';
+import {
+  serializeGameState,
+  serializePlayer,
+  serializeEngineState,
+  deserializeEngineState,
+} from '@shared/serialization';
+import type {
+  AIDifficulty,
+  AIPersonality,
+  ChatMessage,
+  EngineAction,
+  GameEvent,
+  GameRecording,
+  GameSettings,
+  GameState,
+  LobbyRoom,
+  Player,
+  ReactionId,
+} from '@shared/types';
+
+/**
+ * Room management shared by the WebSocket server and the HTTP play API.
+ * Every rule decision goes through the shared engine in dispatch(); the
+ * transports only translate messages and requests into these operations.
+ */
+
+export interface GameRoom {
+  id: string;
+  gameState: GameState;
+  connections: Map<string, WebSocket>;
+  spectatorWs?: WebSocket; // Creator of an AI-only room - sees every hand live
+  spectators: Map<WebSocket, Spectator>; // Joined by code with SPECTATE_ROOM
+  settings: GameSettings;
+  host: string;
+  createdAt: number;
+  gameId?: number; // games row in storage, set when the game starts
+  reconnectNonces: Map<string, string>; // playerId -> nonce of their current reconnect token
+  turnTimer?: NodeJS.Timeout;
+  turnTimeLimit: number;
+  turnStartTime?: number;
+  aiProcessing: boolean;
+  aiTimeouts: Set<NodeJS.Timeout>;
+  transitionTimer?: NodeJS.Timeout;
+  version: number; // Bumped on every change - the HTTP API's ETag
+  updatedAt: number;
+  watchers: Set<() => void>; // Long-polling HTTP requests waiting for the next change
+  botDecision?: PendingDecision; // Open DECISION_REQUEST for the bot seat whose turn it is
+  recording?: GameRecording; // Every action since the first deal, for the replay
+  chat: ChatMessage[]; // Last CHAT.HISTORY_SIZE messages, replayed on join and rejoin
+  mutedPlayers: Set<string>; // Seats the host has silenced
+  chatSentAt: Map<string, number[]>; // playerId -> send times inside the rate limit window
+  reactedAt: Map<string, number>; // playerId -> when their last reaction went out
+  isPublic: boolean; // Listed in the lobby; private rooms are reached by code only
+  backfillAt?: number; // Quick match: when AI fills the empty seats and the game starts
+  backfillTimer?: NodeJS.Timeout;
+}
+
+interface Spectator {
+  allHands: boolean;
+  heldHand: string[]; // All-hands views of the hand in play, held until it is over
+  replay: string[]; // All-hands views of finished hands still to be shown
+  replayTimer?: NodeJS.Timeout;
+  claim?: SeatClaim; // Seat they take when the next hand is dealt
+}
+
+interface SeatClaim {
+  seatId: string;
+  name: string;
+  onSeated: (playerId: string) => void; // Lets the transport treat the connection as that player from now on
+}
+
+interface PendingDecision {
+  requestId: string;
+  playerId: string;
+  deadline: number;
+  timer: NodeJS.Timeout;
+}
+
+const rooms = new Map<string, GameRoom>();
+
+export function getRoom(roomId: string): GameRoom | undefined {
+  return rooms.get(roomId);
+}
+
+// =============================================================================
+// LOGGING HELPERS
+// =============================================================================
+
+interface LogContext {
+  roomId?: string;
+  playerId?: string;
+  action?: string;
+  phase?: string;
+}
+
+/**
+ * Log a game action with full context for debugging.
+ */
+function logGameAction(level: 'info' | 'warn' | 'error', message: string, context: LogContext): void {
+  const timestamp = new Date().toISOString();
+  const contextStr = Object.entries(context)
+    .filter(([_, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(' ');
+
+  const prefix = level === 'error' ? '❌' : level === 'warn' ? '⚠️' : '📋';
+  console.log(`${prefix} [${timestamp}] ${message} | ${contextStr}`);
+}
+
+/**
+ * Log a validation error with context.
+ */
+export function logValidationError(error: string, context: LogContext): void {
+  logGameAction('warn', `Validation failed: ${error}`, context);
+}
+
+// =============================================================================
+// ROOM CODE GENERATION
+// =============================================================================
+
+/**
+ * Generate a cryptographically secure room code.
+ * Uses characters that are easy to read and type (excludes 0, O, I, 1, L).
+ */
+function generateRoomCode(): string {
+  const chars = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'; // Exclude similar-looking chars
+  const bytes = randomBytes(6);
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += chars[bytes[i] % chars.length];
+  }
+  return code;
+}
+
+// =============================================================================
+// ROOM PERSISTENCE
+// =============================================================================
+
+// Writes for one room run in order so an older snapshot never lands last
+const pendingWrites = new Map<string, Promise<void>>();
+
+function queueRoomWrite(roomId: string, write: () => Promise<void>): void {
+  const next = (pendingWrites.get(roomId) ?? Promise.resolve())
+    .then(write)
+    .catch(error => console.error(`❌ Failed to persist room ${roomId}:`, error));
+  pendingWrites.set(roomId, next);
+  next.then(() => {
+    if (pendingWrites.get(roomId) === next) pendingWrites.delete(roomId);
+  });
+}
+
+function snapshotRoom(room: GameRoom): RoomSnapshot {
+  return {
+    id: room.id,
+    host: room.host,
+    createdAt: room.createdAt,
+    settings: room.settings,
+    turnTimeLimit: room.turnTimeLimit,
+    gameId: room.gameId,
+    version: room.version,
+    reconnectNonces: Object.fromEntries(room.reconnectNonces),
+    gameState: serializeEngineState(room.gameState),
+    recording: room.recording,
+    chat: room.chat,
+    mutedPlayerIds: Array.from(room.mutedPlayers),
+    isPublic: room.isPublic,
+    backfillAt: room.backfillAt,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Snapshot the room to the room store. Called after every change so a
+ * restarted server can pick the game up mid-hand, which also makes it the
+ * place to bump the version and wake long-polling requests.
+ */
+export function persistRoom(room: GameRoom): void {
+  // Late timers can still touch a room after it was deleted
+  if (rooms.get(room.id) !== room) return;
+
+  room.version++;
+  room.updatedAt = Date.now();
+  wakeWatchers(room);
+
+  const snapshot = snapshotRoom(room);
+  queueRoomWrite(room.id, () => roomStore.saveRoom(snapshot));
+
+  // Anything worth saving may change how the room looks in the lobby
+  if (room.isPublic) lobbyChanged();
+}
+
+/**
+ * Rebuild rooms saved before the last shutdown. Every human starts out
+ * disconnected until they send REJOIN_ROOM; AI turns and pending
+ * trick/round transitions pick up where they left off.
+ */
+async function restoreRooms(): Promise<void> {
+  const snapshots = await roomStore.loadRooms();
+
+  snapshots.forEach(snapshot => {
+    if (rooms.has(snapshot.id)) return;
+
+    const gameState = deserializeEngineState(snapshot.gameState);
+    const markDisconnected = (players: Player[]) =>
+      players.map(p => (p.isAI ? p : { ...p, isConnected: false }));
+
+    const room: GameRoom = {
+      id: snapshot.id,
+      gameState: {
+        ...gameState,
+        players: markDisconnected(gameState.players),
+        eliminatedPlayers: markDisconnected(gameState.eliminatedPlayers)
+      },
+      connections: new Map(),
+      spectators: new Map(),
+      settings: snapshot.settings,
+      host: snapshot.host,
+      createdAt: snapshot.createdAt,
+      gameId: snapshot.gameId,
+      version: snapshot.version ?? 0,
+      updatedAt: snapshot.updatedAt,
+      watchers: new Set(),
+      reconnectNonces: new Map(Object.entries(snapshot.reconnectNonces || {})),
+      turnTimeLimit: snapshot.turnTimeLimit,
+      recording: snapshot.recording,
+      chat: snapshot.chat ?? [],
+      mutedPlayers: new Set(snapshot.mutedPlayerIds),
+      chatSentAt: new Map(),
+      reactedAt: new Map(),
+      isPublic: snapshot.isPublic ?? false,
+      backfillAt: snapshot.backfillAt,
+      aiProcessing: false,
+      aiTimeouts: new Set()
+    };
+
+    rooms.set(room.id, room);
+    if (room.backfillAt !== undefined && room.gameState.gamePhase === 'setup') {
+      scheduleBackfill(room, room.backfillAt - Date.now());
+    }
+    scheduleTransition(room);
+    if (!room.transitionTimer && room.gameState.gamePhase !== 'setup') {
+      continueRoom(room, TIMING.AI_TURN_DELAY);
+      // Bots start disconnected too - the deadline keeps the table moving until they rejoin
+      requestBotDecision(room);
+    }
+  });
+
+  if (snapshots.length > 0) {
+    console.log(`♻️ Restored ${snapshots.length} rooms from storage`);
+  }
+}
+
+// =============================================================================
+// RECONNECT TOKENS
+// =============================================================================
+
+/**
+ * Hand out a fresh reconnect token for a seat. The new nonce replaces the
+ * old one, so any earlier token for the seat stops working.
+ */
+export function issueReconnectToken(room: GameRoom, playerId: string): string {
+  const nonce = createNonce();
+  room.reconnectNonces.set(playerId, nonce);
+  persistRoom(room);
+  return signReconnectToken({ roomId: room.id, playerId, nonce });
+}
+
+export function revokeReconnectToken(room: GameRoom, playerId: string): void {
+  if (room.reconnectNonces.delete(playerId)) persistRoom(room);
+}
+
+/**
+ * The seat a reconnect token is good for in this room, or null if it is
+ * forged, for another room, or has been replaced or revoked.
+ */
+export function verifyReconnectToken(room: GameRoom, token: unknown): string | null {
+  const seat = readReconnectToken(token);
+  if (!seat || seat.roomId !== room.id) return null;
+  return room.reconnectNonces.get(seat.playerId) === seat.nonce ? seat.playerId : null;
+}
+
+// =============================================================================
+// GAME RECORDS
+// =============================================================================
+
+/**
+ * Create the games row for a room whose game just started. Goes through the
+ * room's write queue so round records that follow always see the game id.
+ */
+function recordGameStart(room: GameRoom): void {
+  queueRoomWrite(room.id, async () => {
+    const game = await storage.createGame({
+      gameCode: room.id,
+      maxPlayers: GAME.MAX_PLAYERS,
+      hostId: null,
+      status: 'active'
+    });
+    room.gameId = game.id;
+    persistRoom(room);
+  });
+}
+
+/**
+ * Store finished rounds, and the final result once the game is over
+ */
+function recordGameEvents(room: GameRoom, events: GameEvent[]): void {
+  events.forEach(event => {
+    if (event.type === 'round_scored') {
+      const round = room.gameState.history[room.gameState.history.length - 1];
+      queueRoomWrite(room.id, async () => {
+        if (room.gameId !== undefined) await storage.addRound(room.gameId, round);
+      });
+    } else if (event.type === 'game_over') {
+      // Account holders carry their winnings and stats over to the next game
+      [...room.gameState.players, ...room.gameState.eliminatedPlayers].forEach(player => {
+        const userId = seatUserId(player.id);
+        if (userId === null) return;
+        queueRoomWrite(room.id, async () => {
+          await storage.recordGameResult(userId, {
+            won: player.id === event.winnerId,
+            moneyChange: event.moneyChanges[player.id] || 0
+          });
+        });
+      });
+
+      queueRoomWrite(room.id, async () => {
+        if (room.gameId === undefined) return;
+        await storage.updateGameState(room.gameId, 'finished', {
+          winnerId: event.winnerId,
+          moneyChanges: event.moneyChanges,
+          finalScores: Object.fromEntries(room.gameState.scores)
+        });
+      });
+    }
+  });
+}
+
+// =============================================================================
+// PLAYERS
+// =============================================================================
+
+// Seats taken by an account use a stable id, so the account can rejoin from any device
+export function userPlayerId(userId: number): string {
+  return `user_${userId}`;
+}
+
+function seatUserId(playerId: string): number | null {
+  const match = /^user_(\d+)$/.exec(playerId);
+  return match ? Number(match[1]) : null;
+}
+
+export function guestPlayerId(): string {
+  return `player_${Date.now()}_${Math.random()}`;
+}
+
+export function botPlayerId(): string {
+  return `bot_${Date.now()}_${Math.random()}`;
+}
+
+export function createPlayer(id: string, name: string, isAI: boolean, wallet: number = 100): Player {
+  return {
+    id,
+    name,
+    hand: [],
+    isActive: true,
+    consecutiveSits: 0,
+    isAI,
+    wallet,
+    punts: 0,
+    isConnected: true
+  };
+}
+
+export function createRoom(
+  hostId: string,
+  hostName: string,
+  spectatorMode: boolean = false,
+  settings: GameSettings = { ...DEFAULT_SETTINGS },
+  hostWallet?: number,
+  isPublic: boolean = false
+): GameRoom {
+  const roomId = generateRoomCode();
+
+  // If spectator mode, don't add host as a player
+  let gameState = createGameState();
+  if (!spectatorMode && hostName) {
+    gameState = addPlayer(gameState, createPlayer(hostId, hostName, false, hostWallet), settings);
+  }
+
+  const room: GameRoom = {
+    id: roomId,
+    gameState,
+    connections: new Map(),
+    spectators: new Map(),
+    settings,
+    host: hostId,
+    createdAt: Date.now(),
+    version: 0,
+    updatedAt: Date.now(),
+    watchers: new Set(),
+    reconnectNonces: new Map(),
+    turnTimeLimit: 0, // 0 = no timer (disabled for multiplayer)
+    chat: [],
+    mutedPlayers: new Set(),
+    chatSentAt: new Map(),
+    reactedAt: new Map(),
+    // AI-only rooms have nobody to meet, so they stay out of the lobby
+    isPublic: isPublic && !spectatorMode,
+    // Race condition prevention
+    aiProcessing: false,
+    aiTimeouts: new Set()
+  };
+
+  rooms.set(roomId, room);
+  persistRoom(room);
+  console.log(`🎮 Room ${roomId} created (spectatorMode: ${spectatorMode}, public: ${room.isPublic}, players: ${gameState.players.length})`);
+  return room;
+}
+
+export function findPlayer(room: GameRoom, playerId: string): Player | undefined {
+  return room.gameState.players.find(p => p.id === playerId)
+    || room.gameState.eliminatedPlayers.find(p => p.id === playerId);
+}
+
+/**
+ * Connection status is not a rule concern, so it is patched onto the
+ * engine state directly rather than going through applyAction.
+ */
+export function setPlayerConnected(room: GameRoom, playerId: string, isConnected: boolean): void {
+  const update = (players: Player[]) =>
+    players.map(p => (p.id === playerId ? { ...p, isConnected } : p));
+  room.gameState = {
+    ...room.gameState,
+    players: update(room.gameState.players),
+    eliminatedPlayers: update(room.gameState.eliminatedPlayers)
+  };
+  persistRoom(room);
+}
+
+export function broadcastToRoom(roomId: string, message: any, excludePlayerId?: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+
+  const messageStr = JSON.stringify(message);
+  
+  // Send to all players
+  room.connections.forEach((ws, playerId) => {
+    if (playerId !== excludePlayerId && ws.readyState === WebSocket.OPEN) {
+      ws.send(messageStr);
+    }
+  });
+  
+  // Also send to spectators
+  if (room.spectatorWs && room.spectatorWs.readyState === WebSocket.OPEN) {
+    room.spectatorWs.send(messageStr);
+  }
+  room.spectators.forEach((_, ws) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(messageStr);
+  });
+}
+
+/**
+ * Room state as seen by one viewer. Players only ever see their own hand -
+ * AI seats included, since a seat handed to an AI mid-hand still holds the
+ * cards its player was dealt. The spectator (null playerId) sees everything.
+ */
+export function serializeRoomState(room: GameRoom, playerId: string | null) {
+  const revealHand = (p: Player) => !playerId || p.id === playerId;
+  return {
+    roomId: room.id,
+    players: room.gameState.players.map(p => serializePlayer(p, revealHand(p))),
+    eliminatedPlayers: room.gameState.eliminatedPlayers.map(p => serializePlayer(p, false)),
+    gameState: serializeGameState(room.gameState),
+    localPlayerId: playerId,
+    isHost: playerId ? room.host === playerId : false,
+    turnTimeRemaining: room.turnStartTime ? Math.max(0, room.turnTimeLimit - Math.floor((Date.now() - room.turnStartTime) / 1000)) : null,
+    // Rooms restored from before the setting existed allow the coach
+    coachAllowed: room.settings.coachAllowed !== false,
+    // The recording holds every deal seed, so it waits until nothing is left to hide
+    recording: room.gameState.gamePhase === 'game_over' ? room.recording : undefined,
+    spectatorCount: room.spectators.size + (room.spectatorWs ? 1 : 0),
+    isPublic: room.isPublic,
+    backfillAt: room.backfillAt ?? null
+  };
+}
+
+/**
+ * Room state for a spectator who joined by code. Every hand is hidden, AI
+ * hands included, unless they chose the all-hands view - which
+ * broadcastGameState only delivers once the hand it shows is over.
+ */
+export function serializeSpectatorState(room: GameRoom, allHands: boolean) {
+  const state = serializeRoomState(room, null);
+  return {
+    ...state,
+    players: allHands ? state.players : room.gameState.players.map(p => serializePlayer(p, false)),
+    isSpectator: true
+  };
+}
+
+// Timer and auto-play functions
+export function startTurnTimer(room: GameRoom) {
+  // Clear any existing timer
+  if (room.turnTimer) {
+    clearTimeout(room.turnTimer);
+  }
+  
+  // Don't start timer if limit is 0 (no limit)
+  if (room.turnTimeLimit <= 0) return;
+  
+  // Get current player
+  const currentPlayer = getCurrentPlayer(room.gameState);
+  
+  // Don't set timer for AI players (they move instantly) or connected human players in setup
+  if (!currentPlayer || currentPlayer.isAI || room.gameState.gamePhase === 'setup') return;
+  
+  room.turnStartTime = Date.now();
+  
+  // Broadcast timer start
+  broadcastToRoom(room.id, {
+    type: 'TURN_TIMER_START',
+    timeLimit: room.turnTimeLimit
+  });
+  
+  // Set timeout for auto-play
+  room.turnTimer = setTimeout(() => {
+    console.log(`Turn timer expired for player ${currentPlayer.name} in room ${room.id}`);
+    autoPlayTurn(room, currentPlayer.id);
+  }, room.turnTimeLimit * 1000);
+}
+
+function stopTurnTimer(room: GameRoom) {
+  if (room.turnTimer) {
+    clearTimeout(room.turnTimer);
+    room.turnTimer = undefined;
+    room.turnStartTime = undefined;
+  }
+}
+
+/**
+ * Clean up all resources associated with a room before deletion.
+ * This prevents memory leaks from orphaned timers and WebSocket references.
+ */
+function cleanupRoom(room: GameRoom): void {
+  console.log(`🧹 Cleaning up room ${room.id}`);
+
+  // Clear turn timer
+  stopTurnTimer(room);
+
+  // Clear pending trick/round transition
+  clearTransition(room);
+
+  // Drop any open bot decision and its deadline
+  clearBotDecision(room);
+
+  // A quick match room that never filled won't be backfilled now
+  clearBackfill(room);
+
+  // Clear all AI timeouts
+  if (room.aiTimeouts && room.aiTimeouts.size > 0) {
+    console.log(`  Clearing ${room.aiTimeouts.size} AI timeouts`);
+    Array.from(room.aiTimeouts).forEach(timeout => clearTimeout(timeout));
+    room.aiTimeouts.clear();
+  }
+
+  // Reset processing flags
+  room.aiProcessing = false;
+
+  // Drop WebSocket references (connections should already be closed)
+  room.connections.clear();
+
+  // Clear spectator references and any held or replaying views
+  if (room.spectatorWs) {
+    room.spectatorWs = undefined;
+  }
+  room.spectators.forEach(clearSpectatorViews);
+  room.spectators.clear();
+
+  // Release long-polling requests - they will find the room gone
+  wakeWatchers(room);
+
+  console.log(`  Room ${room.id} cleaned up successfully`);
+}
+
+/**
+ * Delete a room with full cleanup.
+ */
+export function deleteRoom(roomId: string): boolean {
+  const room = rooms.get(roomId);
+  if (!room) {
+    return false;
+  }
+
+  cleanupRoom(room);
+  rooms.delete(roomId);
+  queueRoomWrite(roomId, () => roomStore.deleteRoom(roomId));
+  if (room.isPublic) lobbyChanged();
+  console.log(`🗑️ Room ${roomId} deleted. Active rooms: ${rooms.size}`);
+  return true;
+}
+
+/**
+ * Pick the safest legal action for a player who ran out of time or disconnected
+ */
+function chooseAutoPlayAction(state: GameState, player: Player): EngineAction | null {
+  const playerId = player.id;
+
+  switch (state.gamePhase) {
+    case 'bidding':
+      // Lowest legal bid (0 unless the dealer is forced to take it)
+      return { action: 'bid', payload: { playerId, bid: getValidBids(state)[0] ?? GAME.MIN_BID } };
+    case 'trump_selection':
+      return { action: 'trump', payload: { playerId, suit: findStrongestSuit(player.hand) } };
+    case 'sit_pass':
+      return { action: 'sitpass', payload: { playerId, decision: canSit(state, playerId) ? 'sit' : 'play' } };
+    case 'hand_play': {
+      const card = getValidPlays(player.hand, state.currentTrick, state.trumpSuit)
+        .sort((a, b) => a.value - b.value)[0];
+      return card ? { action: 'playcard', payload: { playerId, card } } : null;
+    }
+    case 'everyone_sat':
+      return { action: 'penalty', payload: { playerId, choice: 'self' } };
+    default:
+      return null;
+  }
+}
+
+export function autoPlayTurn(room: GameRoom, playerId: string) {
+  try {
+    // The turn may have moved on since the timer was set
+    const player = getCurrentPlayer(room.gameState);
+    if (!player || player.id !== playerId) return;
+
+    const action = chooseAutoPlayAction(room.gameState, player);
+    if (!action) return;
+
+    console.log(`⏱️ Auto-playing ${action.action} for ${player.name} in room ${room.id}`);
+    if (!dispatch(room, action).valid) return;
+
+    broadcastGameState(room);
+    continueRoom(room, 500);
+  } catch (error) {
+    console.error('Error in autoPlayTurn:', error);
+  }
+}
+
+/**
+ * Send each viewer their own view of the room
+ */
+export function broadcastGameState(room: GameRoom, type: string = 'GAME_STATE_SYNC') {
+  room.connections.forEach((ws, playerId) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type,
+        ...serializeRoomState(room, playerId)
+      }));
+    }
+  });
+
+  // Spectator sees all hands
+  if (room.spectatorWs && room.spectatorWs.readyState === WebSocket.OPEN) {
+    room.spectatorWs.send(JSON.stringify({
+      type,
+      ...serializeRoomState(room, null)
+    }));
+  }
+
+  room.spectators.forEach((spectator, ws) => sendSpectatorState(room, ws, spectator, type));
+}
+
+/**
+ * Send a joined spectator the room as it is now - straight away for the
+ * table view. The all-hands view is held until the hand it shows is over,
+ * then replayed SPECTATOR.ALL_HANDS_REPLAY_STEP apart, so no card a spectator
+ * sees is still in a player's hand.
+ */
+function sendSpectatorState(room: GameRoom, ws: WebSocket, spectator: Spectator, type: string): void {
+  const message = JSON.stringify({ type, ...serializeSpectatorState(room, spectator.allHands) });
+  if (!spectator.allHands) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(message);
+    return;
+  }
+
+  spectator.heldHand.push(message);
+  if (isHandInPlay(room.gameState)) return;
+
+  spectator.replay.push(...spectator.heldHand);
+  spectator.heldHand = [];
+  if (!spectator.replayTimer) replayNextView(ws, spectator);
+}
+
+function isHandInPlay(state: GameState): boolean {
+  return state.gamePhase !== 'setup' && state.gamePhase !== 'round_complete' && state.gamePhase !== 'game_over';
+}
+
+function replayNextView(ws: WebSocket, spectator: Spectator): void {
+  spectator.replayTimer = undefined;
+  const message = spectator.replay.shift();
+  if (message === undefined) return;
+
+  if (ws.readyState === WebSocket.OPEN) ws.send(message);
+  if (spectator.replay.length > 0) {
+    spectator.replayTimer = setTimeout(() => replayNextView(ws, spectator), SPECTATOR.ALL_HANDS_REPLAY_STEP);
+  }
+}
+
+function clearSpectatorViews(spectator: Spectator): void {
+  if (spectator.replayTimer) {
+    clearTimeout(spectator.replayTimer);
+    spectator.replayTimer = undefined;
+  }
+  spectator.heldHand = [];
+  spectator.replay = [];
+}
+
+// =============================================================================
+// RULES ENGINE
+// =============================================================================
+
+/**
+ * Apply an action to the room through the shared rules engine.
+ * The room keeps the engine's new state; rejected actions leave it untouched.
+ */
+function dispatch(room: GameRoom, action: EngineAction): EngineResult {
+  const result = applyAction(room.gameState, action, room.settings);
+
+  if (!result.valid) {
+    logValidationError(result.error, {
+      roomId: room.id,
+      playerId: 'playerId' in action.payload ? action.payload.playerId : undefined,
+      action: action.action,
+      phase: room.gameState.gamePhase
+    });
+    return result;
+  }
+
+  if (action.action === 'deal' && room.gameState.gamePhase === 'setup') {
+    room.recording = startRecording(room.gameState.players, room.settings);
+  }
+  if (room.recording) {
+    room.recording = recordAction(room.recording, action);
+  }
+
+  room.gameState = result.state;
+  persistRoom(room);
+  recordGameEvents(room, result.events);
+  announceGameEvents(room, result.events);
+  result.events.forEach(event => {
+    logGameAction('info', `Event ${event.type}`, { roomId: room.id, phase: room.gameState.gamePhase });
+  });
+
+  // Hold the table while clients show the finished trick / round
+  scheduleTransition(room);
+
+  // The turn may have passed to a bot seat
+  requestBotDecision(room);
+
+  return result;
+}
+
+/**
+ * Let AI players take their turns, then start the turn timer for humans
+ */
+export function continueRoom(room: GameRoom, delayMs: number): void {
+  scheduleAITimeout(room, () => {
+    // Double-check guards before processing
+    if (room.transitionTimer || room.aiProcessing) {
+      console.log(`🔒 AI processing blocked by guard`);
+      return;
+    }
+    room.aiProcessing = true;
+    try {
+      processAITurn(room, (message) => broadcastToRoom(room.id, message));
+    } finally {
+      room.aiProcessing = false;
+    }
+    // Start timer as fallback for human players
+    scheduleAITimeout(room, () => startTurnTimer(room), 500);
+  }, delayMs);
+}
+
+// =============================================================================
+// TRICK / ROUND TRANSITIONS
+// =============================================================================
+
+/**
+ * After a trick or round finishes, the server waits long enough for clients to
+ * show the result and then moves on by itself. No client input is needed, so a
+ * host disconnecting mid-animation can't stall the room.
+ */
+function scheduleTransition(room: GameRoom): void {
+  const phase = room.gameState.gamePhase;
+  if (phase !== 'trick_complete' && phase !== 'round_complete') return;
+
+  clearTransition(room);
+  const delayMs = phase === 'trick_complete' ? TIMING.TRICK_COMPLETE_DELAY : TIMING.ROUND_COMPLETE_DELAY;
+  const scheduledFor = transitionKey(room.gameState);
+
+  room.transitionTimer = setTimeout(() => {
+    room.transitionTimer = undefined;
+    // Skip rooms deleted while the timer was pending
+    if (rooms.get(room.id) !== room) return;
+    // ...and rooms that already moved past the trick or round it was set for
+    if (transitionKey(room.gameState) !== scheduledFor) return;
+
+    if (advanceRoom(room)) {
+      broadcastGameState(room);
+    }
+    // Scoring the last trick lands in round_complete, which schedules another transition
+    if (!room.transitionTimer) {
+      continueRoom(room, 100);
+    }
+  }, delayMs);
+}
+
+// The trick or round a transition is waiting on
+function transitionKey(state: GameState): string {
+  return [state.round, state.gamePhase, state.completedTricks.length].join('|');
+}
+
+function clearTransition(room: GameRoom): void {
+  if (room.transitionTimer) {
+    clearTimeout(room.transitionTimer);
+    room.transitionTimer = undefined;
+  }
+}
+
+/**
+ * Move the room past trick_complete (next trick or scoring) or
+ * round_complete (deal the next hand)
+ */
+function advanceRoom(room: GameRoom): boolean {
+  switch (room.gameState.gamePhase) {
+    case 'trick_complete':
+      return dispatch(room, { action: 'advance', payload: {} }).valid;
+    case 'round_complete':
+      seatClaimants(room);
+      console.log(`🎮 Dealing round ${room.gameState.round + 1} in room ${room.id}`);
+      return dispatch(room, { action: 'deal', payload: { seed: randomSeed() } }).valid;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Schedule an AI timeout and track it for cleanup.
+ * Automatically removes itself from tracking when executed.
+ */
+function scheduleAITimeout(room: GameRoom, callback: () => void, delayMs: number): NodeJS.Timeout {
+  const timeout = setTimeout(() => {
+    // Remove from tracking when executed
+    room.aiTimeouts.delete(timeout);
+    callback();
+  }, delayMs);
+
+  room.aiTimeouts.add(timeout);
+  return timeout;
+}
+
+// =============================================================================
+// BOT SEATS
+// =============================================================================
+
+/**
+ * Ask the current player for a move if their seat is played by a bot. Bots
+ * get only the legal options and TIMING.BOT_DECISION_TIMEOUT to pick one;
+ * after that the server makes the same safe move it makes for absent humans.
+ */
+function requestBotDecision(room: GameRoom): void {
+  clearBotDecision(room);
+
+  const player = getCurrentPlayer(room.gameState);
+  if (!player?.isBot || !getDecisionOptions(room.gameState)) return;
+
+  const requestId = randomBytes(8).toString('hex');
+  const playerId = player.id;
+  room.botDecision = {
+    requestId,
+    playerId,
+    deadline: Date.now() + TIMING.BOT_DECISION_TIMEOUT,
+    timer: setTimeout(() => {
+      if (room.botDecision?.requestId !== requestId) return;
+      room.botDecision = undefined;
+      console.log(`⏱️ Bot ${player.name} missed its deadline in room ${room.id}`);
+      autoPlayTurn(room, playerId);
+    }, TIMING.BOT_DECISION_TIMEOUT)
+  };
+
+  sendBotDecision(room, playerId);
+}
+
+function clearBotDecision(room: GameRoom): void {
+  if (room.botDecision) {
+    clearTimeout(room.botDecision.timer);
+    room.botDecision = undefined;
+  }
+}
+
+/**
+ * (Re)send the open decision request to a bot seat, e.g. after it rejoins.
+ * Does nothing unless the seat has a request pending.
+ */
+export function sendBotDecision(room: GameRoom, playerId: string): void {
+  const pending = room.botDecision;
+  const options = getDecisionOptions(room.gameState);
+  const ws = room.connections.get(playerId);
+  if (!pending || pending.playerId !== playerId || !options) return;
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+  const { players, gameState } = serializeRoomState(room, playerId);
+  ws.send(JSON.stringify({
+    type: 'DECISION_REQUEST',
+    requestId: pending.requestId,
+    playerId,
+    deadline: pending.deadline,
+    timeLimitMs: Math.max(0, pending.deadline - Date.now()),
+    hand: findPlayer(room, playerId)?.hand ?? [],
+    options,
+    players,
+    gameState
+  }));
+}
+
+/**
+ * Play a bot's answer to its open decision request. Answers to a request
+ * that was already answered or timed out are refused; illegal moves leave
+ * the request open until its deadline.
+ */
+export function answerBotDecision(
+  room: GameRoom,
+  playerId: string,
+  requestId: string,
+  action: EngineAction
+): EngineResult {
+  const pending = room.botDecision;
+  if (!pending || pending.playerId !== playerId || pending.requestId !== requestId) {
+    return { valid: false, code: ErrorCode.DECISION_EXPIRED, error: 'This decision request is no longer open' };
+  }
+  return submitAction(room, playerId, action);
+}
+
+// =============================================================================
+// HTTP LONG-POLLING
+// =============================================================================
+
+function wakeWatchers(room: GameRoom): void {
+  const watchers = Array.from(room.watchers);
+  room.watchers.clear();
+  watchers.forEach(wake => wake());
+}
+
+/**
+ * Resolve once the room moves past sinceVersion, or after timeoutMs.
+ * Resolves straight away if it already has.
+ */
+export function waitForRoomChange(room: GameRoom, sinceVersion: number, timeoutMs: number): Promise<void> {
+  if (room.version !== sinceVersion) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const wake = () => {
+      clearTimeout(timeout);
+      room.watchers.delete(wake);
+      resolve();
+    };
+    const timeout = setTimeout(wake, timeoutMs);
+    room.watchers.add(wake);
+  });
+}
+
+// =============================================================================
+// ROOM OPERATIONS
+// =============================================================================
+
+export type RoomResult = { ok: true } | { ok: false; code: ErrorCode; message: string };
+
+/**
+ * Seat a human player while the room is still in setup and tell the others
+ */
+export function joinRoom(room: GameRoom, player: Player): RoomResult {
+  if (room.gameState.players.length >= GAME.MAX_PLAYERS) {
+    return { ok: false, code: ErrorCode.ROOM_FULL, message: 'Room is full' };
+  }
+  if (room.gameState.gamePhase !== 'setup') {
+    return { ok: false, code: ErrorCode.GAME_ALREADY_STARTED, message: 'Game already started - watch the room to take a free seat' };
+  }
+
+  room.gameState = addPlayer(room.gameState, player, room.settings);
+  persistRoom(room);
+
+  broadcastToRoom(room.id, {
+    type: 'PLAYER_JOINED',
+    player: { id: player.id, name: player.name, isAI: false, isBot: player.isBot }
+  }, player.id);
+  postSystemMessage(room, `${player.name} joined`);
+
+  return { ok: true };
+}
+
+export function addAIToRoom(
+  room: GameRoom,
+  aiName: string,
+  difficulty: AIDifficulty = 'medium',
+  personality: AIPersonality = 'balanced'
+): RoomResult {
+  if (room.gameState.gamePhase !== 'setup') {
+    return { ok: false, code: ErrorCode.GAME_ALREADY_STARTED, message: 'Game already started' };
+  }
+  if (room.gameState.players.length >= GAME.MAX_PLAYERS) {
+    return { ok: false, code: ErrorCode.ROOM_FULL, message: 'Room is full' };
+  }
+
+  const aiId = `ai_${Date.now()}_${Math.random()}`;
+  const aiPlayer: Player = {
+    ...createPlayer(aiId, aiName, true),
+    aiDifficulty: difficulty,
+    aiPersonality: personality
+  };
+
+  room.gameState = addPlayer(room.gameState, aiPlayer, room.settings);
+  persistRoom(room);
+
+  broadcastToRoom(room.id, {
+    type: 'PLAYER_JOINED',
+    player: { id: aiId, name: aiPlayer.name, isAI: true, aiDifficulty: difficulty, aiPersonality: personality }
+  });
+
+  return { ok: true };
+}
+
+/**
+ * Take a player out of the room for good, revoking their reconnect token
+ */
+export function removeFromRoom(room: GameRoom, playerId: string): void {
+  room.gameState = removePlayer(room.gameState, playerId);
+  room.connections.delete(playerId);
+  revokeReconnectToken(room, playerId);
+  persistRoom(room);
+}
+
+/**
+ * Deal the first hand and hand the turn to whoever is first to act
+ */
+export function startGame(room: GameRoom): RoomResult {
+  if (room.gameState.gamePhase !== 'setup') {
+    return { ok: false, code: ErrorCode.GAME_ALREADY_STARTED, message: 'Game already started' };
+  }
+  if (room.gameState.players.length < GAME.MIN_PLAYERS) {
+    return { ok: false, code: ErrorCode.NOT_ENOUGH_PLAYERS, message: `Need at least ${GAME.MIN_PLAYERS} players` };
+  }
+
+  // Deal cards to all players
+  const result = dispatch(room, { action: 'deal', payload: { seed: randomSeed() } });
+  if (!result.valid) {
+    return { ok: false, code: result.code as ErrorCode, message: result.error };
+  }
+  console.log(`🃏 Dealt cards to ${room.gameState.players.length} players in room ${room.id}`);
+  recordGameStart(room);
+  clearBackfill(room);
+
+  // Send personalized game state to each player (with their own hand)
+  broadcastGameState(room, 'GAME_STARTED');
+
+  // Check if first player is AI and process their turn
+  continueRoom(room, 1000);
+
+  return { ok: true };
+}
+
+/**
+ * Apply a player's own move and let the rest of the table (AI, timers) react
+ */
+export function submitAction(room: GameRoom, actorId: string, action: EngineAction): EngineResult {
+  // Players may only act for themselves
+  if (!('playerId' in action.payload) || action.payload.playerId !== actorId) {
+    logValidationError('Action for another player', {
+      roomId: room.id,
+      playerId: actorId,
+      action: action.action,
+      phase: room.gameState.gamePhase
+    });
+    return { valid: false, code: ErrorCode.NOT_YOUR_TURN, error: 'You can only act for yourself' };
+  }
+
+  // Stop current turn timer since action was received
+  stopTurnTimer(room);
+
+  const result = dispatch(room, action);
+  if (!result.valid) {
+    // Restart turn timer since action was rejected
+    startTurnTimer(room);
+    return result;
+  }
+
+  // Broadcast the action to all players (for backward compatibility)
+  broadcastToRoom(room.id, {
+    type: 'GAME_STATE_UPDATE',
+    action: action.action,
+    payload: action.payload
+  });
+
+  // Broadcast full game state to ensure all clients are in sync
+  broadcastGameState(room);
+
+  // GUARD: Don't process AI while a trick/round result is on show
+  if (room.transitionTimer) {
+    console.log(`⏸️ Waiting for ${room.gameState.gamePhase} transition`);
+  } else if (room.aiProcessing) {
+    console.log(`⏳ AI already processing, skipping duplicate call`);
+  } else {
+    continueRoom(room, 500);
+  }
+
+  return result;
+}
+
+// =============================================================================
+// SPECTATORS
+// =============================================================================
+
+function broadcastSpectatorCount(room: GameRoom): void {
+  broadcastToRoom(room.id, {
+    type: 'SPECTATOR_COUNT',
+    count: room.spectators.size + (room.spectatorWs ? 1 : 0)
+  });
+  if (room.isPublic) lobbyChanged();
+}
+
+/**
+ * Let a connection watch the room without a seat, whatever phase it is in.
+ * Spectators start on the live table; setSpectatorView switches them over.
+ */
+export function addSpectator(room: GameRoom, ws: WebSocket): RoomResult {
+  if (room.spectators.size >= SPECTATOR.MAX_PER_ROOM) {
+    return { ok: false, code: ErrorCode.ROOM_FULL, message: 'This room has as many spectators as it can take' };
+  }
+
+  room.spectators.set(ws, { allHands: false, heldHand: [], replay: [] });
+  broadcastSpectatorCount(room);
+  return { ok: true };
+}
+
+/**
+ * Switch a spectator between the live table and the all-hands view. Views
+ * held back or still replaying are dropped, so nothing from the old view
+ * arrives late.
+ */
+export function setSpectatorView(room: GameRoom, ws: WebSocket, allHands: boolean): void {
+  const spectator = room.spectators.get(ws);
+  if (!spectator || spectator.allHands === allHands) return;
+
+  clearSpectatorViews(spectator);
+  spectator.allHands = allHands;
+  sendSpectatorState(room, ws, spectator, 'GAME_STATE_SYNC');
+}
+
+export function removeSpectator(room: GameRoom, ws: WebSocket): void {
+  const spectator = room.spectators.get(ws);
+  if (!spectator) return;
+
+  clearSpectatorViews(spectator);
+  room.spectators.delete(ws);
+  broadcastSpectatorCount(room);
+}
+
+// =============================================================================
+// SEAT CHANGES
+// =============================================================================
+
+// Only AI seats change hands - a dropped player keeps theirs until the host
+// hands it to an AI, so a brief disconnect can't cost them the seat
+function isSeatFree(player: Player): boolean {
+  return player.isAI;
+}
+
+/**
+ * Let an AI play a seat from here on. The seat keeps its id, so its score,
+ * consecutive sits and punts carry on as they were.
+ */
+function handSeatToAI(
+  room: GameRoom,
+  playerId: string,
+  difficulty: AIDifficulty,
+  personality: AIPersonality = 'balanced'
+): void {
+  if (room.botDecision?.playerId === playerId) clearBotDecision(room);
+
+  const takeOver = (players: Player[]) => players.map(p => (p.id === playerId
+    ? { ...p, isAI: true, isBot: false, isConnected: true, aiDifficulty: difficulty, aiPersonality: personality }
+    : p));
+  room.gameState = {
+    ...room.gameState,
+    players: takeOver(room.gameState.players),
+    eliminatedPlayers: takeOver(room.gameState.eliminatedPlayers)
+  };
+  persistRoom(room);
+  broadcastGameState(room);
+  if (!room.transitionTimer) continueRoom(room, TIMING.AI_TURN_DELAY);
+}
+
+/**
+ * Host control: put an AI in the seat of a player who dropped mid-game, so
+ * the table stops waiting on them. Their reconnect token no longer works.
+ */
+export function replaceWithAI(
+  room: GameRoom,
+  playerId: string,
+  difficulty: AIDifficulty,
+  personality: AIPersonality = 'balanced'
+): RoomResult {
+  const phase = room.gameState.gamePhase;
+  if (phase === 'setup' || phase === 'game_over') {
+    return { ok: false, code: ErrorCode.GAME_NOT_STARTED, message: 'There is no game in progress' };
+  }
+  const player = room.gameState.players.find(p => p.id === playerId);
+  if (!player || player.isAI) {
+    return { ok: false, code: ErrorCode.PLAYER_NOT_FOUND, message: 'Player not found' };
+  }
+  if (player.isConnected !== false) {
+    return { ok: false, code: ErrorCode.SEAT_NOT_AVAILABLE, message: `${player.name} is still connected` };
+  }
+
+  room.connections.delete(playerId);
+  revokeReconnectToken(room, playerId);
+  handSeatToAI(room, playerId, difficulty, personality);
+  const style = personality === 'balanced' ? difficulty : `${difficulty}, ${personality}`;
+  postSystemMessage(room, `An AI (${style}) took over ${player.name}'s seat`);
+  return { ok: true };
+}
+
+/**
+ * A spectator asks for an AI seat. Seats only change hands
+ * between rounds, so the claim waits for the next deal; a seat tied to
+ * another account stays theirs.
+ */
+export function claimSeat(
+  room: GameRoom,
+  ws: WebSocket,
+  seatId: string,
+  name: string,
+  userId: number | null,
+  onSeated: (playerId: string) => void
+): RoomResult {
+  const spectator = room.spectators.get(ws);
+  if (!spectator) {
+    return { ok: false, code: ErrorCode.INVALID_ACTION, message: 'Only spectators can take a seat' };
+  }
+  const phase = room.gameState.gamePhase;
+  if (phase === 'setup') {
+    return { ok: false, code: ErrorCode.GAME_NOT_STARTED, message: 'The game has not started - join the room instead' };
+  }
+  if (phase === 'game_over') {
+    return { ok: false, code: ErrorCode.SEAT_NOT_AVAILABLE, message: 'The game is over' };
+  }
+
+  const player = room.gameState.players.find(p => p.id === seatId);
+  if (!player) {
+    return { ok: false, code: ErrorCode.PLAYER_NOT_FOUND, message: 'Seat not found' };
+  }
+  if (!isSeatFree(player)) {
+    return { ok: false, code: ErrorCode.SEAT_NOT_AVAILABLE, message: `${player.name}'s seat is taken` };
+  }
+  const owner = seatUserId(seatId);
+  if (owner !== null && owner !== userId) {
+    return { ok: false, code: ErrorCode.SEAT_NOT_AVAILABLE, message: `${player.name}'s seat belongs to their account` };
+  }
+  const claimedElsewhere = Array.from(room.spectators.entries())
+    .some(([other, s]) => other !== ws && s.claim?.seatId === seatId);
+  if (claimedElsewhere) {
+    return { ok: false, code: ErrorCode.SEAT_NOT_AVAILABLE, message: `Someone else is taking ${player.name}'s seat` };
+  }
+
+  spectator.claim = { seatId, name, onSeated };
+  ws.send(JSON.stringify({ type: 'CLAIM_PENDING', playerId: seatId }));
+  return { ok: true };
+}
+
+/**
+ * Move spectators with a claim into their seats, just before the next deal.
+ * A claim whose seat was taken back in the meantime is dropped.
+ */
+function seatClaimants(room: GameRoom): void {
+  room.spectators.forEach((spectator, ws) => {
+    const claim = spectator.claim;
+    if (!claim) return;
+    spectator.claim = undefined;
+
+    const player = room.gameState.players.find(p => p.id === claim.seatId);
+    if (ws.readyState !== WebSocket.OPEN) return;
+    if (!player || !isSeatFree(player)) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        code: ErrorCode.SEAT_NOT_AVAILABLE,
+        message: 'That seat is no longer free'
+      }));
+      return;
+    }
+
+    removeSpectator(room, ws);
+    room.connections.set(claim.seatId, ws);
+    if (room.botDecision?.playerId === claim.seatId) clearBotDecision(room);
+    room.chatSentAt.delete(claim.seatId);
+    room.reactedAt.delete(claim.seatId);
+    if (room.mutedPlayers.delete(claim.seatId)) {
+      broadcastToRoom(room.id, { type: 'PLAYER_MUTED', playerId: claim.seatId, muted: false });
+    }
+
+    room.gameState = {
+      ...room.gameState,
+      players: room.gameState.players.map(p => (p.id === claim.seatId
+        ? { ...p, name: claim.name, isAI: false, isBot: false, isConnected: true, aiDifficulty: undefined, aiPersonality: undefined }
+        : p))
+    };
+    persistRoom(room);
+    claim.onSeated(claim.seatId);
+
+    ws.send(JSON.stringify({
+      type: 'SEAT_CLAIMED',
+      ...serializeRoomState(room, claim.seatId),
+      ...roomChat(room),
+      isSpectator: false,
+      // Issuing a token also retires the one the seat's last holder had
+      reconnectToken: issueReconnectToken(room, claim.seatId)
+    }));
+    postSystemMessage(room, `${claim.name} took over ${player.name}'s seat`);
+    console.log(`🪑 ${claim.name} took over ${player.name}'s seat in room ${room.id}`);
+  });
+}
+
+// =============================================================================
+// CHAT
+// =============================================================================
+
+/**
+ * The chat a player sees on joining or rejoining
+ */
+export function roomChat(room: GameRoom): { chat: ChatMessage[]; mutedPlayerIds: string[] } {
+  return { chat: room.chat, mutedPlayerIds: Array.from(room.mutedPlayers) };
+}
+
+// Chat is not a game change, so it rides along with the next snapshot
+// instead of bumping the version HTTP clients poll on
+function appendChat(room: GameRoom, message: ChatMessage): void {
+  room.chat = [...room.chat, message].slice(-CHAT.HISTORY_SIZE);
+  broadcastToRoom(room.id, { type: 'CHAT_MESSAGE', message });
+}
+
+/**
+ * Tell the room something happened, e.g. "Sam disconnected"
+ */
+export function postSystemMessage(room: GameRoom, text: string): void {
+  appendChat(room, {
+    id: randomBytes(8).toString('hex'),
+    playerId: null,
+    playerName: '',
+    message: text,
+    timestamp: Date.now(),
+    isSystem: true
+  });
+}
+
+/**
+ * Relay a seated player's message to the room, unless the host muted them
+ * or they are over the rate limit. The text is already trimmed and length-checked.
+ */
+export function postChat(room: GameRoom, playerId: string, text: string): RoomResult {
+  const player = findPlayer(room, playerId);
+  if (!player) {
+    return { ok: false, code: ErrorCode.PLAYER_NOT_FOUND, message: 'Only seated players can chat' };
+  }
+  if (room.mutedPlayers.has(playerId)) {
+    return { ok: false, code: ErrorCode.CHAT_MUTED, message: 'The host has muted you' };
+  }
+
+  const now = Date.now();
+  const recent = (room.chatSentAt.get(playerId) ?? []).filter(sentAt => now - sentAt < CHAT.RATE_WINDOW);
+  if (recent.length >= CHAT.RATE_LIMIT) {
+    return { ok: false, code: ErrorCode.CHAT_RATE_LIMITED, message: 'You are sending messages too quickly' };
+  }
+  room.chatSentAt.set(playerId, [...recent, now]);
+
+  appendChat(room, {
+    id: randomBytes(8).toString('hex'),
+    playerId,
+    playerName: player.name,
+    message: text,
+    timestamp: now
+  });
+  return { ok: true };
+}
+
+/**
+ * Show a seated player's quick reaction to the table. Reactions are not kept
+ * in the chat history; one sent inside the cooldown, or by a muted player,
+ * is dropped.
+ */
+export function postReaction(room: GameRoom, playerId: string, reaction: ReactionId): boolean {
+  if (!findPlayer(room, playerId) || room.mutedPlayers.has(playerId)) return false;
+
+  const now = Date.now();
+  if (now - (room.reactedAt.get(playerId) ?? 0) < REACTION.COOLDOWN) return false;
+  room.reactedAt.set(playerId, now);
+
+  broadcastToRoom(room.id, { type: 'REACTION', playerId, reaction });
+  return true;
+}
+
+// Only the host moderates the table, and never themselves
+function checkModerator(room: GameRoom, byPlayerId: string, playerId: string): RoomResult {
+  if (room.host !== byPlayerId) {
+    return { ok: false, code: ErrorCode.NOT_HOST, message: 'Only the host can do that' };
+  }
+  if (playerId === byPlayerId) {
+    return { ok: false, code: ErrorCode.INVALID_ACTION, message: "You can't do that to yourself" };
+  }
+  return { ok: true };
+}
+
+/**
+ * Host control: silence or unsilence a player's chat and reactions
+ */
+export function setPlayerMuted(room: GameRoom, byPlayerId: string, playerId: string, muted: boolean): RoomResult {
+  const allowed = checkModerator(room, byPlayerId, playerId);
+  if (!allowed.ok) return allowed;
+  const player = findPlayer(room, playerId);
+  if (!player) {
+    return { ok: false, code: ErrorCode.PLAYER_NOT_FOUND, message: 'Player not found' };
+  }
+  if (room.mutedPlayers.has(playerId) === muted) return { ok: true };
+
+  if (muted) {
+    room.mutedPlayers.add(playerId);
+  } else {
+    room.mutedPlayers.delete(playerId);
+  }
+  broadcastToRoom(room.id, { type: 'PLAYER_MUTED', playerId, muted });
+  postSystemMessage(room, `${player.name} was ${muted ? 'muted' : 'unmuted'} by the host`);
+  return { ok: true };
+}
+
+/**
+ * Host control: take a human or bot out of the room. In setup the seat goes
+ * away; once the game is running, a medium AI plays it out so the table
+ * keeps its shape. The caller closes the kicked player's connection.
+ */
+export function kickPlayer(room: GameRoom, byPlayerId: string, playerId: string): RoomResult {
+  const allowed = checkModerator(room, byPlayerId, playerId);
+  if (!allowed.ok) return allowed;
+  const player = findPlayer(room, playerId);
+  if (!player || player.isAI) {
+    return { ok: false, code: ErrorCode.PLAYER_NOT_FOUND, message: 'Player not found' };
+  }
+
+  if (room.gameState.gamePhase === 'setup') {
+    removeFromRoom(room, playerId);
+    broadcastToRoom(room.id, { type: 'PLAYER_LEFT', playerId });
+  } else {
+    room.connections.delete(playerId);
+    revokeReconnectToken(room, playerId);
+    handSeatToAI(room, playerId, 'medium');
+  }
+
+  postSystemMessage(room, `${player.name} was kicked by the host`);
+  return { ok: true };
+}
+
+/**
+ * Post eliminations and the winner to the room chat
+ */
+function announceGameEvents(room: GameRoom, events: GameEvent[]): void {
+  const nameOf = (playerId: string) => findPlayer(room, playerId)?.name ?? 'A player';
+  events.forEach(event => {
+    if (event.type === 'player_eliminated') {
+      postSystemMessage(room, `${nameOf(event.playerId)} was eliminated with ${event.score} points`);
+    } else if (event.type === 'game_over') {
+      postSystemMessage(room, event.winnerId ? `${nameOf(event.winnerId)} won the game` : 'The game ended with no winner');
+    }
+  });
+}
+
+// =============================================================================
+// LOBBY
+// =============================================================================
+
+// Connections watching the lobby's room list
+const lobbyWatchers = new Set<WebSocket>();
+let lobbyUpdate: NodeJS.Timeout | undefined;
+
+// Seat names for AI that fills out a quick match
+const BACKFILL_NAMES = [
+  'Jack', 'Luke', 'Cole', 'Ryan', 'Jake', 'Tyler', 'Chase', 'Dylan',
+  'Blake', 'Hunter', 'Mason', 'Logan', 'Austin', 'Carter', 'Wyatt', 'Cody'
+];
+
+function lobbyRoom(room: GameRoom): LobbyRoom {
+  return {
+    roomId: room.id,
+    hostName: findPlayer(room, room.host)?.name ?? 'Unknown',
+    playerCount: room.gameState.players.length,
+    maxPlayers: GAME.MAX_PLAYERS,
+    spectatorCount: room.spectators.size,
+    gamePhase: room.gameState.gamePhase,
+    round: room.gameState.round,
+    settings: {
+      startingScore: room.settings.startingScore,
+      turnTimeLimit: room.settings.turnTimeLimit,
+      moneyPerPoint: room.settings.moneyPerPoint,
+      coachAllowed: room.settings.coachAllowed !== false
+    },
+    quickMatch: room.backfillAt !== undefined
+  };
+}
+
+/**
+ * Public rooms that can still be joined or watched. Rooms waiting for
+ * players come first, fullest first, then games already under way.
+ */
+export function listPublicRooms(): LobbyRoom[] {
+  const waiting = (room: GameRoom) => room.gameState.gamePhase === 'setup';
+  return Array.from(rooms.values())
+    .filter(room => room.isPublic && room.gameState.gamePhase !== 'game_over')
+    .sort((a, b) => Number(waiting(b)) - Number(waiting(a))
+      || b.gameState.players.length - a.gameState.players.length
+      || a.createdAt - b.createdAt)
+    .map(lobbyRoom);
+}
+
+export function watchLobby(ws: WebSocket, watching: boolean): void {
+  if (!watching) {
+    lobbyWatchers.delete(ws);
+    return;
+  }
+  lobbyWatchers.add(ws);
+  ws.send(JSON.stringify({ type: 'LOBBY_ROOMS', rooms: listPublicRooms() }));
+}
+
+/**
+ * Send watchers the new room list. Changes are batched over
+ * LOBBY.UPDATE_INTERVAL, since a running game changes with every card.
+ */
+function lobbyChanged(): void {
+  if (lobbyUpdate || lobbyWatchers.size === 0) return;
+
+  lobbyUpdate = setTimeout(() => {
+    lobbyUpdate = undefined;
+    const message = JSON.stringify({ type: 'LOBBY_ROOMS', rooms: listPublicRooms() });
+    lobbyWatchers.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(message);
+    });
+  }, LOBBY.UPDATE_INTERVAL);
+}
+
+/**
+ * Seat a player in the public room closest to starting, or open a new one
+ * for them that AI fills out after LOBBY.BACKFILL_DELAY. The caller wires
+ * up the connection either way.
+ */
+export function quickMatch(player: Player): { room: GameRoom; created: boolean } {
+  const open = Array.from(rooms.values())
+    .filter(room => room.isPublic
+      && room.gameState.gamePhase === 'setup'
+      && room.gameState.players.length < GAME.MAX_PLAYERS
+      && !findPlayer(room, player.id))
+    .sort((a, b) => Number(b.backfillAt !== undefined) - Number(a.backfillAt !== undefined)
+      || b.gameState.players.length - a.gameState.players.length);
+
+  for (const room of open) {
+    if (!joinRoom(room, player).ok) continue;
+    // A full table has nothing left to wait for; this replaces the pending backfill
+    if (room.backfillAt !== undefined && room.gameState.players.length >= GAME.MAX_PLAYERS) {
+      scheduleBackfill(room, TIMING.AI_TURN_DELAY);
+    }
+    return { room, created: false };
+  }
+
+  const room = createRoom(player.id, player.name, false, { ...DEFAULT_SETTINGS }, player.wallet, true);
+  scheduleBackfill(room, LOBBY.BACKFILL_DELAY);
+  return { room, created: true };
+}
+
+function scheduleBackfill(room: GameRoom, delayMs: number): void {
+  clearBackfill(room);
+  room.backfillAt = Date.now() + Math.max(0, delayMs);
+  room.backfillTimer = setTimeout(() => {
+    room.backfillTimer = undefined;
+    backfillRoom(room);
+  }, Math.max(0, delayMs));
+  persistRoom(room);
+}
+
+function clearBackfill(room: GameRoom): void {
+  if (room.backfillTimer) {
+    clearTimeout(room.backfillTimer);
+    room.backfillTimer = undefined;
+  }
+  room.backfillAt = undefined;
+}
+
+/**
+ * Fill a quick match room's empty seats up to the minimum with AI and start
+ * the game. Does nothing if the room is gone or the host already started.
+ */
+function backfillRoom(room: GameRoom): void {
+  if (rooms.get(room.id) !== room || room.gameState.gamePhase !== 'setup') return;
+
+  const taken = new Set(room.gameState.players.map(p => p.name));
+  const names = BACKFILL_NAMES.filter(name => !taken.has(name));
+  const added = Math.max(0, GAME.MIN_PLAYERS - room.gameState.players.length);
+  for (let i = 0; i < added; i++) {
+    addAIToRoom(room, names[i] ?? `AI ${i + 1}`);
+  }
+  if (added > 0) {
+    postSystemMessage(room, `${added} AI player${added > 1 ? 's' : ''} filled the empty seats`);
+  }
+
+  const started = startGame(room);
+  if (!started.ok) {
+    console.error(`❌ Quick match room ${room.id} could not start: ${started.message}`);
+  }
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_ROOM_AGE = 30 * 60 * 1000; // 30 minutes with no connected humans
+const MAX_IDLE_TIME = 2 * 60 * 60 * 1000; // 2 hours without a single change
+
+// The AI game loop plays through the same dispatch and broadcast as everyone
+// else. A move searched for a room that has since been deleted is dropped.
+setApplyGameAction((room, action) => rooms.get(room.id) === room && dispatch(room as GameRoom, action).valid);
+setBroadcastGameState((room) => {
+  if (rooms.get(room.id) === room) broadcastGameState(room as GameRoom);
+});
+
+/**
+ * Bring back rooms saved before the last shutdown and start the stale room
+ * sweep. Called once at startup.
+ */
+export function initRooms(): void {
+  // Bring back rooms that were in progress when the server last stopped
+  restoreRooms().catch(error => console.error('❌ Failed to restore rooms:', error));
+
+  // Periodic room cleanup - runs every 5 minutes to clean up stale rooms
+  setInterval(() => {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    rooms.forEach((room, roomId) => {
+      // Check if room has any connected human players
+      const connectedHumans = room.gameState.players
+        .filter(p => !p.isAI && p.isConnected !== false);
+
+      // Delete room if:
+      // 1. No connected humans AND room is older than MAX_ROOM_AGE
+      // 2. Room is in setup phase with only AI players
+      // 3. Nothing has happened for MAX_IDLE_TIME (HTTP players never disconnect)
+      const roomAge = now - room.createdAt;
+      const shouldCleanup =
+        (connectedHumans.length === 0 && roomAge > MAX_ROOM_AGE) ||
+        (room.gameState.gamePhase === 'setup' && connectedHumans.length === 0 && roomAge > 60000) ||
+        now - room.updatedAt > MAX_IDLE_TIME;
+
+      if (shouldCleanup) {
+        console.log(`🧹 Auto-cleaning stale room ${roomId} (age: ${Math.round(roomAge / 1000)}s, humans: ${connectedHumans.length})`);
+        deleteRoom(roomId);
+        cleanedCount++;
+      }
+    });
+
+    if (cleanedCount > 0) {
+      console.log(`🧹 Cleaned ${cleanedCount} stale rooms. Active rooms: ${rooms.size}`);
+    }
+  }, CLEANUP_INTERVAL);
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { MemRoomStore, PgRoomStore, SqliteRoomStore, type IRoomStore, type RoomSnapshot } from './roomStore';
+import { createTestDb } from './testDb';
+import { addPlayer, applyAction, createGameState } from '@shared/gameEngine';
+import { serializeEngineState } from '@shared/serialization';
+import { DEFAULT_SETTINGS } from '@shared/constants';
+
+// PgRoomStore loads ./db lazily; each test hands it a fresh in-memory Postgres
+const testDb = vi.hoisted(() => ({ current: null as ReturnType<typeof createTestDb> | null }));
+vi.mock('./db', () => ({
+  get db() { return testDb.current!.db; },
+  get pool() { return testDb.current!.pool; }
+}));
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'room-store-'));
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** A room mid-hand, as persistRoom would snapshot it */
+function snapshot(id: string, updatedAt = Date.now()): RoomSnapshot {
+  let state = createGameState();
+  for (const playerId of ['p1', 'p2', 'p3', 'p4']) {
+    state = addPlayer(state, { id: playerId, name: playerId, hand: [], isActive: true, consecutiveSits: 0, isAI: false });
+  }
+  const dealt = applyAction(state, { action: 'deal', payload: { seed: 99 } });
+  if (!dealt.valid) throw new Error(dealt.error);
+
+  return {
+    id,
+    host: 'p1',
+    createdAt: updatedAt - 1000,
+    settings: { ...DEFAULT_SETTINGS },
+    turnTimeLimit: 0,
+    version: 3,
+    reconnectNonces: { p2: 'nonce' },
+    gameState: serializeEngineState(dealt.state),
+    chat: [],
+    mutedPlayerIds: [],
+    isPublic: true,
+    updatedAt
+  };
+}
+
+describe.each([
+  ['MemRoomStore', (): IRoomStore => new MemRoomStore()],
+  ['SqliteRoomStore', (): IRoomStore => new SqliteRoomStore(path.join(fs.mkdtempSync(path.join(tmpDir, 'db-')), 'rooms.sqlite'))],
+  ['PgRoomStore', (): IRoomStore => {
+    testDb.current = createTestDb();
+    return new PgRoomStore();
+  }]
+])('%s', (_name, makeStore) => {
+  it('loads back the rooms it saved, hands and all', async () => {
+    const store = makeStore();
+    const room = snapshot('ROOM01');
+    await store.saveRoom(room);
+    await store.saveRoom(snapshot('ROOM02'));
+
+    const loaded = await store.loadRooms();
+    expect(loaded.map(r => r.id).sort()).toEqual(['ROOM01', 'ROOM02']);
+    expect(loaded.find(r => r.id === 'ROOM01')).toEqual(room);
+  });
+
+  it('replaces a room saved again', async () => {
+    const store = makeStore();
+    await store.saveRoom(snapshot('ROOM01', 1000));
+    const later = { ...snapshot('ROOM01', 2000), version: 4 };
+    await store.saveRoom(later);
+
+    expect(await store.loadRooms()).toEqual([later]);
+  });
+
+  it('forgets deleted rooms', async () => {
+    const store = makeStore();
+    await store.saveRoom(snapshot('ROOM01'));
+    await store.saveRoom(snapshot('ROOM02'));
+    await store.deleteRoom('ROOM01');
+
+    expect((await store.loadRooms()).map(r => r.id)).toEqual(['ROOM02']);
+  });
+});
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { eq } from "drizzle-orm";
+import { roomSnapshots } from "@shared/schema";
+import type { ChatMessage, GameRecording, GameSettings, SerializedEngineState } from "@shared/types";
+
+// Everything needed to bring a WebSocket room back after a restart.
+// Sockets and timers are not persisted - they are rebuilt on rehydration.
+export interface RoomSnapshot {
+  id: string;
+  host: string;
+  createdAt: number;
+  settings: GameSettings;
+  turnTimeLimit: number;
+  gameId?: number; // games row in IStorage once the game has started
+  version?: number; // Change counter, kept so HTTP ETags stay valid across a restart
+  reconnectNonces?: Record<string, string>; // playerId -> nonce of their current reconnect token
+  gameState: SerializedEngineState;
+  recording?: GameRecording; // Actions since the first deal, for the end-of-game replay
+  chat?: ChatMessage[]; // Recent room chat, so it survives a restart too
+  mutedPlayerIds?: string[];
+  isPublic?: boolean; // Listed in the lobby
+  backfillAt?: number; // Quick match rooms still waiting for players
+  updatedAt: number;
+}
+
+// Room store interface, alongside IStorage in storage.ts
+export interface IRoomStore {
+  saveRoom(snapshot: RoomSnapshot): Promise<void>;
+  deleteRoom(roomId: string): Promise<void>;
+  loadRooms(): Promise<RoomSnapshot[]>;
+}
+
+// Keeps nothing across restarts - for tests and throwaway servers
+export class MemRoomStore implements IRoomStore {
+  private rooms = new Map<string, RoomSnapshot>();
+
+  async saveRoom(snapshot: RoomSnapshot): Promise<void> {
+    this.rooms.set(snapshot.id, snapshot);
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+
+  async loadRooms(): Promise<RoomSnapshot[]> {
+    return Array.from(this.rooms.values());
+  }
+}
+
+// Single-file store for self-hosted servers without Postgres
+export class SqliteRoomStore implements IRoomStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS room_snapshots (
+        room_id TEXT PRIMARY KEY,
+        snapshot TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async saveRoom(snapshot: RoomSnapshot): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO room_snapshots (room_id, snapshot, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(room_id) DO UPDATE SET snapshot = excluded.snapshot, updated_at = excluded.updated_at
+      `)
+      .run(snapshot.id, JSON.stringify(snapshot), snapshot.updatedAt);
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    this.db.prepare("DELETE FROM room_snapshots WHERE room_id = ?").run(roomId);
+  }
+
+  async loadRooms(): Promise<RoomSnapshot[]> {
+    const rows = this.db.prepare("SELECT snapshot FROM room_snapshots").all() as { snapshot: string }[];
+    return rows.map(row => JSON.parse(row.snapshot) as RoomSnapshot);
+  }
+}
+
+// Postgres store using the shared drizzle schema (room_snapshots table)
+export class PgRoomStore implements IRoomStore {
+  // Imported lazily so servers without DATABASE_URL never load the driver
+  private async db() {
+    return (await import("./db")).db;
+  }
+
+  async saveRoom(snapshot: RoomSnapshot): Promise<void> {
+    const db = await this.db();
+    const values = {
+      roomId: snapshot.id,
+      snapshot,
+      updatedAt: new Date(snapshot.updatedAt),
+    };
+    await db
+      .insert(roomSnapshots)
+      .values(values)
+      .onConflictDoUpdate({
+        target: roomSnapshots.roomId,
+        set: { snapshot: values.snapshot, updatedAt: values.updatedAt },
+      });
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    const db = await this.db();
+    await db.delete(roomSnapshots).where(eq(roomSnapshots.roomId, roomId));
+  }
+
+  async loadRooms(): Promise<RoomSnapshot[]> {
+    const db = await this.db();
+    const rows = await db.select().from(roomSnapshots);
+    return rows.map(row => row.snapshot as RoomSnapshot);
+  }
+}
+
+/**
+ * Pick the room store from the environment:
+ * ROOM_STORE=memory|sqlite|postgres, otherwise Postgres when DATABASE_URL is
+ * set and a SQLite file (ROOM_DB_PATH, default data/rooms.sqlite) when not.
+ */
+function createRoomStore(): IRoomStore {
+  const kind = process.env.ROOM_STORE || (process.env.DATABASE_URL ? "postgres" : "sqlite");
+
+  switch (kind) {
+    case "memory":
+      return new MemRoomStore();
+    case "postgres":
+      return new PgRoomStore();
+    case "sqlite":
+      return new SqliteRoomStore(process.env.ROOM_DB_PATH || path.join("data", "rooms.sqlite"));
+    default:
+      throw new Error(`Unknown ROOM_STORE "${kind}" (expected memory, sqlite or postgres)`);
+  }
+}
+
+export const roomStore = createRoomStore();
@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { registerRoutes } from './routes';
+import { deleteRoom, getRoom } from './roomManager';
+
+let server: Server;
+let baseUrl: string;
+const openRooms: string[] = [];
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+  openRooms.splice(0).forEach(id => deleteRoom(id));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+async function api(path: string, init: { method?: string; token?: string; headers?: Record<string, string>; body?: unknown } = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+      ...init.headers
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+}
+
+/** A fresh room with the caller as host */
+async function createGame() {
+  const res = await api('/api/games', { method: 'POST', body: { playerName: 'Host' } });
+  expect(res.status).toBe(201);
+  const body = await res.json();
+  openRooms.push(body.gameCode);
+  return { code: body.gameCode as string, token: body.token as string, etag: res.headers.get('etag')! };
+}
+
+describe('creating a game', () => {
+  it('refuses rule settings outside the ranges the settings screen offers', async () => {
+    for (const settings of [{ startingScore: 0 }, { eliminationScore: 1e9 }, { turnTimeLimit: 3600 }, { winningScore: 1.5 }]) {
+      const res = await api('/api/games', { method: 'POST', body: { playerName: 'Host', settings } });
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it('plays by the settings it was given', async () => {
+    const res = await api('/api/games', { method: 'POST', body: { playerName: 'Host', settings: { startingScore: 10, turnTimeLimit: 60 } } });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    openRooms.push(body.gameCode);
+    expect(getRoom(body.gameCode)!.settings).toMatchObject({ startingScore: 10, turnTimeLimit: 60 });
+  });
+});
+
+describe('room state', () => {
+  it('tags the state with the room version', async () => {
+    const { code, token, etag } = await createGame();
+    const res = await api(`/api/games/${code}`, { token });
+    const body = await res.json();
+    expect(res.headers.get('etag')).toBe(etag);
+    expect(etag).toBe(`"${body.version}"`);
+  });
+
+  it('needs a seat token', async () => {
+    const { code } = await createGame();
+    expect((await api(`/api/games/${code}`)).status).toBe(401);
+    expect((await api(`/api/games/${code}`, { token: 'forged' })).status).toBe(401);
+  });
+
+  it('answers 304 when the caller already has the current version', async () => {
+    const { code, token, etag } = await createGame();
+    const res = await api(`/api/games/${code}`, { token, headers: { 'If-None-Match': etag } });
+    expect(res.status).toBe(304);
+    expect(res.headers.get('etag')).toBe(etag);
+  });
+});
+
+describe('long-polling', () => {
+  it('holds the request until the room changes', async () => {
+    const { code, token, etag } = await createGame();
+    const polled = api(`/api/games/${code}?wait=10`, { token, headers: { 'If-None-Match': etag } });
+
+    const added = await api(`/api/games/${code}/ai`, { method: 'POST', token, body: { name: 'Robo' } });
+    expect(added.status).toBe(200);
+
+    const res = await polled;
+    expect(res.status).toBe(200);
+    expect(res.headers.get('etag')).not.toBe(etag);
+    expect((await res.json()).players.map((p: { name: string }) => p.name)).toContain('Robo');
+  });
+
+  it('answers 304 when nothing changed before the wait ran out', async () => {
+    const { code, token } = await createGame();
+    const version = (await (await api(`/api/games/${code}`, { token })).json()).version;
+
+    const startedAt = Date.now();
+    const res = await api(`/api/games/${code}?wait=1&since=${version}`, { token });
+    expect(res.status).toBe(304);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+  });
+});
+
+describe('actions', () => {
+  it('refuses a move made against a stale ETag', async () => {
+    const { code, token, etag } = await createGame();
+    await api(`/api/games/${code}/ai`, { method: 'POST', token, body: { name: 'Robo' } });
+
+    const res = await api(`/api/games/${code}/actions`, {
+      method: 'POST',
+      token,
+      headers: { 'If-Match': etag },
+      body: { action: 'bid', payload: { bid: 2 } }
+    });
+    expect(res.status).toBe(412);
+    expect(res.headers.get('etag')).not.toBe(etag);
+  });
+});
@@ -1,234 +1,273 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
 import { z } from "zod";
+import { setupAuth } from "./auth";
+import {
+  getRoom,
+  createRoom,
+  createPlayer,
+  userPlayerId,
+  guestPlayerId,
+  findPlayer,
+  joinRoom,
+  addAIToRoom,
+  startGame,
+  submitAction,
+  serializeRoomState,
+  issueReconnectToken,
+  verifyReconnectToken,
+  waitForRoomChange,
+  listPublicRooms,
+  type GameRoom,
+} from "./roomManager";
+import { parseGameAction, AIDifficultySchema, AIPersonalitySchema, GameSettingsSchema } from "@shared/validation";
+import { ErrorCode } from "@shared/messages";
+import { DEFAULT_SETTINGS } from "@shared/constants";
+import type { EngineAction, GameSettings } from "@shared/types";
+
+// HTTP play API - the same rooms and rules engine as the WebSocket server,
+// for bots and scripts that can't hold a socket open.
+// Seats authenticate with the token returned on create/join (Authorization: Bearer <token>)
+// or, for logged-in players, their session cookie.
 
-// Game state validation schemas
 const CreateGameSchema = z.object({
-  playerName: z.string().min(1).max(50),
-  maxPlayers: z.number().min(4).max(8).default(8)
+  playerName: z.string().min(1).max(20).optional(),
+  settings: GameSettingsSchema.optional(),
+  isPublic: z.boolean().default(false)
 });
 
 const JoinGameSchema = z.object({
-  gameCode: z.string().length(6),
-  playerName: z.string().min(1).max(50)
+  playerName: z.string().min(1).max(20).optional()
 });
 
-const GameActionSchema = z.object({
-  gameCode: z.string().length(6),
-  playerId: z.string(),
-  action: z.enum(['bid', 'trump', 'sitpass', 'playcard']),
-  data: z.any()
+const AddAISchema = z.object({
+  name: z.string().min(1).max(20).default("AI Player"),
+  difficulty: AIDifficultySchema.default("medium"),
+  personality: AIPersonalitySchema.default("balanced")
 });
 
-function generateGameCode(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+const MAX_WAIT_SECONDS = 30;
+
+function sendError(res: Response, status: number, error: string, code?: string) {
+  res.status(status).json({ success: false, error, code });
+}
+
+function etagFor(room: GameRoom): string {
+  return `"${room.version}"`;
+}
+
+/**
+ * The seat this request acts for: the one named by its bearer token,
+ * otherwise the logged-in account's seat. Null for anyone else.
+ */
+function getSeat(req: Request, room: GameRoom): string | null {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) {
+    return verifyReconnectToken(room, auth.slice("Bearer ".length).trim());
+  }
+  if (req.user) {
+    const playerId = userPlayerId(req.user.id);
+    return findPlayer(room, playerId) ? playerId : null;
+  }
+  return null;
+}
+
+/**
+ * Room state for one seat, tagged with the room version as its ETag
+ */
+function sendRoomState(res: Response, room: GameRoom, playerId: string, extra: Record<string, unknown> = {}, status = 200) {
+  res.setHeader("ETag", etagFor(room));
+  res.setHeader("Vary", "Authorization, Cookie");
+  res.status(status).json({
+    success: true,
+    version: room.version,
+    ...serializeRoomState(room, playerId),
+    ...extra
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Create a new game
-  app.post("/api/games", async (req, res) => {
-    try {
-      const { playerName, maxPlayers } = CreateGameSchema.parse(req.body);
-      
-      const gameCode = generateGameCode();
-      const game = await storage.createGame({
-        gameCode,
-        maxPlayers: maxPlayers || 8,
-        hostId: null, // For now, no user system
-        status: "waiting"
-      });
-      
-      // Add the creator as first player
-      const player = await storage.addPlayerToGame(game.id, {
-        playerName,
-        userId: null
-      });
-      
-      res.json({ 
-        success: true, 
-        game: {
-          ...game,
-          players: [player]
-        }
-      });
-    } catch (error) {
-      console.error("Create game error:", error);
-      res.status(400).json({ 
-        success: false, 
-        error: error instanceof Error ? error.message : "Failed to create game" 
-      });
+  // Accounts: /api/register, /api/login, /api/logout, /api/user
+  await setupAuth(app);
+
+  // Open public rooms, the same list lobby watchers get over the WebSocket
+  app.get("/api/rooms", (_req, res) => {
+    res.json({ success: true, rooms: listPublicRooms() });
+  });
+
+  // Create a room with the caller in the host seat
+  app.post("/api/games", (req, res) => {
+    const parsed = CreateGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.errors[0].message, ErrorCode.INVALID_MESSAGE);
     }
+
+    const playerName = req.user?.username ?? parsed.data.playerName;
+    if (!playerName) {
+      return sendError(res, 400, "playerName is required", ErrorCode.INVALID_MESSAGE);
+    }
+
+    const playerId = req.user ? userPlayerId(req.user.id) : guestPlayerId();
+    const settings: GameSettings = { ...DEFAULT_SETTINGS, ...parsed.data.settings };
+    const room = createRoom(playerId, playerName, false, settings, req.user?.wallet, parsed.data.isPublic);
+
+    sendRoomState(res, room, playerId, {
+      gameCode: room.id,
+      token: issueReconnectToken(room, playerId)
+    }, 201);
   });
 
-  // Join an existing game
-  app.post("/api/games/join", async (req, res) => {
-    try {
-      const { gameCode, playerName } = JoinGameSchema.parse(req.body);
-      
-      const game = await storage.getGameByCode(gameCode);
-      if (!game) {
-        return res.status(404).json({ success: false, error: "Game not found" });
-      }
-      
-      if (game.status !== "waiting") {
-        return res.status(400).json({ success: false, error: "Game already started" });
+  // Take a seat in a room that hasn't started
+  app.post("/api/games/:gameCode/join", (req, res) => {
+    const room = getRoom(req.params.gameCode.toUpperCase());
+    if (!room) {
+      return sendError(res, 404, "Game not found", ErrorCode.ROOM_NOT_FOUND);
+    }
+
+    const parsed = JoinGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.errors[0].message, ErrorCode.INVALID_MESSAGE);
+    }
+
+    // A logged-in account that is already seated gets its seat back
+    const playerId = req.user ? userPlayerId(req.user.id) : guestPlayerId();
+    if (!findPlayer(room, playerId)) {
+      const playerName = req.user?.username ?? parsed.data.playerName;
+      if (!playerName) {
+        return sendError(res, 400, "playerName is required", ErrorCode.INVALID_MESSAGE);
       }
-      
-      if (game.currentPlayers >= game.maxPlayers) {
-        return res.status(400).json({ success: false, error: "Game is full" });
+
+      const joined = joinRoom(room, createPlayer(playerId, playerName, false, req.user?.wallet));
+      if (!joined.ok) {
+        return sendError(res, 409, joined.message, joined.code);
       }
-      
-      const player = await storage.addPlayerToGame(game.id, {
-        playerName,
-        userId: null
-      });
-      
-      const updatedGame = await storage.getGameById(game.id);
-      const players = await storage.getGamePlayers(game.id);
-      
-      res.json({ 
-        success: true, 
-        game: updatedGame,
-        players,
-        playerId: player.id
-      });
-    } catch (error) {
-      console.error("Join game error:", error);
-      res.status(400).json({ 
-        success: false, 
-        error: error instanceof Error ? error.message : "Failed to join game" 
-      });
     }
+
+    sendRoomState(res, room, playerId, {
+      gameCode: room.id,
+      token: issueReconnectToken(room, playerId)
+    });
   });
 
-  // Get game state
+  // Current state for the caller's seat.
+  // Long-poll with ?wait=<seconds> plus If-None-Match (or ?since=<version>):
+  // the response is held until the room changes, then 304 if it never did.
   app.get("/api/games/:gameCode", async (req, res) => {
-    try {
-      const { gameCode } = req.params;
-      
-      const game = await storage.getGameByCode(gameCode);
-      if (!game) {
-        return res.status(404).json({ success: false, error: "Game not found" });
+    const room = getRoom(req.params.gameCode.toUpperCase());
+    if (!room) {
+      return sendError(res, 404, "Game not found", ErrorCode.ROOM_NOT_FOUND);
+    }
+
+    const playerId = getSeat(req, room);
+    if (!playerId) {
+      return sendError(res, 401, "A seat token is required", ErrorCode.PLAYER_NOT_FOUND);
+    }
+
+    const waitSeconds = Math.min(Number(req.query.wait) || 0, MAX_WAIT_SECONDS);
+    const knownVersion = req.query.since !== undefined
+      ? Number(req.query.since)
+      : req.headers["if-none-match"] === etagFor(room) ? room.version : null;
+
+    if (waitSeconds > 0 && knownVersion === room.version) {
+      await waitForRoomChange(room, knownVersion, waitSeconds * 1000);
+      if (getRoom(room.id) !== room) {
+        return sendError(res, 404, "Game has ended", ErrorCode.ROOM_CLOSED);
       }
-      
-      const players = await storage.getGamePlayers(game.id);
-      
-      res.json({ 
-        success: true, 
-        game: {
-          ...game,
-          gameState: game.gameState ? JSON.parse(game.gameState) : null
-        },
-        players 
-      });
-    } catch (error) {
-      console.error("Get game error:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: error instanceof Error ? error.message : "Failed to get game" 
-      });
     }
+
+    if (knownVersion === room.version) {
+      res.setHeader("ETag", etagFor(room));
+      return res.status(304).end();
+    }
+
+    sendRoomState(res, room, playerId);
+  });
+
+  // Host only: fill a seat with an AI player
+  app.post("/api/games/:gameCode/ai", (req, res) => {
+    const room = getRoom(req.params.gameCode.toUpperCase());
+    if (!room) {
+      return sendError(res, 404, "Game not found", ErrorCode.ROOM_NOT_FOUND);
+    }
+
+    const playerId = getSeat(req, room);
+    if (!playerId) {
+      return sendError(res, 401, "A seat token is required", ErrorCode.PLAYER_NOT_FOUND);
+    }
+    if (room.host !== playerId) {
+      return sendError(res, 403, "Only the host can add AI players", ErrorCode.NOT_HOST);
+    }
+
+    const parsed = AddAISchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.errors[0].message, ErrorCode.INVALID_MESSAGE);
+    }
+
+    const added = addAIToRoom(room, parsed.data.name, parsed.data.difficulty, parsed.data.personality);
+    if (!added.ok) {
+      return sendError(res, 409, added.message, added.code);
+    }
+
+    sendRoomState(res, room, playerId);
   });
 
-  // Start game
-  app.post("/api/games/:gameCode/start", async (req, res) => {
-    try {
-      const { gameCode } = req.params;
-      
-      const game = await storage.getGameByCode(gameCode);
-      if (!game) {
-        return res.status(404).json({ success: false, error: "Game not found" });
-      }
-      
-      if (game.currentPlayers < 4) {
-        return res.status(400).json({ success: false, error: "Need at least 4 players to start" });
-      }
-      
-      // Initialize game state
-      const initialGameState = {
-        phase: 'bidding',
-        round: 1,
-        dealerIndex: 0,
-        currentPlayerIndex: 1,
-        bids: {},
-        trumpSuit: null,
-        highestBidder: null,
-        playingPlayers: [],
-        currentTrick: [],
-        completedTricks: []
-      };
-      
-      const updatedGame = await storage.updateGameState(game.id, "active", initialGameState);
-      
-      res.json({ success: true, game: updatedGame });
-    } catch (error) {
-      console.error("Start game error:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: error instanceof Error ? error.message : "Failed to start game" 
-      });
+  // Host only: deal the first hand
+  app.post("/api/games/:gameCode/start", (req, res) => {
+    const room = getRoom(req.params.gameCode.toUpperCase());
+    if (!room) {
+      return sendError(res, 404, "Game not found", ErrorCode.ROOM_NOT_FOUND);
+    }
+
+    const playerId = getSeat(req, room);
+    if (!playerId) {
+      return sendError(res, 401, "A seat token is required", ErrorCode.PLAYER_NOT_FOUND);
+    }
+    if (room.host !== playerId) {
+      return sendError(res, 403, "Only the host can start the game", ErrorCode.NOT_HOST);
     }
+
+    const started = startGame(room);
+    if (!started.ok) {
+      return sendError(res, 409, started.message, started.code);
+    }
+
+    sendRoomState(res, room, playerId);
   });
 
-  // Game action endpoint (bid, trump selection, sit/pass, play card)
-  app.post("/api/games/action", async (req, res) => {
-    try {
-      const { gameCode, playerId, action, data } = GameActionSchema.parse(req.body);
-      
-      const game = await storage.getGameByCode(gameCode);
-      if (!game) {
-        return res.status(404).json({ success: false, error: "Game not found" });
-      }
-      
-      if (game.status !== "active") {
-        return res.status(400).json({ success: false, error: "Game not active" });
-      }
-      
-      // Parse current game state
-      const gameState = game.gameState ? JSON.parse(game.gameState) : {};
-      
-      // Process action based on type
-      switch (action) {
-        case 'bid':
-          gameState.bids = gameState.bids || {};
-          gameState.bids[playerId] = data.bid;
-          // Logic to determine if bidding is complete and move to next phase
-          break;
-          
-        case 'trump':
-          gameState.trumpSuit = data.suit;
-          gameState.phase = 'sit_pass';
-          break;
-          
-        case 'sitpass':
-          gameState.playingPlayers = gameState.playingPlayers || [];
-          if (data.decision === 'play') {
-            gameState.playingPlayers.push(playerId);
-          }
-          break;
-          
-        case 'playcard':
-          gameState.currentTrick = gameState.currentTrick || [];
-          gameState.currentTrick.push({
-            playerId,
-            card: data.card
-          });
-          break;
-      }
-      
-      // Update game state in storage
-      const updatedGame = await storage.updateGameState(game.id, game.status, gameState);
-      
-      res.json({ success: true, gameState });
-    } catch (error) {
-      console.error("Game action error:", error);
-      res.status(400).json({ 
-        success: false, 
-        error: error instanceof Error ? error.message : "Failed to process game action" 
-      });
+  // Play a move: { action: 'bid' | 'trump' | 'sitpass' | 'playcard' | 'penalty', payload }.
+  // payload.playerId defaults to the caller's seat. Send If-Match with the last
+  // ETag to have the move refused (412) if the table changed in the meantime.
+  app.post("/api/games/:gameCode/actions", (req, res) => {
+    const room = getRoom(req.params.gameCode.toUpperCase());
+    if (!room) {
+      return sendError(res, 404, "Game not found", ErrorCode.ROOM_NOT_FOUND);
+    }
+
+    const playerId = getSeat(req, room);
+    if (!playerId) {
+      return sendError(res, 401, "A seat token is required", ErrorCode.PLAYER_NOT_FOUND);
     }
+
+    const ifMatch = req.headers["if-match"];
+    if (ifMatch && ifMatch !== etagFor(room)) {
+      res.setHeader("ETag", etagFor(room));
+      return sendError(res, 412, "Game state has changed", ErrorCode.INVALID_ACTION);
+    }
+
+    const parsed = parseGameAction({
+      action: req.body?.action,
+      payload: { playerId, ...req.body?.payload }
+    });
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error, ErrorCode.INVALID_MESSAGE);
+    }
+
+    const result = submitAction(room, playerId, parsed.data as EngineAction);
+    if (!result.valid) {
+      return sendError(res, 400, result.error, result.code);
+    }
+
+    sendRoomState(res, room, playerId);
   });
 
   const httpServer = createServer(app);
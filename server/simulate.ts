@@ -0,0 +1,77 @@
+// Simulation CLI: run headless AI games and report how each strategy did.
+//
+//   npm run simulate -- --games 2000 --players hard,medium,easy,random --seed 42
+//
+// --players takes 4-8 comma-separated strategies: names registered in
+// shared/ai/strategy.ts (a difficulty, a personality, or both as hard-ganger),
+// expert:<n> for the expert searching n deals a decision with no time limit
+// (so runs are reproducible), or paths to modules whose default export is a
+// Strategy.
+// --json prints the raw report instead of the table.
+
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { getStrategy, type Strategy } from '@shared/ai/strategy';
+import { createExpertStrategy } from '@shared/ai/expertStrategy';
+import { runTournament, formatReport, type SimulationEntry } from './ai/simulation';
+import { GAME } from '@shared/constants';
+
+const STRATEGY_METHODS = ['bid', 'chooseTrump', 'sitOrPlay', 'playCard', 'choosePenalty'] as const;
+
+async function loadStrategy(spec: string): Promise<Strategy> {
+  const registered = getStrategy(spec);
+  if (registered) return registered;
+
+  const expert = /^expert:(\d+)$/.exec(spec);
+  if (expert) return createExpertStrategy({ iterations: Number(expert[1]), timeMs: Infinity });
+
+  const module = await import(pathToFileURL(resolve(spec)).href);
+  const strategy = module.default ?? module.strategy;
+  const missing = STRATEGY_METHODS.filter(method => typeof strategy?.[method] !== 'function');
+  if (missing.length > 0) {
+    throw new Error(`${spec} does not export a Strategy (missing ${missing.join(', ')})`);
+  }
+  return strategy;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: 'string', default: '1000' },
+      players: { type: 'string', default: 'heuristic,heuristic,heuristic,heuristic' },
+      seed: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    }
+  });
+
+  const games = Number(values.games);
+  if (!Number.isInteger(games) || games < 1) {
+    throw new Error('--games must be a positive whole number');
+  }
+
+  const specs = values.players!.split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length < GAME.MIN_PLAYERS || specs.length > GAME.MAX_PLAYERS) {
+    throw new Error(`--players needs ${GAME.MIN_PLAYERS}-${GAME.MAX_PLAYERS} strategies, got ${specs.length}`);
+  }
+
+  const entries: SimulationEntry[] = await Promise.all(
+    specs.map(async spec => ({ name: spec, strategy: await loadStrategy(spec) }))
+  );
+  const seed = values.seed !== undefined ? Number(values.seed) : Date.now() % 2 ** 32;
+
+  const startedAt = Date.now();
+  const report = await runTournament(entries, games, seed);
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatReport(report));
+    console.log(`\n(${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DbStorage, MemStorage, type IStorage } from './storage';
+import { createTestDb } from './testDb';
+import type { RoundHistory } from '@shared/types';
+
+// DbStorage loads ./db lazily; each test hands it a fresh in-memory Postgres
+const testDb = vi.hoisted(() => ({ current: null as ReturnType<typeof createTestDb> | null }));
+vi.mock('./db', () => ({
+  get db() { return testDb.current!.db; },
+  get pool() { return testDb.current!.pool; }
+}));
+
+const round: RoundHistory = {
+  round: 1,
+  seed: 4000000000,
+  bids: new Map([['p1', 3], ['p2', 0]]),
+  trumpSuit: 'hearts',
+  highestBidder: 'p1',
+  playingPlayers: ['p1', 'p2'],
+  tricksWon: new Map([['p1', 3], ['p2', 2]]),
+  scoreChanges: new Map([['p1', -3], ['p2', -2]]),
+  finalScores: new Map([['p1', 13], ['p2', 14]]),
+  punts: new Map(),
+  sitDecisions: new Map([['p2', 'play']]),
+  dealtHands: new Map([['p1', [{ suit: 'hearts', rank: 'A', value: 14 }]]]),
+  tricks: []
+};
+
+describe.each([
+  ['MemStorage', async (): Promise<IStorage> => new MemStorage()],
+  ['DbStorage', async (): Promise<IStorage> => {
+    testDb.current = createTestDb();
+    return new DbStorage();
+  }]
+])('%s', (_name, makeStorage) => {
+  describe('accounts', () => {
+    it('creates a user with the starting wallet and no games', async () => {
+      const storage = await makeStorage();
+      const user = await storage.createUser({ username: 'alice', password: 'hash' });
+      expect(user).toMatchObject({ username: 'alice', wallet: 100, gamesPlayed: 0, gamesWon: 0 });
+      expect(await storage.getUserByUsername('alice')).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername('nobody')).toBeUndefined();
+    });
+
+    it('keeps fractional payouts to the cent', async () => {
+      const storage = await makeStorage();
+      const user = await storage.createUser({ username: 'bob', password: 'hash' });
+      await storage.recordGameResult(user.id, { won: false, moneyChange: -4.25 });
+      await storage.recordGameResult(user.id, { won: false, moneyChange: -0.1 });
+      const updated = await storage.recordGameResult(user.id, { won: true, moneyChange: 7.5 });
+      expect(updated).toMatchObject({ wallet: 103.15, gamesPlayed: 3, gamesWon: 1 });
+      expect((await storage.getUser(user.id))!.wallet).toBe(103.15);
+    });
+
+    it('records nothing for an unknown user', async () => {
+      const storage = await makeStorage();
+      expect(await storage.recordGameResult(999, { won: true, moneyChange: 5 })).toBeUndefined();
+    });
+  });
+
+  describe('games', () => {
+    it('creates a game, seats players and counts them', async () => {
+      const storage = await makeStorage();
+      const host = await storage.createUser({ username: 'host', password: 'hash' });
+      const game = await storage.createGame({ gameCode: 'ABC123', maxPlayers: 8, hostId: host.id, status: 'waiting' });
+
+      await storage.addPlayerToGame(game.id, { playerName: 'host', userId: host.id });
+      await storage.addPlayerToGame(game.id, { playerName: 'Guest', userId: null });
+
+      expect((await storage.getGamePlayers(game.id)).map(p => p.playerName)).toEqual(['host', 'Guest']);
+      expect(await storage.getGameByCode('ABC123')).toMatchObject({ id: game.id, currentPlayers: 2, hostId: host.id });
+    });
+
+    it('refuses players for a game that does not exist', async () => {
+      const storage = await makeStorage();
+      await expect(storage.addPlayerToGame(999, { playerName: 'Lost', userId: null })).rejects.toThrow('Game not found');
+    });
+
+    it('stores the game state and status', async () => {
+      const storage = await makeStorage();
+      const game = await storage.createGame({ gameCode: 'XYZ789', maxPlayers: 4, hostId: null, status: 'waiting' });
+      await storage.updateGameState(game.id, 'finished', { winnerId: 'p1' });
+
+      const stored = await storage.getGameById(game.id);
+      expect(stored).toMatchObject({ status: 'finished' });
+      expect(JSON.parse(stored!.gameState!)).toEqual({ winnerId: 'p1' });
+    });
+
+    it('returns finished rounds as they were recorded', async () => {
+      const storage = await makeStorage();
+      const game = await storage.createGame({ gameCode: 'RND001', maxPlayers: 4, hostId: null, status: 'active' });
+      const second = { ...round, round: 2, finalWallets: new Map([['p1', 101.25], ['p2', 98.75]]) };
+      await storage.addRound(game.id, round);
+      await storage.addRound(game.id, second);
+
+      expect(await storage.getRounds(game.id)).toEqual([
+        expect.objectContaining(round),
+        expect.objectContaining(second)
+      ]);
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { eq, asc, sql } from "drizzle-orm";
+import { users, games, gamePlayers, gameRounds, type User, type InsertUser } from "@shared/schema";
+import type { RoundHistory, SerializedRoundHistory } from "@shared/types";
+import { serializeRoundHistory, deserializeRoundHistory } from "@shared/serialization";
 
 // Game-related types for REST API (note: main game logic uses WebSockets)
 interface Game {
@@ -32,12 +35,18 @@ interface AddPlayerInput {
   userId: number | null;
 }
 
+interface GameResultInput {
+  won: boolean;
+  moneyChange: number;
+}
+
 // Storage interface with CRUD methods
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  recordGameResult(userId: number, result: GameResultInput): Promise<User | undefined>;
   // Game methods (for REST API - main game uses WebSockets)
   createGame(input: CreateGameInput): Promise<Game>;
   getGameByCode(gameCode: string): Promise<Game | undefined>;
@@ -45,12 +54,16 @@ export interface IStorage {
   getGamePlayers(gameId: number): Promise<GamePlayer[]>;
   addPlayerToGame(gameId: number, input: AddPlayerInput): Promise<GamePlayer>;
   updateGameState(gameId: number, status: string, gameState: any): Promise<Game>;
+  // Round history (one entry per finished round)
+  addRound(gameId: number, round: RoundHistory): Promise<void>;
+  getRounds(gameId: number): Promise<RoundHistory[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private games: Map<number, Game>;
   private gamePlayers: Map<number, GamePlayer[]>;
+  private rounds: Map<number, SerializedRoundHistory[]>;
   currentId: number;
   currentGameId: number;
 
@@ -58,6 +71,7 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.games = new Map();
     this.gamePlayers = new Map();
+    this.rounds = new Map();
     this.currentId = 1;
     this.currentGameId = 1;
   }
@@ -75,11 +89,29 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      wallet: 100,
+      gamesPlayed: 0,
+      gamesWon: 0,
+      createdAt: new Date()
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async recordGameResult(userId: number, result: GameResultInput): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    // Whole cents, as the numeric wallet column keeps them
+    user.wallet = Math.round((user.wallet + result.moneyChange) * 100) / 100;
+    user.gamesPlayed += 1;
+    if (result.won) user.gamesWon += 1;
+    return user;
+  }
+
   // Game methods (for REST API - primary game management uses WebSockets)
   async createGame(input: CreateGameInput): Promise<Game> {
     const id = this.currentGameId++;
@@ -149,6 +181,214 @@ export class MemStorage implements IStorage {
 
     return game;
   }
+
+  // Round history methods - stored serialized so callers can't mutate them
+  async addRound(gameId: number, round: RoundHistory): Promise<void> {
+    const rounds = this.rounds.get(gameId) || [];
+    rounds.push(serializeRoundHistory(round));
+    this.rounds.set(gameId, rounds);
+  }
+
+  async getRounds(gameId: number): Promise<RoundHistory[]> {
+    return (this.rounds.get(gameId) || []).map(deserializeRoundHistory);
+  }
+}
+
+type GameRow = typeof games.$inferSelect;
+type GamePlayerRow = typeof gamePlayers.$inferSelect;
+type GameRoundRow = typeof gameRounds.$inferSelect;
+
+function toGame(row: GameRow): Game {
+  return {
+    id: row.id,
+    gameCode: row.gameCode,
+    maxPlayers: row.maxPlayers,
+    currentPlayers: row.currentPlayers,
+    hostId: row.hostId,
+    status: row.status as Game['status'],
+    gameState: row.gameState,
+    createdAt: row.createdAt ?? new Date()
+  };
+}
+
+function toGamePlayer(row: GamePlayerRow): GamePlayer {
+  return {
+    id: String(row.id),
+    gameId: row.gameId!,
+    playerName: row.playerName,
+    userId: row.userId,
+    joinedAt: row.joinedAt ?? new Date()
+  };
+}
+
+function toRoundHistory(row: GameRoundRow): RoundHistory {
+  return deserializeRoundHistory({
+    round: row.round,
+    seed: row.seed ?? undefined,
+    trumpSuit: row.trumpSuit as SerializedRoundHistory['trumpSuit'],
+    highestBidder: row.highestBidder,
+    bids: row.bids as Record<string, number>,
+    playingPlayers: row.playingPlayers as string[],
+    tricksWon: row.tricksWon as Record<string, number>,
+    scoreChanges: row.scoreChanges as Record<string, number>,
+    finalScores: row.finalScores as Record<string, number>,
+    punts: (row.punts ?? undefined) as Record<string, number> | undefined,
+    moneyChanges: (row.moneyChanges ?? undefined) as Record<string, number> | undefined,
+    finalWallets: (row.finalWallets ?? undefined) as Record<string, number> | undefined,
+    dealtHands: (row.dealtHands ?? undefined) as SerializedRoundHistory['dealtHands'],
+    sitDecisions: (row.sitDecisions ?? undefined) as SerializedRoundHistory['sitDecisions'],
+    tricks: (row.tricks ?? undefined) as SerializedRoundHistory['tricks']
+  });
+}
+
+// Postgres storage via Drizzle (tables in shared/schema.ts, migrations in migrations/)
+export class DbStorage implements IStorage {
+  // Imported lazily so servers without DATABASE_URL never load the driver
+  private async db() {
+    return (await import("./db")).db;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await this.db();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.db();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.db();
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async recordGameResult(userId: number, result: GameResultInput): Promise<User | undefined> {
+    const db = await this.db();
+    // Increment in SQL so two games finishing at once can't lose an update
+    const [user] = await db
+      .update(users)
+      .set({
+        wallet: sql`${users.wallet} + ${result.moneyChange}`,
+        gamesPlayed: sql`${users.gamesPlayed} + 1`,
+        gamesWon: sql`${users.gamesWon} + ${result.won ? 1 : 0}`
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Game methods
+  async createGame(input: CreateGameInput): Promise<Game> {
+    const db = await this.db();
+    const [row] = await db
+      .insert(games)
+      .values({
+        gameCode: input.gameCode,
+        maxPlayers: input.maxPlayers,
+        hostId: input.hostId,
+        status: input.status
+      })
+      .returning();
+    return toGame(row);
+  }
+
+  async getGameByCode(gameCode: string): Promise<Game | undefined> {
+    const db = await this.db();
+    const [row] = await db.select().from(games).where(eq(games.gameCode, gameCode));
+    return row ? toGame(row) : undefined;
+  }
+
+  async getGameById(id: number): Promise<Game | undefined> {
+    const db = await this.db();
+    const [row] = await db.select().from(games).where(eq(games.id, id));
+    return row ? toGame(row) : undefined;
+  }
+
+  async getGamePlayers(gameId: number): Promise<GamePlayer[]> {
+    const db = await this.db();
+    const rows = await db
+      .select()
+      .from(gamePlayers)
+      .where(eq(gamePlayers.gameId, gameId))
+      .orderBy(asc(gamePlayers.id));
+    return rows.map(toGamePlayer);
+  }
+
+  async addPlayerToGame(gameId: number, input: AddPlayerInput): Promise<GamePlayer> {
+    const db = await this.db();
+    return db.transaction(async (tx) => {
+      const [game] = await tx.select().from(games).where(eq(games.id, gameId));
+      if (!game) {
+        throw new Error('Game not found');
+      }
+
+      const [row] = await tx
+        .insert(gamePlayers)
+        .values({ gameId, playerName: input.playerName, userId: input.userId })
+        .returning();
+
+      // Update current player count
+      await tx
+        .update(games)
+        .set({ currentPlayers: game.currentPlayers + 1, updatedAt: new Date() })
+        .where(eq(games.id, gameId));
+
+      return toGamePlayer(row);
+    });
+  }
+
+  async updateGameState(gameId: number, status: string, gameState: any): Promise<Game> {
+    const db = await this.db();
+    const [row] = await db
+      .update(games)
+      .set({ status, gameState: JSON.stringify(gameState), updatedAt: new Date() })
+      .where(eq(games.id, gameId))
+      .returning();
+    if (!row) {
+      throw new Error('Game not found');
+    }
+    return toGame(row);
+  }
+
+  // Round history methods
+  async addRound(gameId: number, round: RoundHistory): Promise<void> {
+    const db = await this.db();
+    const serialized = serializeRoundHistory(round);
+    await db.insert(gameRounds).values({
+      gameId,
+      round: serialized.round,
+      seed: serialized.seed ?? null,
+      trumpSuit: serialized.trumpSuit,
+      highestBidder: serialized.highestBidder,
+      bids: serialized.bids,
+      playingPlayers: serialized.playingPlayers,
+      tricksWon: serialized.tricksWon,
+      scoreChanges: serialized.scoreChanges,
+      finalScores: serialized.finalScores,
+      punts: serialized.punts ?? null,
+      moneyChanges: serialized.moneyChanges ?? null,
+      finalWallets: serialized.finalWallets ?? null,
+      dealtHands: serialized.dealtHands ?? null,
+      sitDecisions: serialized.sitDecisions ?? null,
+      tricks: serialized.tricks ?? null
+    });
+  }
+
+  async getRounds(gameId: number): Promise<RoundHistory[]> {
+    const db = await this.db();
+    const rows = await db
+      .select()
+      .from(gameRounds)
+      .where(eq(gameRounds.gameId, gameId))
+      .orderBy(asc(gameRounds.round));
+    return rows.map(toRoundHistory);
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set, in-memory otherwise
+export const storage: IStorage = process.env.DATABASE_URL ? new DbStorage() : new MemStorage();
@@ -0,0 +1,39 @@
+import fs from "fs";
+import path from "path";
+import { newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { Pool as PgPool, QueryConfig } from "pg";
+import * as schema from "@shared/schema";
+
+const MIGRATIONS_DIR = "migrations"; // Relative to the project root, like drizzle.config.ts
+
+/**
+ * For tests: an in-memory Postgres (pg-mem) with every migration in
+ * migrations/ applied, shaped like ./db so a test can stand it in for that
+ * module and run DbStorage or PgRoomStore against it.
+ */
+export function createTestDb() {
+  const mem = newDb();
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+    sql.split("--> statement-breakpoint").forEach(statement => mem.public.none(statement));
+  }
+
+  // drizzle asks node-postgres for rows as arrays and brings its own type
+  // parsers; pg-mem supports neither, but already returns JS values and keeps
+  // the selected columns in order, so the rows only need flattening
+  const { Pool } = mem.adapters.createPg();
+  class DrizzlePool extends Pool {
+    async query(config: string | QueryConfig, values?: unknown[]) {
+      if (typeof config === "string") return super.query(config, values);
+      const { rowMode, types: _types, ...query } = config as QueryConfig & { rowMode?: string };
+      const result = await super.query(query, values);
+      return rowMode === "array" ? { ...result, rows: result.rows.map(Object.values) } : result;
+    }
+  }
+
+  // Not a node-postgres Pool, but it answers the queries drizzle makes of one
+  const pool = new DrizzlePool() as unknown as PgPool;
+  return { pool, db: drizzle({ client: pool, schema }) };
+}
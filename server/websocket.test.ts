@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { setupWebSocket } from './websocket';
+import { deleteRoom } from './roomManager';
+import { ErrorCode } from '@shared/messages';
+
+let server: Server;
+let wsUrl: string;
+const openSockets: WebSocket[] = [];
+const openRooms: string[] = [];
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  server = createServer();
+  setupWebSocket(server);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  wsUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+afterEach(() => {
+  openSockets.splice(0).forEach(ws => ws.close());
+  openRooms.splice(0).forEach(id => deleteRoom(id));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+/** An open connection and a way to wait for the next message of a type */
+async function connect() {
+  const ws = new WebSocket(wsUrl);
+  openSockets.push(ws);
+  const received: Record<string, unknown>[] = [];
+  const waiting: { type: string; resolve: (message: Record<string, unknown>) => void }[] = [];
+  ws.on('message', data => {
+    const message = JSON.parse(data.toString());
+    const waiter = waiting.findIndex(w => w.type === message.type);
+    if (waiter === -1) {
+      received.push(message);
+    } else {
+      waiting.splice(waiter, 1)[0].resolve(message);
+    }
+  });
+  await new Promise(resolve => ws.once('open', resolve));
+
+  const next = (type: string) => new Promise<Record<string, unknown>>(resolve => {
+    const index = received.findIndex(m => m.type === type);
+    if (index === -1) {
+      waiting.push({ type, resolve });
+    } else {
+      resolve(received.splice(index, 1)[0]);
+    }
+  });
+  const send = (message: object) => ws.send(JSON.stringify(message));
+  return { ws, next, send };
+}
+
+describe('rejoining', () => {
+  it('retires the token a seat was rejoined with', async () => {
+    const host = await connect();
+    host.send({ type: 'CREATE_ROOM', playerName: 'Host' });
+    const created = await host.next('ROOM_CREATED');
+    const roomId = created.roomId as string;
+    openRooms.push(roomId);
+
+    const rejoined = await connect();
+    rejoined.send({ type: 'REJOIN_ROOM', roomId, reconnectToken: created.reconnectToken });
+    const fresh = (await rejoined.next('REJOINED_ROOM')).reconnectToken;
+    expect(fresh).toEqual(expect.any(String));
+    expect(fresh).not.toBe(created.reconnectToken);
+
+    const replayed = await connect();
+    replayed.send({ type: 'REJOIN_ROOM', roomId, reconnectToken: created.reconnectToken });
+    expect(await replayed.next('ERROR')).toMatchObject({ code: ErrorCode.INVALID_RECONNECT_TOKEN });
+
+    replayed.send({ type: 'REJOIN_ROOM', roomId, reconnectToken: fresh });
+    expect(await replayed.next('REJOINED_ROOM')).toMatchObject({ localPlayerId: created.localPlayerId });
+  });
+});
+
+describe('spectating', () => {
+  it('refuses to let a seated connection watch', async () => {
+    const host = await connect();
+    host.send({ type: 'CREATE_ROOM', playerName: 'Host' });
+    const roomId = (await host.next('ROOM_CREATED')).roomId as string;
+    openRooms.push(roomId);
+
+    host.send({ type: 'SPECTATE_ROOM', roomId });
+    expect(await host.next('ERROR')).toMatchObject({ code: ErrorCode.INVALID_ACTION });
+
+    const watcher = await connect();
+    watcher.send({ type: 'SPECTATE_ROOM', roomId });
+    expect(await watcher.next('SPECTATING')).toMatchObject({ roomId });
+  });
+});
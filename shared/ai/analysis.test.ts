@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeHand, type HandRecord } from './analysis';
+import { addPlayer, applyAction, canSit, createGameState, getCurrentPlayer, getDecisionOptions } from '../gameEngine';
+import type { EngineAction, GameState } from '../types';
+
+function apply(state: GameState, action: EngineAction): GameState {
+  const result = applyAction(state, action);
+  if (!result.valid) throw new Error(`${action.action} rejected: ${result.error}`);
+  return result.state;
+}
+
+/**
+ * Deal from `seed` and play the hand out: the first bidder bids `openingBid`,
+ * everyone else passes, `sitters` sit when they may and every other choice
+ * is the first legal one. Returns the hand as the client records it.
+ */
+function playHand(seed: number, openingBid: number, sitters: string[] = []): HandRecord {
+  let state = createGameState();
+  for (const id of ['p0', 'p1', 'p2', 'p3']) {
+    state = addPlayer(state, { id, name: id, hand: [], isActive: true, consecutiveSits: 0, isAI: false });
+  }
+  state = apply(state, { action: 'deal', payload: { seed } });
+  const dealt = {
+    round: state.round,
+    players: state.players.map(p => ({ ...p, hand: [...p.hand] })),
+    dealerIndex: state.dealerIndex,
+    scores: new Map(state.scores),
+  };
+
+  let opened = false;
+  while (state.gamePhase !== 'round_complete' && state.gamePhase !== 'game_over') {
+    if (state.gamePhase === 'trick_complete') {
+      state = apply(state, { action: 'advance', payload: {} });
+      continue;
+    }
+    const playerId = getCurrentPlayer(state)!.id;
+    const options = getDecisionOptions(state)!;
+    switch (options.action) {
+      case 'bid':
+        state = apply(state, { action: 'bid', payload: { playerId, bid: opened ? 0 : openingBid } });
+        opened = true;
+        break;
+      case 'trump':
+        state = apply(state, { action: 'trump', payload: { playerId, suit: options.suits[0] } });
+        break;
+      case 'sitpass': {
+        const decision = sitters.includes(playerId) && canSit(state, playerId) ? 'sit' : 'play';
+        state = apply(state, { action: 'sitpass', payload: { playerId, decision } });
+        break;
+      }
+      case 'playcard':
+        state = apply(state, { action: 'playcard', payload: { playerId, card: options.validCards[0] } });
+        break;
+      case 'penalty':
+        state = apply(state, { action: 'penalty', payload: { playerId, choice: 'self' } });
+        break;
+    }
+  }
+
+  return {
+    ...dealt,
+    bids: new Map(state.bids),
+    trumpSuit: state.trumpSuit,
+    playingPlayers: Array.from(state.playingPlayers),
+    tricks: state.completedTricks,
+  };
+}
+
+describe('analyzeHand', () => {
+  it('flags a bid of 5 on a hand with no trump to back it', () => {
+    // p1 holds K-8-7-5 of diamonds and the 8 of clubs, and calls hearts
+    const flagged = analyzeHand(playHand(10, 5));
+    expect(flagged).toContainEqual(expect.objectContaining({
+      playerId: 'p1',
+      kind: 'bid',
+      label: 'Overbid',
+      chosen: 'bid 5',
+      trick: undefined
+    }));
+  });
+
+  it('only flags choices a replay beat by a clear margin', () => {
+    const flagged = analyzeHand(playHand(8, 5));
+    expect(flagged.length).toBeGreaterThan(0);
+    flagged.forEach(decision => {
+      expect(decision.cost).toBeGreaterThanOrEqual(2);
+      expect(decision.better).not.toBe(decision.chosen);
+      if (decision.kind === 'card') expect(decision.trick).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  it('gives the same review every time for the same hand', () => {
+    const record = playHand(2, 5);
+    expect(analyzeHand(record)).toEqual(analyzeHand(record));
+  });
+
+  it("reviews a sit only while the sitter's cards are known", () => {
+    const record = playHand(5, 2, ['p3']);
+    expect(record.playingPlayers).not.toContain('p3');
+    expect(analyzeHand(record)).toContainEqual(expect.objectContaining({
+      playerId: 'p3',
+      kind: 'sit',
+      label: 'Sat out a winning hand'
+    }));
+
+    // Online, an opponent who sat never shows their cards
+    const unseen = { ...record, players: record.players.map(p => (p.id === 'p3' ? { ...p, hand: [] } : p)) };
+    expect(analyzeHand(unseen).some(decision => decision.playerId === 'p3')).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+// Post-hand analysis: replays a finished hand through the rules engine and, at
+// every decision made by a player whose cards are known, plays each legal
+// alternative out to the end of the hand with the heuristic players. A choice
+// that scored clearly worse than the best alternative is flagged with the
+// points it cost.
+
+import { rollout } from './expertStrategy';
+import { applyAction, createGameState, getCurrentPlayer, getDecisionOptions } from '../gameEngine';
+import { createDeck, determineTrickWinner, formatCard } from '../cardOperations';
+import { createRandom, deriveSeed } from '../random';
+import { DEFAULT_SETTINGS, GAME } from '../constants';
+import type { Card, DecisionOptions, EngineAction, GameState, Player, Suit, TrickPlay } from '../types';
+
+/**
+ * Everything needed to replay one hand
+ */
+export interface HandRecord {
+  round: number;
+  players: Player[]; // Seated at the deal, in seat order, with any hands seen dealt
+  dealerIndex: number;
+  scores: Map<string, number>; // Going into the hand
+  bids: Map<string, number>;
+  trumpSuit: Suit | null;
+  playingPlayers: string[];
+  tricks: TrickPlay[][];
+}
+
+export type DecisionKind = 'bid' | 'trump' | 'sit' | 'card';
+
+export interface FlaggedDecision {
+  playerId: string;
+  kind: DecisionKind;
+  trick?: number; // 1-based, card plays only
+  label: string; // What went wrong, e.g. "Overbid"
+  chosen: string;
+  better: string;
+  cost: number; // Points the choice cost against the better one, by the replays
+}
+
+// Replays disagree by a point on plenty of sound decisions; two is a clear miss
+const CLEAR_MISTAKE = 2;
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+/**
+ * Dealt hands for every seat. Players who played a hand showed all their
+ * cards in the tricks; anyone never seen (an opponent who sat, online) gets
+ * the leftover cards, and their decisions aren't reviewed.
+ */
+function reconstructHands(record: HandRecord): { hands: Map<string, Card[]>; known: Set<string> } {
+  const hands = new Map<string, Card[]>();
+  const known = new Set<string>();
+  record.players.forEach(p => {
+    const played = record.tricks.flat().filter(play => play.playerId === p.id).map(play => play.card);
+    if (p.hand.length === GAME.CARDS_PER_HAND) {
+      hands.set(p.id, p.hand);
+      known.add(p.id);
+    } else if (played.length === GAME.CARDS_PER_HAND) {
+      hands.set(p.id, played);
+      known.add(p.id);
+    }
+  });
+
+  const used = new Set(Array.from(hands.values()).flat().map(cardKey));
+  const leftover = createDeck().filter(card => !used.has(cardKey(card)));
+  record.players.forEach(p => {
+    if (!hands.has(p.id)) hands.set(p.id, leftover.splice(0, GAME.CARDS_PER_HAND));
+  });
+  return { hands, known };
+}
+
+function dealtState(record: HandRecord, hands: Map<string, Card[]>): GameState {
+  return {
+    ...createGameState(),
+    gamePhase: 'bidding',
+    players: record.players.map(p => ({ ...p, hand: hands.get(p.id) ?? [] })),
+    dealerIndex: record.dealerIndex,
+    currentPlayerIndex: (record.dealerIndex + 1) % record.players.length,
+    scores: new Map(record.scores),
+    round: record.round,
+  };
+}
+
+/**
+ * The move the record says was made next, or null once the hand is over
+ */
+function recordedAction(state: GameState, record: HandRecord): EngineAction | null {
+  if (state.gamePhase === 'trick_complete') return { action: 'advance', payload: {} };
+  const playerId = getCurrentPlayer(state)?.id;
+  if (!playerId) return null;
+
+  switch (state.gamePhase) {
+    case 'bidding':
+      return { action: 'bid', payload: { playerId, bid: record.bids.get(playerId) ?? 0 } };
+    case 'trump_selection':
+      return record.trumpSuit ? { action: 'trump', payload: { playerId, suit: record.trumpSuit } } : null;
+    case 'sit_pass':
+      return {
+        action: 'sitpass',
+        payload: { playerId, decision: record.playingPlayers.includes(playerId) ? 'play' : 'sit' }
+      };
+    case 'hand_play': {
+      const play = record.tricks[state.completedTricks.length]?.[state.currentTrick.length];
+      return play?.playerId === playerId ? { action: 'playcard', payload: { playerId, card: play.card } } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function alternatives(playerId: string, options: DecisionOptions): EngineAction[] {
+  switch (options.action) {
+    case 'bid':
+      return options.validBids.map(bid => ({ action: 'bid', payload: { playerId, bid } }));
+    case 'trump':
+      return options.suits.map(suit => ({ action: 'trump', payload: { playerId, suit } }));
+    case 'sitpass':
+      return options.decisions.map(decision => ({ action: 'sitpass', payload: { playerId, decision } }));
+    case 'playcard':
+      return options.validCards.map(card => ({ action: 'playcard', payload: { playerId, card } }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Score change for `playerId` if `action` is made here and the rest of the
+ * hand is played out by the heuristic players
+ */
+function outcome(state: GameState, action: EngineAction, playerId: string, seed: number): number {
+  const random = createRandom(seed);
+  const scoreBefore = state.scores.get(playerId) ?? GAME.STARTING_SCORE;
+  if (action.action === 'playcard') {
+    return rollout(state, playerId, scoreBefore, random, action.payload.card);
+  }
+  const result = applyAction(state, action, DEFAULT_SETTINGS);
+  return result.valid ? rollout(result.state, playerId, scoreBefore, random) : Infinity;
+}
+
+const describe = (action: EngineAction): string => {
+  switch (action.action) {
+    case 'bid':
+      return action.payload.bid === 0 ? 'pass' : `bid ${action.payload.bid}`;
+    case 'trump':
+      return `${action.payload.suit} trump`;
+    case 'sitpass':
+      return action.payload.decision;
+    case 'playcard':
+      return formatCard(action.payload.card);
+    default:
+      return action.action;
+  }
+};
+
+function label(state: GameState, playerId: string, chosen: EngineAction, better: EngineAction): string {
+  if (chosen.action === 'bid' && better.action === 'bid') {
+    if (chosen.payload.bid > better.payload.bid) return better.payload.bid === 0 ? 'Bid a hand that should pass' : 'Overbid';
+    return chosen.payload.bid === 0 ? 'Passed a hand worth a bid' : 'Underbid';
+  }
+  if (chosen.action === 'sitpass') {
+    return chosen.payload.decision === 'sit' ? 'Sat out a winning hand' : 'Played a losing hand';
+  }
+  if (chosen.action === 'playcard' && better.action === 'playcard') {
+    const wins = (card: Card) =>
+      determineTrickWinner([...state.currentTrick, { playerId, card }], state.trumpSuit) === playerId;
+    if (wins(chosen.payload.card) && !wins(better.payload.card)) return 'Took a trick when ducking was safe';
+    if (!wins(chosen.payload.card) && wins(better.payload.card)) return 'Ducked a trick worth taking';
+    return 'Played the wrong card';
+  }
+  return 'Called the wrong trump';
+}
+
+const KINDS: Record<string, DecisionKind> = { bid: 'bid', trump: 'trump', sitpass: 'sit', playcard: 'card' };
+
+/**
+ * Replay `record` and flag every decision that cost at least CLEAR_MISTAKE
+ * points against its best alternative
+ */
+export function analyzeHand(record: HandRecord): FlaggedDecision[] {
+  const { hands, known } = reconstructHands(record);
+  let state = dealtState(record, hands);
+  const flagged: FlaggedDecision[] = [];
+
+  for (let step = 0; ; step++) {
+    const action = recordedAction(state, record);
+    if (!action) break;
+
+    const player = getCurrentPlayer(state);
+    const options = getDecisionOptions(state);
+    if (action.action !== 'advance' && player && known.has(player.id) && options) {
+      // Every alternative plays out on the same dice as the choice made
+      const seed = deriveSeed(record.round, player.id, step);
+      const chosenScore = outcome(state, action, player.id, seed);
+      let best: { action: EngineAction; score: number } = { action, score: chosenScore };
+      alternatives(player.id, options).forEach(alternative => {
+        const score = outcome(state, alternative, player.id, seed);
+        if (score < best.score) best = { action: alternative, score };
+      });
+
+      if (chosenScore - best.score >= CLEAR_MISTAKE) {
+        flagged.push({
+          playerId: player.id,
+          kind: KINDS[action.action],
+          trick: action.action === 'playcard' ? state.completedTricks.length + 1 : undefined,
+          label: label(state, player.id, action, best.action),
+          chosen: describe(action),
+          better: describe(best.action),
+          cost: chosenScore - best.score,
+        });
+      }
+    }
+
+    const result = applyAction(state, action, DEFAULT_SETTINGS);
+    if (!result.valid) break;
+    state = result.state;
+  }
+
+  return flagged;
+}
@@ -0,0 +1,97 @@
+// What one player can know about the cards they can't see: everything played
+// so far this hand, the suits each opponent has shown out of, and from those
+// the odds of any opponent holding a given card.
+
+import { createDeck } from '../cardOperations';
+import type { Card, GameState, Suit } from '../types';
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+export interface CardTracker {
+  unseen: Card[]; // Not in the viewer's hand and not played yet - held by someone else or undealt
+  played: Card[]; // Every card played this hand, current trick included
+  voids: Map<string, Set<Suit>>; // Suits each player failed to follow, so can't hold
+  isVoid(playerId: string, suit: Suit): boolean;
+  /** Unseen cards that could still be in this player's hand */
+  candidates(playerId: string): Card[];
+  /** Chance the player holds none of these cards */
+  noneHeldChance(playerId: string, cards: Card[]): number;
+  /** Expected number of these cards in the player's hand */
+  expectedHeld(playerId: string, cards: Card[]): number;
+  /** Expected trumps left in each other player's hand */
+  trumpDistribution(): Map<string, number>;
+}
+
+/**
+ * Chance that `held` cards drawn from a pool of `pool` include none of `count` particular ones
+ */
+function missChance(pool: number, count: number, held: number): number {
+  let chance = 1;
+  for (let i = 0; i < held; i++) {
+    if (pool - i <= 0) break;
+    chance *= Math.max(0, pool - count - i) / (pool - i);
+  }
+  return chance;
+}
+
+/**
+ * Build the tracker for `viewerId` from the hand played so far. Only public
+ * information is used: the viewer's own cards, the cards on the table and how
+ * many cards each player has left.
+ */
+export function trackCards(state: GameState, viewerId: string): CardTracker {
+  const viewer = state.players.find(p => p.id === viewerId);
+  const tricks = [...state.completedTricks];
+  if (state.gamePhase === 'hand_play' && state.currentTrick.length > 0) tricks.push(state.currentTrick);
+
+  const played = tricks.flatMap(trick => trick.map(play => play.card));
+  const seen = new Set([...(viewer?.hand ?? []), ...played].map(cardKey));
+  const unseen = createDeck().filter(card => !seen.has(cardKey(card)));
+
+  // Anyone who didn't follow the led suit has none of it left
+  const voids = new Map<string, Set<Suit>>();
+  tricks.forEach(trick => {
+    const leadSuit = trick[0]?.card.suit;
+    trick.slice(1).forEach(({ playerId, card }) => {
+      if (card.suit === leadSuit) return;
+      if (!voids.has(playerId)) voids.set(playerId, new Set());
+      voids.get(playerId)!.add(leadSuit);
+    });
+  });
+
+  const isVoid = (playerId: string, suit: Suit) => voids.get(playerId)?.has(suit) ?? false;
+  const handSizes = new Map(state.players.map(p => [p.id, p.hand.length]));
+  const cardsLeft = (playerId: string) => handSizes.get(playerId) ?? 0;
+  const candidates = (playerId: string) => unseen.filter(card => !isVoid(playerId, card.suit));
+
+  // Size of the pool each player's hand could have come from
+  const poolSizes = new Map<string, number>();
+  const poolSize = (playerId: string) => {
+    if (!poolSizes.has(playerId)) poolSizes.set(playerId, candidates(playerId).length);
+    return poolSizes.get(playerId)!;
+  };
+
+  const noneHeldChance = (playerId: string, cards: Card[]) => {
+    const pool = poolSize(playerId);
+    const count = cards.filter(card => !isVoid(playerId, card.suit)).length;
+    return missChance(pool, count, cardsLeft(playerId));
+  };
+
+  const expectedHeld = (playerId: string, cards: Card[]) => {
+    const pool = poolSize(playerId);
+    if (pool === 0) return 0;
+    const count = cards.filter(card => !isVoid(playerId, card.suit)).length;
+    return (cardsLeft(playerId) * count) / pool;
+  };
+
+  const trumpDistribution = () => {
+    const trumps = unseen.filter(card => card.suit === state.trumpSuit);
+    const distribution = new Map<string, number>();
+    state.players.forEach(p => {
+      if (p.id !== viewerId) distribution.set(p.id, state.trumpSuit ? expectedHeld(p.id, trumps) : 0);
+    });
+    return distribution;
+  };
+
+  return { unseen, played, voids, isVoid, candidates, noneHeldChance, expectedHeld, trumpDistribution };
+}
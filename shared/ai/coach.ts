@@ -0,0 +1,176 @@
+// Coach: the move the strongest AI would make on a human player's turn, with
+// a one-line reason a new player can follow. The AI only gets to see what the
+// player can see, so the hint never gives away another hand.
+
+import { chooseAITrumpSuit } from './heuristics';
+import { expertStrategy } from './expertStrategy';
+import { chooseAIAction, type Strategy } from './strategy';
+import { trackCards } from './cardTracker';
+import { getCurrentPlayer, getDecisionOptions, getHighestBid } from '../gameEngine';
+import { determineTrickWinner, formatCard } from '../cardOperations';
+import { validateSitDecision } from '../validation';
+import { GAME } from '../constants';
+import type { Card, GameAction, GameState, Player, Suit } from '../types';
+
+export interface CoachAdvice {
+  action: GameAction;
+  reason: string;
+}
+
+// A player this close to 0 can win the game on the current hand
+const CLOSE_TO_WINNING = 3;
+
+/**
+ * The table as `viewerId` sees it. Everyone else holds the right number of
+ * cards, but dealt from the cards the viewer can't see rather than their own.
+ */
+function viewFor(state: GameState, viewerId: string): GameState {
+  const unseen = trackCards(state, viewerId).unseen;
+  const inPlay = state.gamePhase === 'hand_play' || state.gamePhase === 'trick_complete';
+  const cardsHeld = (player: Player) => {
+    if (!inPlay) return GAME.CARDS_PER_HAND;
+    if (!state.playingPlayers.has(player.id)) return 0;
+    const inTrick = state.currentTrick.some(play => play.playerId === player.id) ? 1 : 0;
+    return GAME.CARDS_PER_HAND - state.completedTricks.length - inTrick;
+  };
+
+  let next = 0;
+  return {
+    ...state,
+    deck: [],
+    players: state.players.map(p => {
+      if (p.id === viewerId) return p;
+      const hand = unseen.slice(next, next + cardsHeld(p));
+      next += hand.length;
+      return { ...p, hand };
+    }),
+  };
+}
+
+const nameOf = (state: GameState, playerId: string) =>
+  state.players.find(p => p.id === playerId)?.name ?? 'That player';
+
+const scoreOf = (state: GameState, playerId: string) => state.scores.get(playerId) ?? GAME.STARTING_SCORE;
+
+// "3 hearts including the ace", "no spades"
+function describeSuit(hand: Card[], suit: Suit): string {
+  const held = hand.filter(c => c.suit === suit);
+  if (held.length === 0) return `no ${suit}`;
+  const top = held.some(c => c.rank === 'A') ? ' including the ace' : held.some(c => c.rank === 'K') ? ' including the king' : '';
+  return `${held.length === 1 ? `1 ${suit.slice(0, -1)}` : `${held.length} ${suit}`}${top}`;
+}
+
+function explainBid(state: GameState, player: Player, bid: number): string {
+  const best = describeSuit(player.hand, chooseAITrumpSuit(player.hand));
+  const bidder = state.highestBidder;
+
+  if (bid === 0) {
+    const options = getDecisionOptions(state);
+    if (options?.action === 'bid' && options.validBids.length === 1) return 'Pass: there is no bid left to make';
+    const needed = Math.max(1, getHighestBid(state) + 1);
+    return `Pass: your best suit is ${best}, not enough to take ${needed} trick${needed === 1 ? '' : 's'}`;
+  }
+  if (bidder && bidder !== player.id && scoreOf(state, bidder) <= CLOSE_TO_WINNING) {
+    return `Bid ${bid}: keeps ${nameOf(state, bidder)} (at ${scoreOf(state, bidder)}) from calling trump`;
+  }
+  return `Bid ${bid}: you hold ${best}`;
+}
+
+// Why the rules won't let a player sit, keyed by validateSitDecision's codes
+const MUST_PLAY_REASONS: Record<string, string> = {
+  BIDDER_MUST_PLAY: 'you won the bid, so you have to play',
+  MUSTY_MUST_PLAY: "you've sat twice in a row, so you're musty",
+  CANNOT_SIT_ON_ONE: 'nobody can sit when the bid is 1',
+  CANNOT_SIT_ON_SPADES: 'nobody can sit when spades are trump',
+};
+
+function explainSit(state: GameState, player: Player, decision: 'sit' | 'play'): string {
+  const trumps = state.trumpSuit ? describeSuit(player.hand, state.trumpSuit) : 'no trumps';
+  const score = scoreOf(state, player.id);
+  const sitCosts = score < GAME.SIT_PENALTY_THRESHOLD;
+
+  if (decision === 'play') {
+    const sit = validateSitDecision(
+      'sit', player.id, player.consecutiveSits, getHighestBid(state), state.trumpSuit, state.highestBidder
+    );
+    if (!sit.valid) return `Play: ${MUST_PLAY_REASONS[sit.code ?? ''] ?? "you can't sit this hand"}`;
+
+    const bidder = state.highestBidder;
+    if (bidder && scoreOf(state, bidder) <= CLOSE_TO_WINNING) {
+      return `Play: ${nameOf(state, bidder)} is at ${scoreOf(state, bidder)}, so help punt them`;
+    }
+    if (sitCosts) return `Play: sitting at score ${score} costs +${GAME.SIT_PENALTY}`;
+    if (state.trumpSuit && !player.hand.some(c => c.suit === state.trumpSuit)) {
+      return `Play: your high cards can take a trick even with ${trumps}`;
+    }
+    return `Play: you hold ${trumps}`;
+  }
+
+  return sitCosts
+    ? `Sit: with ${trumps}, a punt (+${GAME.PUNT_PENALTY}) is likelier than the +${GAME.SIT_PENALTY} for sitting`
+    : `Sit: with ${trumps}, you're unlikely to take a trick`;
+}
+
+function explainCard(state: GameState, player: Player, card: Card, validCards: Card[]): string {
+  const shown = formatCard(card);
+  if (validCards.length === 1) return `Play ${shown}: it's your only legal card`;
+
+  const trump = state.trumpSuit;
+  if (state.currentTrick.length === 0) {
+    const higher = trackCards(state, player.id).unseen.some(c => c.suit === card.suit && c.value > card.value);
+    if (!higher) {
+      return card.suit === trump
+        ? `Lead ${shown}: it's the top trump left and draws out the others`
+        : `Lead ${shown}: it's the highest ${card.suit.slice(0, -1)} left`;
+    }
+    if (card.suit === trump) return `Lead ${shown}: pulls trumps out of the other hands`;
+    if (validCards.every(c => c.value >= card.value)) return `Lead ${shown}: keep your stronger cards for later tricks`;
+    return `Lead ${shown}: draws out the higher ${card.suit} so your others can win later`;
+  }
+
+  const wins = (c: Card) =>
+    determineTrickWinner([...state.currentTrick, { playerId: player.id, card: c }], trump) === player.id;
+  if (wins(card)) return `Play ${shown}: it takes the trick so far`;
+  if (validCards.some(wins)) return `Play ${shown}: let this trick go and save your winners`;
+  return `Play ${shown}: you can't win this trick, so throw your cheapest card`;
+}
+
+/**
+ * The coach's move and reason for `playerId`, or null when it isn't their turn
+ */
+export async function coachAdvice(
+  state: GameState,
+  playerId: string,
+  strategy: Strategy = expertStrategy
+): Promise<CoachAdvice | null> {
+  const player = getCurrentPlayer(state);
+  const options = getDecisionOptions(state);
+  if (!player || player.id !== playerId || !options) return null;
+
+  const view = viewFor(state, playerId);
+  const action = await chooseAIAction(view, strategy);
+  if (!action) return null;
+
+  switch (action.action) {
+    case 'bid':
+      return { action, reason: explainBid(state, player, action.payload.bid) };
+    case 'trump':
+      return { action, reason: `Call ${action.payload.suit}: you hold ${describeSuit(player.hand, action.payload.suit)}` };
+    case 'sitpass':
+      return { action, reason: explainSit(state, player, action.payload.decision) };
+    case 'playcard':
+      return {
+        action,
+        reason: explainCard(state, player, action.payload.card, options.action === 'playcard' ? options.validCards : [])
+      };
+    case 'penalty': {
+      const score = scoreOf(state, playerId);
+      return {
+        action,
+        reason: action.payload.choice === 'self'
+          ? `Take -${GAME.EVERYONE_SAT_PENALTY}: at ${score} it moves you toward 0`
+          : `Give everyone else +${GAME.EVERYONE_SAT_PENALTY}: at ${score}, pushing the others back does more than your own -${GAME.EVERYONE_SAT_PENALTY}`
+      };
+    }
+  }
+}
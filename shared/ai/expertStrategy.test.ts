@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createExpertStrategy } from './expertStrategy';
+import { chooseAIAction } from './strategy';
+import { addPlayer, applyAction, createGameState } from '../gameEngine';
+import type { GameState } from '../types';
+
+/** Four players with a fresh deal, the first to bid on turn */
+function dealt(seed = 11): GameState {
+  let state = createGameState();
+  for (const id of ['p0', 'p1', 'p2', 'p3']) {
+    state = addPlayer(state, { id, name: id, hand: [], isActive: true, consecutiveSits: 0, isAI: true });
+  }
+  const result = applyAction(state, { action: 'deal', payload: { seed } });
+  if (!result.valid) throw new Error(result.error);
+  return result.state;
+}
+
+describe('expert search', () => {
+  it('lets other work run while it thinks', async () => {
+    const strategy = createExpertStrategy({ iterations: 100000, timeMs: 100 });
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 5);
+
+    try {
+      await chooseAIAction(dealt(), strategy);
+    } finally {
+      clearInterval(ticker);
+    }
+    expect(ticks).toBeGreaterThan(1);
+  });
+
+  it('stops at the time budget whatever the iteration count', async () => {
+    const strategy = createExpertStrategy({ iterations: 100000, timeMs: 50 });
+    const startedAt = Date.now();
+    const action = await chooseAIAction(dealt(), strategy);
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(action?.action).toBe('bid');
+  });
+
+  it('makes the same move from the same deal given a fixed number of samples', async () => {
+    const strategy = createExpertStrategy({ iterations: 20, timeMs: Infinity });
+    expect(await chooseAIAction(dealt(3), strategy)).toEqual(await chooseAIAction(dealt(3), strategy));
+  });
+});
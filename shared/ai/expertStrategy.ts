@@ -0,0 +1,287 @@
+// Expert AI: determinized Monte Carlo search. Each iteration deals the cards
+// this player can't see into the other hands (keeping every void they've
+// shown), plays each candidate move out to the end of the hand with the
+// heuristic players at every seat, and scores the result. The move with the
+// best average score change wins.
+
+import { makeAIBid, chooseAITrumpSuit, makeAISitPlayDecision, chooseAICardToPlay } from './heuristics';
+import { hardStrategy } from './hardStrategy';
+import { trackCards, type CardTracker } from './cardTracker';
+import { applyAction, getCurrentPlayer, getDecisionOptions, getHighestBid, canSit } from '../gameEngine';
+import { determineTrickWinner, getValidPlays, shuffleDeck } from '../cardOperations';
+import { calculateScore } from '../scoring';
+import { DEFAULT_SETTINGS, GAME, TIMING } from '../constants';
+import type { RandomSource } from '../random';
+import type { Strategy } from './strategy';
+import type { Card, EngineAction, GameState, Player, TrickPlay } from '../types';
+
+export interface SearchBudget {
+  iterations: number; // Sampled deals per decision
+  timeMs: number; // Stop sampling after this long, whatever the iteration count
+}
+
+export const DEFAULT_SEARCH_BUDGET: SearchBudget = {
+  iterations: 400,
+  timeMs: TIMING.EXPERT_AI_THINK_TIME,
+};
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+/**
+ * One consistent guess at everyone else's cards: the unseen cards dealt out
+ * at random to whoever still has a decision to make this hand, never giving
+ * a player a suit they've shown out of
+ */
+function sampleDeal(state: GameState, playerId: string, tracker: CardTracker, random: RandomSource): GameState {
+  const pool = shuffleDeck(tracker.unseen, random);
+  const taken = new Set<string>();
+  const inPlay = state.gamePhase === 'hand_play';
+
+  // Players with the most known voids pick first so they aren't left short
+  const needsCards = state.players
+    .filter(p => p.id !== playerId && (!inPlay || state.playingPlayers.has(p.id)))
+    .sort((a, b) => (tracker.voids.get(b.id)?.size ?? 0) - (tracker.voids.get(a.id)?.size ?? 0));
+
+  const hands = new Map<string, Card[]>();
+  needsCards.forEach(p => {
+    const deal = (allowed: (card: Card) => boolean) => {
+      const hand: Card[] = [];
+      for (const card of pool) {
+        if (hand.length === p.hand.length) break;
+        if (taken.has(cardKey(card)) || !allowed(card)) continue;
+        hand.push(card);
+      }
+      return hand;
+    };
+    let hand = deal(card => !tracker.isVoid(p.id, card.suit));
+    // Not enough cards left outside their voids - drop the constraint rather than the sample
+    if (hand.length < p.hand.length) hand = deal(() => true);
+    hand.forEach(card => taken.add(cardKey(card)));
+    hands.set(p.id, hand);
+  });
+
+  return {
+    ...state,
+    players: state.players.map(p => (hands.has(p.id) ? { ...p, hand: hands.get(p.id)! } : p)),
+  };
+}
+
+/**
+ * The heuristic player's move for whoever's turn it is before the cards are
+ * played - the stand-in for every seat during a rollout
+ */
+function rolloutMove(state: GameState, random: RandomSource): EngineAction | null {
+  const player = getCurrentPlayer(state);
+  if (!player) return null;
+  const playerId = player.id;
+
+  switch (state.gamePhase) {
+    case 'bidding': {
+      const options = getDecisionOptions(state);
+      const validBids = options?.action === 'bid' ? options.validBids : [0];
+      const bid = makeAIBid(
+        player.hand,
+        getHighestBid(state),
+        state.currentPlayerIndex === state.dealerIndex,
+        state.players.length,
+        playerId,
+        state.scores,
+        state.highestBidder
+      );
+      return { action: 'bid', payload: { playerId, bid: validBids.includes(bid) ? bid : validBids[0] } };
+    }
+    case 'trump_selection':
+      return { action: 'trump', payload: { playerId, suit: chooseAITrumpSuit(player.hand) } };
+    case 'sit_pass': {
+      const decision = makeAISitPlayDecision(
+        player,
+        player.hand,
+        state.trumpSuit,
+        getHighestBid(state),
+        canSit(state, playerId),
+        state.scores.get(playerId),
+        state.scores,
+        random
+      );
+      return { action: 'sitpass', payload: { playerId, decision: canSit(state, playerId) ? decision : 'play' } };
+    }
+    case 'everyone_sat': {
+      const score = state.scores.get(playerId) ?? GAME.STARTING_SCORE;
+      return { action: 'penalty', payload: { playerId, choice: score >= 28 ? 'others' : 'self' } };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Play the rest of the hand with the real trick rules, starting from the
+ * current player (who plays `firstCard` if given). Returns tricks won per player.
+ */
+function playOut(state: GameState, firstCard?: Card): Map<string, number> {
+  const trump = state.trumpSuit;
+  const order = state.players.filter(p => state.playingPlayers.has(p.id)).map(p => p.id);
+  const hands = new Map(state.players.map(p => [p.id, [...p.hand]]));
+
+  const tricksWon = new Map<string, number>();
+  const win = (playerId: string) => tricksWon.set(playerId, (tricksWon.get(playerId) ?? 0) + 1);
+  state.completedTricks.forEach(trick => win(determineTrickWinner(trick, trump)));
+
+  let trick: TrickPlay[] = [...state.currentTrick];
+  let turn = order.indexOf(getCurrentPlayer(state)?.id ?? order[0]);
+  let next = firstCard;
+
+  for (let played = state.completedTricks.length; played < GAME.TRICKS_PER_ROUND; played++) {
+    while (trick.length < order.length) {
+      const playerId = order[turn];
+      const hand = hands.get(playerId)!;
+      const card = next ?? chooseAICardToPlay(hand, trick, trump, getValidPlays(hand, trick, trump));
+      next = undefined;
+      hands.set(playerId, hand.filter(c => cardKey(c) !== cardKey(card)));
+      trick.push({ playerId, card });
+      turn = (turn + 1) % order.length;
+    }
+    const winner = determineTrickWinner(trick, trump);
+    win(winner);
+    trick = [];
+    turn = order.indexOf(winner);
+  }
+
+  return tricksWon;
+}
+
+/**
+ * Finish the hand from `state` with the heuristic players and return how much
+ * `playerId`'s score moved from `scoreBefore`. Also used by the post-hand analysis.
+ */
+export function rollout(state: GameState, playerId: string, scoreBefore: number, random: RandomSource, firstCard?: Card): number {
+  // Bids, trump and sits go through the engine so its rules decide who plays
+  while (state.gamePhase !== 'hand_play') {
+    const action = rolloutMove(state, random);
+    if (!action) break;
+    const result = applyAction(state, action, DEFAULT_SETTINGS);
+    if (!result.valid) break;
+    state = result.state;
+  }
+
+  // Thrown-in hands, everyone-sat penalties and sit penalties are already on the scores
+  const score = state.scores.get(playerId) ?? scoreBefore;
+  if (state.gamePhase !== 'hand_play' || !state.playingPlayers.has(playerId)) {
+    return score - scoreBefore;
+  }
+
+  const tricksWon = playOut(state, firstCard);
+  const tricks = tricksWon.get(playerId) ?? 0;
+  const isBidder = playerId === state.highestBidder;
+
+  // Spading out: the bidder goes straight to 0 and nobody else scores
+  if (state.trumpSuit === 'spades' && state.highestBidder &&
+    tricksWon.get(state.highestBidder) === GAME.TRICKS_PER_ROUND) {
+    return isBidder ? GAME.WINNING_SCORE - scoreBefore : score - scoreBefore;
+  }
+
+  return calculateScore(playerId, state.bids.get(playerId) ?? 0, tricks, score, isBidder) - scoreBefore;
+}
+
+// Search in slices this long (ms), handing the event loop back in between so
+// one expert thinking doesn't hold up every other room on the server
+const SEARCH_SLICE_MS = 10;
+
+const yieldToEventLoop = () =>
+  new Promise<void>(resolve => (typeof setImmediate === 'function' ? setImmediate(resolve) : setTimeout(resolve, 0)));
+
+/**
+ * Average score change of each candidate over sampled deals; the lowest wins.
+ * `play` applies a candidate to a sampled state and returns its score change.
+ */
+async function search<T>(
+  state: GameState,
+  player: Player,
+  candidates: T[],
+  play: (sample: GameState, candidate: T, scoreBefore: number) => number,
+  random: RandomSource,
+  budget: SearchBudget
+): Promise<T> {
+  if (candidates.length === 1) return candidates[0];
+
+  const tracker = trackCards(state, player.id);
+  const scoreBefore = state.scores.get(player.id) ?? GAME.STARTING_SCORE;
+  const totals = candidates.map(() => 0);
+  const startedAt = Date.now();
+  let sliceStartedAt = startedAt;
+
+  for (let i = 0; i < budget.iterations; i++) {
+    if (Date.now() - sliceStartedAt > SEARCH_SLICE_MS) {
+      await yieldToEventLoop();
+      sliceStartedAt = Date.now();
+    }
+    // The budget is wall time, so waiting on other work counts against it too
+    if (i > 0 && Date.now() - startedAt > budget.timeMs) break;
+    // Every candidate is tried on the same deal, so they're compared like for like
+    const sample = sampleDeal(state, player.id, tracker, random);
+    candidates.forEach((candidate, index) => {
+      totals[index] += play(sample, candidate, scoreBefore);
+    });
+  }
+
+  let best = 0;
+  totals.forEach((total, index) => {
+    if (total < totals[best]) best = index;
+  });
+  return candidates[best];
+}
+
+/**
+ * Rolls out one engine move from a sampled state
+ */
+function tryMove(playerId: string, random: RandomSource) {
+  return (sample: GameState, action: EngineAction, scoreBefore: number) => {
+    const result = applyAction(sample, action, DEFAULT_SETTINGS);
+    return result.valid ? rollout(result.state, playerId, scoreBefore, random) : Infinity;
+  };
+}
+
+export function createExpertStrategy(budget: SearchBudget = DEFAULT_SEARCH_BUDGET): Strategy {
+  return {
+    async bid(state, player, random) {
+      const options = getDecisionOptions(state);
+      const bids = options?.action === 'bid' ? options.validBids : [0];
+      const actions: EngineAction[] = bids.map(bid => ({ action: 'bid', payload: { playerId: player.id, bid } }));
+      const chosen = await search(state, player, actions, tryMove(player.id, random), random, budget);
+      return chosen.action === 'bid' ? chosen.payload.bid : 0;
+    },
+
+    async chooseTrump(state, player, random) {
+      const actions: EngineAction[] = (['hearts', 'diamonds', 'clubs', 'spades'] as const)
+        .map(suit => ({ action: 'trump', payload: { playerId: player.id, suit } }));
+      const chosen = await search(state, player, actions, tryMove(player.id, random), random, budget);
+      return chosen.action === 'trump' ? chosen.payload.suit : 'spades';
+    },
+
+    async sitOrPlay(state, player, random) {
+      const decisions = canSit(state, player.id) ? (['play', 'sit'] as const) : (['play'] as const);
+      const actions: EngineAction[] = decisions
+        .map(decision => ({ action: 'sitpass', payload: { playerId: player.id, decision } }));
+      const chosen = await search(state, player, actions, tryMove(player.id, random), random, budget);
+      return chosen.action === 'sitpass' ? chosen.payload.decision : 'play';
+    },
+
+    playCard(state, player, validCards, random) {
+      return search(
+        state,
+        player,
+        validCards,
+        (sample, card, scoreBefore) => rollout(sample, player.id, scoreBefore, random, card),
+        random,
+        budget
+      );
+    },
+
+    // No hidden cards in the everyone-sat choice - the hard player's reasoning covers it
+    choosePenalty(state, player, random) {
+      return hardStrategy.choosePenalty(state, player, random);
+    },
+  };
+}
+
+export const expertStrategy = createExpertStrategy();
@@ -0,0 +1,297 @@
+// Hard AI: tracks the cards played this hand and the suits each opponent has
+// shown out of (cardTracker.ts), reads the table (the bidder's bid, who sat,
+// who is close to winning) and puts a number on each card's chance of taking
+// a trick. Bids, sits and plays all come from those chances weighed against
+// the Shnarps scoring.
+
+import { getDecisionOptions, getHighestBid, canSit } from '../gameEngine';
+import { determineTrickWinner } from '../cardOperations';
+import { GAME } from '../constants';
+import { SUITS } from '../types';
+import { trackCards, type CardTracker } from './cardTracker';
+import type { Strategy } from './strategy';
+import type { Card, GameState, Player, Suit } from '../types';
+
+// A player this close to 0 can win the game on the current hand
+const CLOSE_TO_WINNING = 3;
+
+// The trick estimate treats the bidder's cards one at a time, so it undersells
+// calling trump and choosing who has to play. Bids are made unless they are
+// expected to cost more than this.
+const BIDDER_EDGE = 3;
+
+// Share of the table that stays in on an average hand, before the sit decisions are in
+const PLAY_RATE = 0.35;
+
+interface TableView {
+  tracker: CardTracker;
+  trump: Suit | null;
+  bidder: string | null;
+  bidderTrumps: Card[]; // Trumps we credit an opposing bidder with holding
+  opponents: { id: string; weight: number }[]; // Chance each opponent plays the hand
+}
+
+/**
+ * Chance each opponent ends up playing the hand. A bid of 1 or spades trump
+ * keeps everyone in; otherwise undecided players count for PLAY_RATE, or half
+ * once the sit decisions have started coming in.
+ */
+function opponentWeights(state: GameState, player: Player, everyonePlays: boolean): TableView['opponents'] {
+  const others = state.players.filter(p => p.id !== player.id);
+  switch (state.gamePhase) {
+    case 'bidding':
+    case 'trump_selection':
+      return others.map(p => ({ id: p.id, weight: everyonePlays ? 1 : PLAY_RATE }));
+    case 'sit_pass': {
+      // Sit decisions go round from the bidder's left and stop at the bidder
+      const count = state.players.length;
+      const seat = state.players.indexOf(player);
+      const bidderSeat = state.players.findIndex(p => p.id === state.highestBidder);
+      const undecidedAfter = (bidderSeat - seat - 1 + count) % count;
+      return others.map(p => {
+        if (state.playingPlayers.has(p.id)) return { id: p.id, weight: 1 };
+        const offset = (state.players.indexOf(p) - seat + count) % count;
+        return { id: p.id, weight: offset <= undecidedAfter ? 0.5 : 0 };
+      });
+    }
+    default:
+      return others.map(p => ({ id: p.id, weight: state.playingPlayers.has(p.id) ? 1 : 0 }));
+  }
+}
+
+function tableView(
+  state: GameState,
+  player: Player,
+  trump: Suit | null,
+  everyonePlays = false,
+  tracker = trackCards(state, player.id)
+): TableView {
+  // A bidder who bid b is assumed to hold the b-1 best trumps we can't see,
+  // unless they've already shown out of trumps
+  const bidder = state.highestBidder;
+  const bid = bidder ? state.bids.get(bidder) ?? 0 : 0;
+  const bidderTrumps = bidder && bidder !== player.id && trump && !tracker.isVoid(bidder, trump)
+    ? tracker.unseen.filter(c => c.suit === trump).sort((a, b) => b.value - a.value).slice(0, Math.max(0, bid - 1))
+    : [];
+
+  return {
+    tracker,
+    trump,
+    bidder,
+    bidderTrumps,
+    opponents: opponentWeights(state, player, everyonePlays).filter(o => o.weight > 0)
+  };
+}
+
+/**
+ * Chance that this opponent can't beat `card` in a trick led with `leadSuit`:
+ * they hold no higher card of the suit they must follow, and if they're out
+ * of that suit, no trump that beats it
+ */
+function holdChance(view: TableView, opponentId: string, card: Card, leadSuit: Suit): number {
+  const { tracker, trump } = view;
+  const leadCards = tracker.unseen.filter(c => c.suit === leadSuit);
+  // Following suit can't beat a trump played on a side suit, but beats any other discard
+  const overCards = card.suit === leadSuit
+    ? leadCards.filter(c => c.value > card.value)
+    : card.suit === trump ? [] : leadCards;
+  const trumpsOver = leadSuit === trump
+    ? []
+    : tracker.unseen.filter(c => c.suit === trump && (card.suit !== trump || c.value > card.value));
+
+  const chance = tracker.noneHeldChance(opponentId, overCards)
+    - tracker.noneHeldChance(opponentId, leadCards)
+    + tracker.noneHeldChance(opponentId, [...leadCards, ...trumpsOver]);
+
+  if (opponentId === view.bidder && card.suit === trump && view.bidderTrumps.some(c => c.value > card.value)) {
+    return chance * 0.4;
+  }
+  return chance;
+}
+
+/**
+ * Estimated chance this card takes a trick when it is led
+ */
+function winChance(card: Card, view: TableView): number {
+  return view.opponents.reduce(
+    (chance, { id, weight }) => chance * Math.pow(holdChance(view, id, card, card.suit), weight),
+    1
+  );
+}
+
+/**
+ * Distribution of tricks taken, treating each card's chance as independent.
+ * Index n is the chance of taking exactly n tricks.
+ */
+function trickDistribution(chances: number[]): number[] {
+  let distribution = [1];
+  for (const chance of chances) {
+    const next = new Array(distribution.length + 1).fill(0);
+    distribution.forEach((p, tricks) => {
+      next[tricks] += p * (1 - chance);
+      next[tricks + 1] += p * chance;
+    });
+    distribution = next;
+  }
+  return distribution;
+}
+
+/**
+ * Expected change to this player's score from playing the hand with the
+ * given bid (0 for a non-bidder), per the rules in shared/scoring.ts
+ */
+function expectedScoreChange(distribution: number[], bid: number, score: number, spades: boolean): number {
+  return distribution.reduce((total, p, tricks) => {
+    if (spades && bid > 0 && tricks === GAME.TRICKS_PER_ROUND) return total + p * (GAME.WINNING_SCORE - score);
+    const punted = bid > 0 ? tricks < bid : tricks === 0;
+    return total + p * (punted ? GAME.PUNT_PENALTY : -tricks);
+  }, 0);
+}
+
+const scoreOf = (state: GameState, playerId: string) => state.scores.get(playerId) ?? GAME.STARTING_SCORE;
+
+const lowest = (cards: Card[]) => cards.reduce((low, card) => (card.value < low.value ? card : low));
+const highest = (cards: Card[]) => cards.reduce((high, card) => (card.value > high.value ? card : high));
+
+/**
+ * Best bid and its expected score change if this player called `trump`
+ */
+function bestBidFor(state: GameState, player: Player, trump: Suit, bids: number[], tracker: CardTracker) {
+  const score = scoreOf(state, player.id);
+
+  let best = { bid: 0, value: Infinity };
+  bids.filter(bid => bid > 0).forEach(bid => {
+    // A bid of 1 or spades trump keeps everyone in the hand
+    const view = tableView(state, player, trump, bid === 1 || trump === 'spades', tracker);
+    const distribution = trickDistribution(player.hand.map(card => winChance(card, view)));
+    const value = expectedScoreChange(distribution, bid, score, trump === 'spades');
+    if (value < best.value) best = { bid, value };
+  });
+  return best;
+}
+
+export const hardStrategy: Strategy = {
+  bid(state, player) {
+    const options = getDecisionOptions(state);
+    const bids = options?.action === 'bid' ? options.validBids : [];
+    if (!bids.some(bid => bid > 0)) return 0;
+
+    const tracker = trackCards(state, player.id);
+    let best = { bid: 0, value: Infinity };
+    SUITS.forEach(suit => {
+      const candidate = bestBidFor(state, player, suit, bids, tracker);
+      if (candidate.value < best.value) best = candidate;
+    });
+
+    // Taking the bid away from someone about to win is worth a little more risk
+    const leader = state.highestBidder;
+    const blocking = leader && leader !== player.id && scoreOf(state, leader) <= CLOSE_TO_WINNING &&
+      scoreOf(state, player.id) + GAME.PUNT_PENALTY < GAME.ELIMINATION_SCORE;
+    const threshold = BIDDER_EDGE + (blocking ? 1.5 : 0);
+
+    return best.value < threshold ? best.bid : 0;
+  },
+
+  chooseTrump(state, player) {
+    const bid = state.bids.get(player.id) ?? 1;
+    const tracker = trackCards(state, player.id);
+    let best: { suit: Suit; value: number } = { suit: SUITS[0], value: Infinity };
+    SUITS.forEach(suit => {
+      const { value } = bestBidFor(state, player, suit, [bid], tracker);
+      if (value < best.value) best = { suit, value };
+    });
+    return best.suit;
+  },
+
+  sitOrPlay(state, player) {
+    if (!canSit(state, player.id)) return 'play';
+
+    const view = tableView(state, player, state.trumpSuit);
+    const distribution = trickDistribution(player.hand.map(card => winChance(card, view)));
+    const score = scoreOf(state, player.id);
+    let playValue = expectedScoreChange(distribution, 0, score, false);
+
+    // Sitting costs a point near the finish, and sitting again next hand is no longer an option
+    let sitValue = score < GAME.SIT_PENALTY_THRESHOLD ? GAME.SIT_PENALTY : 0;
+    if (player.consecutiveSits + 1 >= GAME.MAX_CONSECUTIVE_SITS) sitValue += 0.5;
+
+    // Every trick we take is one the bidder doesn't - worth more when the bidder is about to win
+    const bidder = state.highestBidder;
+    if (bidder && scoreOf(state, bidder) - getHighestBid(state) <= CLOSE_TO_WINNING) {
+      playValue -= 1.5 * (1 - distribution[0]);
+    }
+
+    // A punt close to elimination costs the game, not just five points
+    if (score + GAME.PUNT_PENALTY >= GAME.ELIMINATION_SCORE) {
+      playValue += distribution[0] * GAME.PUNT_PENALTY;
+    }
+
+    return playValue < sitValue ? 'play' : 'sit';
+  },
+
+  playCard(state, player, validCards) {
+    if (validCards.length === 1) return validCards[0];
+
+    const view = tableView(state, player, state.trumpSuit);
+    const chance = (card: Card) => winChance(card, view);
+
+    // Leading: draw trumps with the top trump while opponents still have some,
+    // then cash the likeliest winner, otherwise give up the trick as cheaply as possible
+    if (state.currentTrick.length === 0) {
+      const trumps = validCards.filter(c => c.suit === view.trump);
+      const topTrump = trumps.length > 0 ? highest(trumps) : null;
+      const trumpsOut = Array.from(view.tracker.trumpDistribution())
+        .filter(([id]) => state.playingPlayers.has(id))
+        .reduce((total, [, count]) => total + count, 0);
+      if (topTrump && chance(topTrump) > 0.9 && trumpsOut >= 0.5 &&
+        (player.id === state.highestBidder || trumps.length >= 2)) {
+        return topTrump;
+      }
+
+      const best = validCards.reduce((a, b) => (chance(b) > chance(a) ? b : a));
+      if (chance(best) >= 0.5) return best;
+
+      const offSuit = validCards.filter(c => c.suit !== view.trump);
+      return lowest(offSuit.length > 0 ? offSuit : validCards);
+    }
+
+    // Following: which cards would take the trick as it stands
+    const winning = validCards.filter(card =>
+      determineTrickWinner([...state.currentTrick, { playerId: player.id, card }], view.trump) === player.id
+    );
+    const discard = () => validCards.reduce((a, b) =>
+      chance(b) < chance(a) || (chance(b) === chance(a) && b.value < a.value) ? b : a
+    );
+    if (winning.length === 0) return discard();
+
+    const playedIds = new Set(state.currentTrick.map(play => play.playerId));
+    const playersAfter = view.opponents.filter(o => !playedIds.has(o.id));
+    if (playersAfter.length === 0) return lowest(winning);
+
+    // Chance nobody still to play can beat the card
+    const leadSuit = state.currentTrick[0].card.suit;
+    const holds = (card: Card) =>
+      playersAfter.reduce((chance, { id }) => chance * holdChance(view, id, card, leadSuit), 1);
+
+    const safe = [...winning].sort((a, b) => a.value - b.value).find(card => holds(card) >= 0.6);
+    if (safe) return safe;
+
+    // Nothing is safe: with no trick yet, take the best shot at one; otherwise
+    // don't throw a good card under a trick we'll probably lose
+    const tricksTaken = state.completedTricks
+      .filter(trick => determineTrickWinner(trick, view.trump) === player.id).length;
+    if (tricksTaken === 0) return winning.reduce((a, b) => (holds(b) > holds(a) ? b : a));
+    return holds(lowest(winning)) >= 0.3 ? lowest(winning) : discard();
+  },
+
+  // Taking -5 moves toward winning; handing everyone else +5 only pays when
+  // it pushes someone out of the game or we're in danger ourselves
+  choosePenalty(state, player) {
+    const score = scoreOf(state, player.id);
+    if (score - GAME.PUNT_PENALTY <= GAME.WINNING_SCORE) return 'self';
+    const knocksOut = state.players.some(p =>
+      p.id !== player.id && scoreOf(state, p.id) + GAME.PUNT_PENALTY > GAME.ELIMINATION_SCORE
+    );
+    return knocksOut || score >= 28 ? 'others' : 'self';
+  },
+};
@@ -1,10 +1,10 @@
-// Server-side AI decision engine
-// Uses shared types from @shared/types
+// Rule-of-thumb AI: hand evaluation and one decision function per phase.
+// heuristicStrategy in strategy.ts (the medium difficulty) plays these.
 
-import type { Card, Player, Suit, TrickPlay } from '@shared/types';
+import type { Card, Player, Suit } from '../types';
 
 // Evaluate hand strength (0-5 scale)
-export function evaluateHandStrength(hand: Card[], trumpSuit: string | null): number {
+export function evaluateHandStrength(hand: Card[], trumpSuit: Suit | null): number {
   let strength = 0;
 
   // Count high cards
@@ -82,7 +82,7 @@ export function makeAIBid(
 }
 
 // AI trump suit selection
-export function chooseAITrumpSuit(hand: Card[]): string {
+export function chooseAITrumpSuit(hand: Card[]): Suit {
   const suits = ['hearts', 'diamonds', 'clubs', 'spades'] as const;
   let bestSuit: typeof suits[number] = suits[0];
   let bestStrength = 0;
@@ -103,11 +103,12 @@ export function chooseAITrumpSuit(hand: Card[]): string {
 export function makeAISitPlayDecision(
   player: Player,
   hand: Card[],
-  trumpSuit: string | null,
+  trumpSuit: Suit | null,
   highestBid: number,
   canSit: boolean,
   currentScore: number | undefined,
-  allScores: Map<string, number>
+  allScores: Map<string, number>,
+  random: () => number = Math.random // Seeded from the deal for reproducible games
 ): 'sit' | 'play' {
   if (!canSit) return 'play';
 
@@ -121,7 +122,7 @@ export function makeAISitPlayDecision(
   // COLLUSION STRATEGY: If someone is at 3 or lower, be aggressive and play
   if (someoneCloseToWinning) {
     // Always plays to gang up unless hand is completely terrible
-    if (handStrength === 0 && player.consecutiveSits === 0 && Math.random() > 0.7) {
+    if (handStrength === 0 && player.consecutiveSits === 0 && random() > 0.7) {
       return 'sit'; // Only 30% chance to sit even with terrible hand
     }
     return 'play';
@@ -147,7 +148,7 @@ export function makeAISitPlayDecision(
 export function chooseAICardToPlay(
   hand: Card[],
   currentTrick: { playerId: string; card: Card }[],
-  trumpSuit: string | null,
+  trumpSuit: Suit | null,
   playableCards: Card[]
 ): Card {
   if (playableCards.length === 0) return hand[0];
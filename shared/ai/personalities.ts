@@ -0,0 +1,83 @@
+// Bot personalities: table habits layered over a difficulty's strategy. The
+// difficulty decides how well a bot reads the cards; the personality bends
+// the bids and sits it makes so players can tell the bots apart.
+
+import { getDecisionOptions } from '../gameEngine';
+import { SUITS } from '../types';
+import { evaluateHandStrength } from './heuristics';
+import type { Strategy } from './strategy';
+import type { AIPersonality, GameState, Player } from '../types';
+
+export interface PersonalityTraits {
+  bidBoost: number; // Tricks added to a bid the strategy makes; 0 leaves bidding alone
+  sitBelow: number; // Sits whenever allowed with a hand weaker than this (0-5 scale); 0 leaves sitting alone
+  gangUpAt: number; // Plays every hand and bids to block while an opponent is at or under this score; 0 = never
+}
+
+export const PERSONALITY_TRAITS: Record<AIPersonality, PersonalityTraits> = {
+  balanced: { bidBoost: 0, sitBelow: 0, gangUpAt: 0 },
+  // Bids a trick over its estimate and opens on hands it would have passed
+  aggressive: { bidBoost: 1, sitBelow: 0, gangUpAt: 0 },
+  // Sits out anything short of a strong hand, right up to the musty limit
+  sitter: { bidBoost: 0, sitBelow: 3, gangUpAt: 0 },
+  // Piles on anyone getting close to winning, well before the others do
+  ganger: { bidBoost: 0, sitBelow: 0, gangUpAt: 6 },
+};
+
+const averageStrength = (player: Player) =>
+  SUITS.reduce((total, suit) => total + evaluateHandStrength(player.hand, suit), 0) / SUITS.length;
+
+// Someone other than `player` close enough to winning to gang up on
+function threatened(state: GameState, player: Player, gangUpAt: number): boolean {
+  return Array.from(state.scores.entries()).some(([id, score]) => id !== player.id && score <= gangUpAt);
+}
+
+/**
+ * Plays `strategy` with the habits of `personality`. Moves only ever change
+ * to other legal ones, so a personality can't stall the table.
+ */
+export function withPersonality(strategy: Strategy, personality: AIPersonality = 'balanced'): Strategy {
+  const traits = PERSONALITY_TRAITS[personality];
+  if (!traits || personality === 'balanced') return strategy;
+
+  return {
+    ...strategy,
+
+    async bid(state, player, random) {
+      const bid = await strategy.bid(state, player, random);
+      const options = getDecisionOptions(state);
+      if (options?.action !== 'bid') return bid;
+      const raises = options.validBids.filter(b => b > 0);
+      if (raises.length === 0) return bid;
+
+      // Take the bid off a player who would win the game by making it
+      const bidder = state.highestBidder;
+      if (
+        traits.gangUpAt > 0 &&
+        bid === 0 &&
+        bidder && bidder !== player.id &&
+        (state.scores.get(bidder) ?? Infinity) <= traits.gangUpAt &&
+        averageStrength(player) >= 1
+      ) {
+        return raises[0];
+      }
+
+      if (traits.bidBoost > 0) {
+        // A hand the strategy passed still has a rough worth; open at that
+        const target = bid > 0 ? bid + traits.bidBoost : Math.floor(averageStrength(player));
+        const affordable = raises.filter(b => b <= target);
+        if (affordable.length > 0) return Math.max(...affordable);
+      }
+      return bid;
+    },
+
+    sitOrPlay(state, player, random) {
+      const options = getDecisionOptions(state);
+      if (options?.action === 'sitpass' && options.decisions.includes('sit')) {
+        if (traits.gangUpAt > 0 && threatened(state, player, traits.gangUpAt)) return 'play';
+        if (evaluateHandStrength(player.hand, state.trumpSuit) < traits.sitBelow) return 'sit';
+      }
+      return strategy.sitOrPlay(state, player, random);
+    },
+  };
+}
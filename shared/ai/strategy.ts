@@ -0,0 +1,238 @@
+// AI strategies: one decision per game phase, read off the engine state.
+// Local games (useAIPlayer), the server's game loop and the simulation runner
+// all play through these, so a bot plays the same wherever it sits.
+
+import { makeAIBid, chooseAITrumpSuit, makeAISitPlayDecision, chooseAICardToPlay } from './heuristics';
+import { getCurrentPlayer, getDecisionOptions, getHighestBid, canSit } from '../gameEngine';
+import { GAME } from '../constants';
+import { createRandom, deriveSeed, type RandomSource } from '../random';
+import { hardStrategy } from './hardStrategy';
+import { expertStrategy } from './expertStrategy';
+import { PERSONALITY_TRAITS, withPersonality } from './personalities';
+import type {
+  AIDifficulty,
+  AIPersonality,
+  Card,
+  GameAction,
+  GameState,
+  PenaltyChoice,
+  Player,
+  SitPassDecision,
+  Suit,
+} from '../types';
+
+export type MaybePromise<T> = T | Promise<T>;
+
+// Strategies that roll dice must use `random`: it is seeded from the deal,
+// so a game replayed from its seeds makes the same decisions. Strategies that
+// search (the expert) answer with a promise so they can yield while they think.
+export interface Strategy {
+  bid(state: GameState, player: Player, random: RandomSource): MaybePromise<number>;
+  chooseTrump(state: GameState, player: Player, random: RandomSource): MaybePromise<Suit>;
+  sitOrPlay(state: GameState, player: Player, random: RandomSource): MaybePromise<SitPassDecision>;
+  playCard(state: GameState, player: Player, validCards: Card[], random: RandomSource): MaybePromise<Card>;
+  choosePenalty(state: GameState, player: Player, random: RandomSource): MaybePromise<PenaltyChoice>;
+}
+
+// The rule-of-thumb player in heuristics.ts
+export const heuristicStrategy: Strategy = {
+  bid(state, player) {
+    return makeAIBid(
+      player.hand,
+      getHighestBid(state),
+      state.currentPlayerIndex === state.dealerIndex,
+      state.players.length,
+      player.id,
+      state.scores,
+      state.highestBidder
+    );
+  },
+
+  chooseTrump(_state, player) {
+    return chooseAITrumpSuit(player.hand);
+  },
+
+  sitOrPlay(state, player, random) {
+    return makeAISitPlayDecision(
+      player,
+      player.hand,
+      state.trumpSuit,
+      getHighestBid(state),
+      canSit(state, player.id),
+      state.scores.get(player.id),
+      state.scores,
+      random
+    );
+  },
+
+  playCard(state, player, validCards) {
+    return chooseAICardToPlay(player.hand, state.currentTrick, state.trumpSuit, validCards);
+  },
+
+  // Usually better to take -5 yourself (moves toward winning),
+  // but close to elimination give +5 to everyone else instead
+  choosePenalty(state, player) {
+    const currentScore = state.scores.get(player.id) ?? GAME.STARTING_SCORE;
+    return currentScore >= 28 ? 'others' : 'self';
+  },
+};
+
+const pick = <T>(options: T[], random: RandomSource): T => options[Math.floor(random() * options.length)];
+
+/**
+ * Picks uniformly among the legal moves - a floor for other strategies to beat
+ */
+export const randomStrategy: Strategy = {
+  bid(state, _player, random) {
+    const options = getDecisionOptions(state);
+    return options?.action === 'bid' ? pick(options.validBids, random) : 0;
+  },
+  chooseTrump(state, _player, random) {
+    const options = getDecisionOptions(state);
+    return options?.action === 'trump' ? pick(options.suits, random) : 'spades';
+  },
+  sitOrPlay(state, _player, random) {
+    const options = getDecisionOptions(state);
+    return options?.action === 'sitpass' ? pick(options.decisions, random) : 'play';
+  },
+  playCard(_state, _player, validCards, random) {
+    return pick(validCards, random);
+  },
+  choosePenalty(_state, _player, random) {
+    return pick<PenaltyChoice>(['self', 'others'], random);
+  },
+};
+
+/**
+ * Plays `strategy`, except that a `rate` share of decisions is a random legal move
+ */
+export function withMistakes(strategy: Strategy, rate: number): Strategy {
+  const blunder = (random: RandomSource) => random() < rate;
+  return {
+    bid: (state, player, random) =>
+      blunder(random) ? randomStrategy.bid(state, player, random) : strategy.bid(state, player, random),
+    chooseTrump: (state, player, random) =>
+      blunder(random) ? randomStrategy.chooseTrump(state, player, random) : strategy.chooseTrump(state, player, random),
+    sitOrPlay: (state, player, random) =>
+      blunder(random) ? randomStrategy.sitOrPlay(state, player, random) : strategy.sitOrPlay(state, player, random),
+    playCard: (state, player, validCards, random) =>
+      blunder(random)
+        ? randomStrategy.playCard(state, player, validCards, random)
+        : strategy.playCard(state, player, validCards, random),
+    choosePenalty: (state, player, random) =>
+      blunder(random) ? randomStrategy.choosePenalty(state, player, random) : strategy.choosePenalty(state, player, random),
+  };
+}
+
+// The tiers offered when adding an AI seat. Medium is the original heuristic
+// player; easy is the same player blundering a quarter of the time.
+export const DIFFICULTY_STRATEGIES: Record<AIDifficulty, Strategy> = {
+  easy: withMistakes(heuristicStrategy, 0.25),
+  medium: heuristicStrategy,
+  hard: hardStrategy,
+  expert: expertStrategy,
+};
+
+export function strategyForDifficulty(difficulty: AIDifficulty = 'medium'): Strategy {
+  return DIFFICULTY_STRATEGIES[difficulty] ?? heuristicStrategy;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const registry = new Map<string, Strategy>();
+
+/**
+ * Make a strategy selectable by name. Registering a taken name replaces it.
+ */
+export function registerStrategy(name: string, strategy: Strategy): void {
+  registry.set(name, strategy);
+}
+
+export function getStrategy(name: string): Strategy | undefined {
+  return registry.get(name);
+}
+
+export function strategyNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+// Difficulty plus personality, e.g. 'hard' or 'hard-ganger'
+const seatStrategyName = (difficulty: AIDifficulty, personality: AIPersonality) =>
+  personality === 'balanced' ? difficulty : `${difficulty}-${personality}`;
+
+registerStrategy('heuristic', heuristicStrategy);
+registerStrategy('random', randomStrategy);
+(Object.keys(DIFFICULTY_STRATEGIES) as AIDifficulty[]).forEach(difficulty => {
+  (Object.keys(PERSONALITY_TRAITS) as AIPersonality[]).forEach(personality => {
+    registerStrategy(
+      seatStrategyName(difficulty, personality),
+      withPersonality(DIFFICULTY_STRATEGIES[difficulty], personality)
+    );
+  });
+});
+// A bare personality plays at medium
+(Object.keys(PERSONALITY_TRAITS) as AIPersonality[]).forEach(personality => {
+  if (personality !== 'balanced') registerStrategy(personality, getStrategy(seatStrategyName('medium', personality))!);
+});
+
+/**
+ * The strategy an AI seat plays: its difficulty with its personality on top
+ */
+export function strategyForPlayer(player: Player): Strategy {
+  return getStrategy(seatStrategyName(player.aiDifficulty ?? 'medium', player.aiPersonality ?? 'balanced'))
+    ?? strategyForDifficulty(player.aiDifficulty);
+}
+
+const sameCard = (a: Card, b: Card) => a.suit === b.suit && a.rank === b.rank;
+
+/**
+ * The move a strategy makes for whoever's turn it is, or null when there is
+ * no decision to make. A move the rules don't allow is swapped for the first
+ * legal one so a faulty strategy can't stall the table.
+ */
+export async function chooseAIAction(state: GameState, strategy: Strategy): Promise<GameAction | null> {
+  const player = getCurrentPlayer(state);
+  const options = getDecisionOptions(state);
+  if (!player || !options) return null;
+
+  // Same deal, same seat, same point in the hand: same dice
+  const random = createRandom(deriveSeed(
+    state.dealSeed ?? 0,
+    player.id,
+    state.gamePhase,
+    state.trickNumber,
+    state.currentTrick.length
+  ));
+
+  const playerId = player.id;
+  switch (options.action) {
+    case 'bid': {
+      const bid = await strategy.bid(state, player, random);
+      return { action: 'bid', payload: { playerId, bid: options.validBids.includes(bid) ? bid : options.validBids[0] } };
+    }
+    case 'trump': {
+      const suit = await strategy.chooseTrump(state, player, random);
+      return { action: 'trump', payload: { playerId, suit: options.suits.includes(suit) ? suit : options.suits[0] } };
+    }
+    case 'sitpass': {
+      const decision = await strategy.sitOrPlay(state, player, random);
+      return {
+        action: 'sitpass',
+        payload: { playerId, decision: options.decisions.includes(decision) ? decision : options.decisions[0] }
+      };
+    }
+    case 'playcard': {
+      const card = await strategy.playCard(state, player, options.validCards, random);
+      return {
+        action: 'playcard',
+        payload: { playerId, card: options.validCards.find(c => sameCard(c, card)) ?? options.validCards[0] }
+      };
+    }
+    case 'penalty': {
+      const choice = await strategy.choosePenalty(state, player, random);
+      return { action: 'penalty', payload: { playerId, choice: options.choices.includes(choice) ? choice : options.choices[0] } };
+    }
+  }
+}
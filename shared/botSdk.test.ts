@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  BotClient,
+  basicStrategy,
+  decide,
+  firstOption,
+  type BotCloseEvent,
+  type BotErrorEvent,
+  type BotMessageEvent,
+  type BotSocket,
+  type BotStrategy
+} from './botSdk';
+import { addPlayer, applyAction, createGameState, getDecisionOptions } from './gameEngine';
+import { serializeGameState, serializePlayer } from './serialization';
+import type { DecisionRequestMessage } from './messages';
+import type { DecisionOptions } from './types';
+
+/** A request for the first seat to bid on a freshly dealt hand */
+function bidRequest(options?: DecisionOptions): DecisionRequestMessage {
+  let state = createGameState();
+  for (const id of ['p0', 'p1', 'p2', 'p3']) {
+    state = addPlayer(state, { id, name: id, hand: [], isActive: true, consecutiveSits: 0, isAI: false });
+  }
+  const dealt = applyAction(state, { action: 'deal', payload: { seed: 5 } });
+  if (!dealt.valid) throw new Error(dealt.error);
+  const player = dealt.state.players[dealt.state.currentPlayerIndex];
+
+  return {
+    type: 'DECISION_REQUEST',
+    requestId: 'req-1',
+    playerId: player.id,
+    deadline: Date.now() + 10000,
+    timeLimitMs: 10000,
+    hand: player.hand,
+    options: options ?? getDecisionOptions(dealt.state)!,
+    players: dealt.state.players.map(p => serializePlayer(p, p.id === player.id)),
+    gameState: serializeGameState(dealt.state)
+  };
+}
+
+const strategyWith = (overrides: Partial<BotStrategy>): BotStrategy => ({ ...basicStrategy, ...overrides });
+
+describe('decide', () => {
+  it("wraps the strategy's move as a response to the request", async () => {
+    const response = await decide(bidRequest(), strategyWith({ bid: () => 3 }));
+    expect(response).toEqual({ type: 'DECISION_RESPONSE', requestId: 'req-1', action: 'bid', payload: { bid: 3 } });
+  });
+
+  it('swaps a move outside the options for the first legal one', async () => {
+    const request = bidRequest({ action: 'bid', validBids: [0, 4, 5] });
+    const response = await decide(request, strategyWith({ bid: () => 2 }));
+    expect(response.payload).toEqual({ bid: 0 });
+  });
+
+  it('waits for strategies that answer with a promise', async () => {
+    const request = bidRequest({ action: 'trump', suits: ['hearts', 'spades'] });
+    const response = await decide(request, strategyWith({ trump: async () => 'spades' as const }));
+    expect(response.payload).toEqual({ suit: 'spades' });
+  });
+
+  it('keeps basicStrategy to the legal options', async () => {
+    const request = bidRequest();
+    const response = await decide(request);
+    expect((request.options as { validBids: number[] }).validBids).toContain((response.payload as { bid: number }).bid);
+  });
+});
+
+describe('firstOption', () => {
+  it('answers with the first listed option for every decision', () => {
+    const request = bidRequest();
+    const card = request.hand[0];
+    expect(firstOption({ ...request, options: { action: 'sitpass', decisions: ['play'] } }).payload).toEqual({ decision: 'play' });
+    expect(firstOption({ ...request, options: { action: 'playcard', validCards: [card] } }).payload).toEqual({ card });
+    expect(firstOption({ ...request, options: { action: 'penalty', choices: ['self', 'others'] } }).payload).toEqual({ choice: 'self' });
+  });
+});
+
+/** Socket the test drives by hand */
+class FakeSocket implements BotSocket {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: BotMessageEvent) => void) | null = null;
+  onclose: ((event: BotCloseEvent) => void) | null = null;
+  onerror: ((event: BotErrorEvent) => void) | null = null;
+  sent: unknown[] = [];
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.onclose?.({ code: 1000, reason: '' });
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function botWith(strategy?: BotStrategy, onError?: (error: Error) => void) {
+  const sockets: FakeSocket[] = [];
+  const bot = new BotClient({
+    url: 'ws://test/ws',
+    roomId: 'ROOM01',
+    name: 'Testbot',
+    strategy,
+    onError,
+    createSocket: () => {
+      sockets.push(new FakeSocket());
+      return sockets[sockets.length - 1];
+    }
+  });
+  return { bot, sockets };
+}
+
+async function seat(bot: BotClient, socket: () => FakeSocket) {
+  const connected = bot.connect();
+  socket().onopen?.({});
+  socket().receive({ type: 'JOINED_ROOM', localPlayerId: 'bot_1', reconnectToken: 'token-1' });
+  await connected;
+}
+
+describe('BotClient', () => {
+  it('joins with BOT_JOIN and keeps the seat and token', async () => {
+    const { bot, sockets } = botWith();
+    await seat(bot, () => sockets[0]);
+
+    expect(sockets[0].sent).toEqual([{ type: 'BOT_JOIN', roomId: 'ROOM01', botName: 'Testbot' }]);
+    expect(bot.playerId).toBe('bot_1');
+    expect(bot.reconnectToken).toBe('token-1');
+  });
+
+  it('rejoins with the saved token on the next connect', async () => {
+    const { bot, sockets } = botWith();
+    await seat(bot, () => sockets[0]);
+    bot.close();
+
+    const reconnected = bot.connect();
+    sockets[1].onopen?.({});
+    sockets[1].receive({ type: 'REJOINED_ROOM', localPlayerId: 'bot_1', reconnectToken: 'token-2' });
+    await reconnected;
+
+    expect(sockets[1].sent).toEqual([{ type: 'REJOIN_ROOM', roomId: 'ROOM01', reconnectToken: 'token-1' }]);
+    expect(bot.reconnectToken).toBe('token-2');
+  });
+
+  it('rejects when the server refuses the seat or the socket closes first', async () => {
+    const refused = botWith();
+    const joining = refused.bot.connect();
+    refused.sockets[0].receive({ type: 'ERROR', message: 'Room is full' });
+    await expect(joining).rejects.toThrow('Room is full');
+
+    const dropped = botWith();
+    const connecting = dropped.bot.connect();
+    dropped.sockets[0].onclose?.({ code: 1006, reason: '' });
+    await expect(connecting).rejects.toThrow('Connection closed before joining (1006)');
+  });
+
+  it("answers decision requests with the strategy's move", async () => {
+    const { bot, sockets } = botWith(strategyWith({ bid: () => 0 }));
+    await seat(bot, () => sockets[0]);
+
+    sockets[0].receive(bidRequest());
+    await vi.waitFor(() => expect(sockets[0].sent).toHaveLength(2));
+    expect(sockets[0].sent[1]).toMatchObject({ type: 'DECISION_RESPONSE', requestId: 'req-1', payload: { bid: 0 } });
+  });
+
+  it('plays the first legal option and reports the error when the strategy throws', async () => {
+    const onError = vi.fn();
+    const strategy = strategyWith({ bid: () => { throw new Error('strategy crashed'); } });
+    const { bot, sockets } = botWith(strategy, onError);
+    await seat(bot, () => sockets[0]);
+
+    const request = bidRequest({ action: 'bid', validBids: [0, 3, 4, 5] });
+    sockets[0].receive(request);
+    await vi.waitFor(() => expect(sockets[0].sent).toHaveLength(2));
+
+    expect(sockets[0].sent[1]).toEqual(firstOption(request));
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'strategy crashed' }));
+  });
+
+  it('reports socket errors', async () => {
+    const onError = vi.fn();
+    const { bot, sockets } = botWith(undefined, onError);
+    await seat(bot, () => sockets[0]);
+
+    sockets[0].onerror?.({ type: 'error', message: 'connection reset' });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'connection reset' }));
+  });
+});
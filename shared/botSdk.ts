@@ -0,0 +1,293 @@
+/**
+ * Bot SDK for ShnarpsDuel
+ * Reference client for the WebSocket bot protocol (see BOT_API.md).
+ *
+ * A bot is a BotStrategy: one method per decision, each handed only the legal
+ * options the server listed. BotClient takes a seat with BOT_JOIN, answers
+ * every DECISION_REQUEST with the strategy's move and keeps the seat's
+ * reconnect token so a dropped bot can rejoin.
+ */
+
+import type { Card, DecisionOptions, PenaltyChoice, SitPassDecision, Suit, TrickPlay } from './types';
+import type { DecisionRequestMessage, DecisionResponseMessage, ServerMessage } from './messages';
+import { createClientMessage } from './messages';
+import { GAME } from './constants';
+import { countSuits, determineTrickWinner, findStrongestSuit } from './cardOperations';
+import { evaluateHandStrength } from './ai/heuristics';
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * One method per decision. Each gets the legal options for it (never empty)
+ * plus the full request for the hand, scores and table state.
+ */
+export interface BotStrategy {
+  bid(validBids: number[], request: DecisionRequestMessage): MaybePromise<number>;
+  trump(suits: Suit[], request: DecisionRequestMessage): MaybePromise<Suit>;
+  sitPass(decisions: SitPassDecision[], request: DecisionRequestMessage): MaybePromise<SitPassDecision>;
+  playCard(validCards: Card[], request: DecisionRequestMessage): MaybePromise<Card>;
+  penalty(choices: PenaltyChoice[], request: DecisionRequestMessage): MaybePromise<PenaltyChoice>;
+}
+
+const byValue = (a: Card, b: Card) => a.value - b.value;
+
+/**
+ * Rough number of tricks a hand should take with its longest suit as trump:
+ * every ace, kings in the trump suit, and trump length beyond two cards
+ */
+function estimateTricks(hand: Card[]): number {
+  const trump = findStrongestSuit(hand);
+  const aces = hand.filter(c => c.rank === 'A').length;
+  const trumpKings = hand.filter(c => c.rank === 'K' && c.suit === trump).length;
+  const extraTrumps = Math.max(0, countSuits(hand)[trump] - 2);
+  return Math.min(GAME.MAX_BID, aces + trumpKings + extraTrumps);
+}
+
+/**
+ * Reference strategy built on cardOperations and the shared AI's hand
+ * evaluation. Plays sensibly but makes no
+ * attempt to count cards or read other players' bids.
+ */
+export const basicStrategy: BotStrategy = {
+  bid(validBids, request) {
+    // Bids under two can't make their points back - punt if allowed
+    const estimate = estimateTricks(request.hand);
+    const target = estimate >= 2 ? estimate : 0;
+    const affordable = validBids.filter(bid => bid <= target);
+    return affordable.length > 0 ? Math.max(...affordable) : validBids[0];
+  },
+
+  trump(suits, request) {
+    const strongest = findStrongestSuit(request.hand);
+    return suits.includes(strongest) ? strongest : suits[0];
+  },
+
+  sitPass(decisions, request) {
+    const strength = evaluateHandStrength(request.hand, request.gameState.trumpSuit);
+    return decisions.includes('sit') && strength < 2 ? 'sit' : 'play';
+  },
+
+  playCard(validCards, request) {
+    const trick = request.gameState.currentTrick;
+    const ascending = [...validCards].sort(byValue);
+
+    // Leading: cash the best card
+    if (trick.length === 0) {
+      return ascending[ascending.length - 1];
+    }
+
+    // Following: win as cheaply as possible, otherwise throw the lowest card
+    const wins = (card: Card) => {
+      const play: TrickPlay = { playerId: request.playerId, card };
+      return determineTrickWinner([...trick, play], request.gameState.trumpSuit) === request.playerId;
+    };
+    return ascending.find(wins) ?? ascending[0];
+  },
+
+  penalty() {
+    return 'self';
+  },
+};
+
+// =============================================================================
+// DECISIONS
+// =============================================================================
+
+const sameCard = (a: Card, b: Card) => a.suit === b.suit && a.rank === b.rank;
+
+/**
+ * The first legal option as a DECISION_RESPONSE
+ */
+export function firstOption(request: DecisionRequestMessage): DecisionResponseMessage {
+  const options: DecisionOptions = request.options;
+  const respond = (payload: unknown) =>
+    createClientMessage.decisionResponse(request.requestId, options.action, payload);
+
+  switch (options.action) {
+    case 'bid':
+      return respond({ bid: options.validBids[0] });
+    case 'trump':
+      return respond({ suit: options.suits[0] });
+    case 'sitpass':
+      return respond({ decision: options.decisions[0] });
+    case 'playcard':
+      return respond({ card: options.validCards[0] });
+    case 'penalty':
+      return respond({ choice: options.choices[0] });
+  }
+}
+
+/**
+ * Ask a strategy for its move and wrap it as a DECISION_RESPONSE. A move
+ * outside the listed options is replaced by the first legal one, so a buggy
+ * strategy costs a trick rather than the deadline.
+ */
+export async function decide(
+  request: DecisionRequestMessage,
+  strategy: BotStrategy = basicStrategy
+): Promise<DecisionResponseMessage> {
+  const options: DecisionOptions = request.options;
+  const respond = (payload: unknown) =>
+    createClientMessage.decisionResponse(request.requestId, options.action, payload);
+
+  switch (options.action) {
+    case 'bid': {
+      const bid = await strategy.bid(options.validBids, request);
+      return respond({ bid: options.validBids.includes(bid) ? bid : options.validBids[0] });
+    }
+    case 'trump': {
+      const suit = await strategy.trump(options.suits, request);
+      return respond({ suit: options.suits.includes(suit) ? suit : options.suits[0] });
+    }
+    case 'sitpass': {
+      const decision = await strategy.sitPass(options.decisions, request);
+      return respond({ decision: options.decisions.includes(decision) ? decision : options.decisions[0] });
+    }
+    case 'playcard': {
+      const card = await strategy.playCard(options.validCards, request);
+      return respond({ card: options.validCards.find(c => sameCard(c, card)) ?? options.validCards[0] });
+    }
+    case 'penalty': {
+      const choice = await strategy.penalty(options.choices, request);
+      return respond({ choice: options.choices.includes(choice) ? choice : options.choices[0] });
+    }
+  }
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+// Listener parameters are checked like method parameters, so sockets whose
+// listeners take richer events (MessageEvent, CloseEvent...) still fit
+type Listener<E> = { bivarianceHack(event: E): void }['bivarianceHack'];
+
+export interface BotMessageEvent {
+  data: unknown; // A JSON-encoded ServerMessage
+}
+
+export interface BotCloseEvent {
+  code: number;
+  reason: string;
+}
+
+export interface BotErrorEvent {
+  type: string;
+  message?: string; // Set by the ws package, not by browsers
+}
+
+/**
+ * The parts of a WebSocket the client uses. Browsers' WebSocket fits as is;
+ * in Node pass `url => new WebSocket(url)` from the `ws` package.
+ */
+export interface BotSocket {
+  onopen: Listener<unknown> | null;
+  onmessage: Listener<BotMessageEvent> | null;
+  onclose: Listener<BotCloseEvent> | null;
+  onerror: Listener<BotErrorEvent> | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface BotClientOptions {
+  url: string; // e.g. ws://localhost:5000/ws
+  roomId: string;
+  name: string;
+  strategy?: BotStrategy;
+  createSocket?: (url: string) => BotSocket;
+  onMessage?: (message: ServerMessage) => void; // Every message, for logging or UIs
+  onError?: (error: Error) => void; // Strategy and socket errors (default: console.error)
+}
+
+export class BotClient {
+  playerId: string | null = null;
+  reconnectToken: string | null = null;
+  private socket: BotSocket | null = null;
+
+  constructor(private options: BotClientOptions) {}
+
+  /**
+   * Take a seat, or take the same seat back once one is held. Resolves when
+   * the server confirms the seat and rejects if it refuses.
+   */
+  connect(): Promise<void> {
+    const { url, roomId, name, createSocket } = this.options;
+    const socket: BotSocket = createSocket ? createSocket(url) : new WebSocket(url);
+    this.socket = socket;
+
+    return new Promise((resolve, reject) => {
+      let seated = false;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify(this.reconnectToken
+          ? createClientMessage.rejoinRoom(roomId, this.reconnectToken)
+          : createClientMessage.botJoin(roomId, name)));
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(String(event.data));
+        this.options.onMessage?.(message);
+
+        switch (message.type) {
+          case 'JOINED_ROOM':
+          case 'REJOINED_ROOM':
+            this.playerId = message.localPlayerId;
+            this.reconnectToken = message.reconnectToken;
+            seated = true;
+            resolve();
+            break;
+          case 'DECISION_REQUEST':
+            void this.answer(message);
+            break;
+          case 'ERROR':
+            if (!seated) reject(new Error(message.message));
+            break;
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (this.socket === socket) this.socket = null;
+        if (!seated) reject(new Error(`Connection closed before joining (${event.code})`));
+      };
+
+      // A close always follows, so this only reports
+      socket.onerror = (event) => {
+        this.reportError(new Error(event.message || 'WebSocket error'));
+      };
+    });
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Answer a DECISION_REQUEST. If the strategy throws, the seat still plays
+   * the first legal option - an answer beats waiting out the deadline.
+   */
+  private async answer(request: DecisionRequestMessage): Promise<void> {
+    let response: DecisionResponseMessage;
+    try {
+      response = await decide(request, this.options.strategy);
+    } catch (error) {
+      this.reportError(error);
+      response = firstOption(request);
+    }
+
+    try {
+      this.socket?.send(JSON.stringify(response));
+    } catch (error) {
+      this.reportError(error);
+    }
+  }
+
+  private reportError(error: unknown): void {
+    const onError = this.options.onError ?? console.error;
+    onError(error instanceof Error ? error : new Error(String(error)));
+  }
+}
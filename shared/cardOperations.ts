@@ -3,7 +3,7 @@
  * Single source of truth for deck creation, shuffling, dealing, and trick evaluation
  */
 
-import type { Card, Suit, Rank, TrickPlay } from './types';
+import type { Card, Suit, TrickPlay } from './types';
 import { RANKS, SUITS } from './types';
 import { RANK_VALUES, SUIT_ORDER, GAME } from './constants';
 
@@ -37,11 +37,12 @@ export function createDeck(): Card[] {
 
 /**
  * Shuffle a deck using Fisher-Yates algorithm
+ * @param random Source of numbers in [0, 1) - pass a seeded one to reproduce a deal
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -192,7 +193,7 @@ export function isValidPlay(
   card: Card,
   hand: Card[],
   currentTrick: TrickPlay[],
-  trumpSuit: Suit | null
+  _trumpSuit: Suit | null
 ): boolean {
   // If first card of trick, any card is valid
   if (currentTrick.length === 0) return true;
@@ -226,7 +227,7 @@ export function hasSuit(hand: Card[], suit: Suit): boolean {
 export function getValidPlays(
   hand: Card[],
   currentTrick: TrickPlay[],
-  trumpSuit: Suit | null
+  _trumpSuit: Suit | null
 ): Card[] {
   if (currentTrick.length === 0) {
     // Any card is valid when leading
@@ -249,33 +250,6 @@ export function getValidPlays(
 // HAND EVALUATION (for AI)
 // =============================================================================
 
-/**
- * Evaluate the strength of a hand (for AI bidding)
- * Returns a score from 0-100
- */
-export function evaluateHandStrength(hand: Card[], trumpSuit: Suit | null = null): number {
-  let score = 0;
-
-  for (const card of hand) {
-    // Base score from card value
-    let cardScore = card.value - 2; // 0-12 range
-
-    // Bonus for trump cards
-    if (trumpSuit && card.suit === trumpSuit) {
-      cardScore += 5;
-    }
-
-    // Bonus for aces and kings
-    if (card.rank === 'A') cardScore += 3;
-    if (card.rank === 'K') cardScore += 2;
-
-    score += cardScore;
-  }
-
-  // Normalize to 0-100
-  return Math.min(100, Math.round((score / 50) * 100));
-}
-
 /**
  * Count the number of cards in each suit
  */
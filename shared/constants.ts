@@ -3,7 +3,7 @@
  * Single source of truth for all game constants used by client and server
  */
 
-import type { Rank } from './types';
+import type { Rank, ReactionId } from './types';
 
 // =============================================================================
 // GAME RULES
@@ -26,7 +26,7 @@ export const GAME = {
   MAX_PLAYERS: 8,
 
   /** Minimum number of players to start a game */
-  MIN_PLAYERS: 2,
+  MIN_PLAYERS: 4,
 
   /** Maximum bid value */
   MAX_BID: 5,
@@ -37,9 +37,15 @@ export const GAME = {
   /** Points added to score when punting fails (took tricks) or bid not met */
   PUNT_PENALTY: 5,
 
-  /** Points subtracted per trick for sitting players who get tricked */
+  /** Points added to a sitting player's score when they are close to winning */
   SIT_PENALTY: 1,
 
+  /** Sitting costs SIT_PENALTY only while the player's score is below this */
+  SIT_PENALTY_THRESHOLD: 5,
+
+  /** Points the bidder takes (or gives everyone else) when everyone else sits */
+  EVERYONE_SAT_PENALTY: 5,
+
   /** Number of consecutive sits before musty rule forces play */
   MAX_CONSECUTIVE_SITS: 2,
 
@@ -58,12 +64,21 @@ export const TIMING = {
   /** Delay for trick complete animation before next trick (ms) */
   TRICK_COMPLETE_DELAY: 1500,
 
+  /** Delay on the round summary before the next hand is dealt (ms) */
+  ROUND_COMPLETE_DELAY: 3000,
+
   /** Default turn time limit in seconds (0 = no limit) */
   TURN_TIME_LIMIT_DEFAULT: 30,
 
   /** Time before inactive room is cleaned up (ms) - 30 minutes */
   ROOM_CLEANUP_TIMEOUT: 30 * 60 * 1000,
 
+  /** Time a bot seat gets to answer a decision request before the server moves for it (ms) */
+  BOT_DECISION_TIMEOUT: 5000,
+
+  /** Most time the expert AI spends searching one decision (ms) */
+  EXPERT_AI_THINK_TIME: 250,
+
   /** Delay before auto-playing for disconnected player (ms) */
   DISCONNECT_AUTO_PLAY_DELAY: 2000,
 
@@ -115,6 +130,30 @@ export const ROOM = {
   CODE_LENGTH: 6,
 } as const;
 
+// =============================================================================
+// SPECTATORS
+// =============================================================================
+
+export const SPECTATOR = {
+  /** Most spectators one room accepts */
+  MAX_PER_ROOM: 50,
+
+  /** Time between the all-hands views of a finished hand as it is replayed to spectators (ms) */
+  ALL_HANDS_REPLAY_STEP: 1500,
+} as const;
+
+// =============================================================================
+// LOBBY
+// =============================================================================
+
+export const LOBBY = {
+  /** How long a quick match room waits for people before AI fills the empty seats and it starts (ms) */
+  BACKFILL_DELAY: 30 * 1000,
+
+  /** Lobby watchers get at most one room list per interval, however busy the rooms are (ms) */
+  UPDATE_INTERVAL: 1000,
+} as const;
+
 // =============================================================================
 // WEBSOCKET
 // =============================================================================
@@ -130,6 +169,46 @@ export const WS = {
   PONG_TIMEOUT: 10000,
 } as const;
 
+// =============================================================================
+// CHAT
+// =============================================================================
+
+export const CHAT = {
+  /** Longest chat message in characters - far below WS.MAX_MESSAGE_SIZE */
+  MAX_LENGTH: 200,
+
+  /** Messages a room keeps and replays to players who join or rejoin */
+  HISTORY_SIZE: 50,
+
+  /** Most messages one player may send within RATE_WINDOW */
+  RATE_LIMIT: 5,
+
+  /** Window for RATE_LIMIT (ms) */
+  RATE_WINDOW: 10000,
+} as const;
+
+// =============================================================================
+// REACTIONS
+// =============================================================================
+
+export const REACTION = {
+  /** Time a player must wait between reactions (ms) */
+  COOLDOWN: 3000,
+
+  /** How long a reaction bubble stays over the sender's seat (ms) */
+  DISPLAY_TIME: 2500,
+} as const;
+
+/** What each quick reaction shows at the table */
+export const REACTIONS: Record<ReactionId, { emoji: string; label: string }> = {
+  nice_trump: { emoji: '👏', label: 'Nice trump' },
+  nice_hand: { emoji: '🔥', label: 'Nice hand' },
+  ouch: { emoji: '😬', label: 'Ouch' },
+  musty: { emoji: '🍄', label: 'Musty!' },
+  hurry: { emoji: '⏳', label: 'Hurry up' },
+  gg: { emoji: '🤝', label: 'Good game' },
+};
+
 // =============================================================================
 // UI
 // =============================================================================
@@ -163,6 +242,7 @@ export const DEFAULT_SETTINGS = {
   turnTimeLimit: 0, // No time limit by default
   moneyPerPoint: 0.25,
   moneyPerPunt: 1.0,
+  coachAllowed: true,
 } as const;
 
 // =============================================================================
@@ -0,0 +1,239 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addPlayer,
+  applyAction,
+  createGameState,
+  getCurrentPlayer,
+  getDecisionOptions,
+  getValidBids,
+} from './gameEngine';
+import { DEFAULT_SETTINGS, GAME } from './constants';
+import { ErrorCode } from './messages';
+import type { EngineAction, GameState, Player } from './types';
+
+function makePlayer(id: string): Player {
+  return { id, name: id, hand: [], isActive: true, consecutiveSits: 0, isAI: false };
+}
+
+function seated(count = 4): GameState {
+  let state = createGameState();
+  for (let i = 0; i < count; i++) {
+    state = addPlayer(state, makePlayer(`p${i}`));
+  }
+  return state;
+}
+
+/** Apply an action that must be legal */
+function apply(state: GameState, action: EngineAction): GameState {
+  const result = applyAction(state, action);
+  if (!result.valid) throw new Error(`${action.action} rejected: ${result.error}`);
+  return result.state;
+}
+
+function deal(state: GameState, seed = 42): GameState {
+  return apply(state, { action: 'deal', payload: { seed } });
+}
+
+function bid(state: GameState, amount: number): GameState {
+  const player = getCurrentPlayer(state)!;
+  return apply(state, { action: 'bid', payload: { playerId: player.id, bid: amount } });
+}
+
+/** Take the first legal option for whoever is on turn */
+function takeFirstOption(state: GameState): GameState {
+  if (state.gamePhase === 'trick_complete') {
+    return apply(state, { action: 'advance', payload: {} });
+  }
+  const playerId = getCurrentPlayer(state)!.id;
+  const options = getDecisionOptions(state)!;
+  switch (options.action) {
+    case 'bid':
+      return apply(state, { action: 'bid', payload: { playerId, bid: options.validBids[options.validBids.length - 1] } });
+    case 'trump':
+      return apply(state, { action: 'trump', payload: { playerId, suit: options.suits[0] } });
+    case 'sitpass':
+      return apply(state, { action: 'sitpass', payload: { playerId, decision: 'play' } });
+    case 'playcard':
+      return apply(state, { action: 'playcard', payload: { playerId, card: options.validCards[0] } });
+    case 'penalty':
+      return apply(state, { action: 'penalty', payload: { playerId, choice: 'self' } });
+  }
+}
+
+function playRound(state: GameState): GameState {
+  let next = state;
+  for (let step = 0; step < 200; step++) {
+    if (next.gamePhase === 'round_complete' || next.gamePhase === 'game_over') return next;
+    next = takeFirstOption(next);
+  }
+  throw new Error(`Round did not finish (stuck in ${next.gamePhase})`);
+}
+
+describe('dealing', () => {
+  it('seats players with the starting score', () => {
+    const state = seated();
+    expect(state.players).toHaveLength(4);
+    expect(state.scores.get('p0')).toBe(GAME.STARTING_SCORE);
+  });
+
+  it('refuses to deal to fewer than the minimum players', () => {
+    const result = applyAction(seated(3), { action: 'deal', payload: { seed: 1 } });
+    expect(result).toMatchObject({ valid: false, code: ErrorCode.NOT_ENOUGH_PLAYERS });
+  });
+
+  it('deals a full hand to every seat and starts bidding left of the dealer', () => {
+    const state = deal(seated());
+    expect(state.gamePhase).toBe('bidding');
+    expect(state.players.every(p => p.hand.length === GAME.CARDS_PER_HAND)).toBe(true);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.dealSeed).toBe(42);
+  });
+
+  it('deals the same hands from the same seed', () => {
+    const a = deal(seated(), 1234);
+    const b = deal(seated(), 1234);
+    const c = deal(seated(), 4321);
+    expect(a.players.map(p => p.hand)).toEqual(b.players.map(p => p.hand));
+    expect(a.players.map(p => p.hand)).not.toEqual(c.players.map(p => p.hand));
+  });
+
+  it('rejects seeds that are not 32-bit unsigned integers', () => {
+    expect(applyAction(seated(), { action: 'deal', payload: { seed: -1 } }).valid).toBe(false);
+    expect(applyAction(seated(), { action: 'deal', payload: { seed: 1.5 } }).valid).toBe(false);
+  });
+});
+
+describe('bidding', () => {
+  it('never mutates the state it is given', () => {
+    const state = deal(seated());
+    const before = structuredClone(state);
+    bid(state, 2);
+    expect(state).toEqual(before);
+  });
+
+  it('rejects a bid out of turn', () => {
+    const state = deal(seated());
+    const result = applyAction(state, { action: 'bid', payload: { playerId: 'p0', bid: 2 } });
+    expect(result).toMatchObject({ valid: false, code: ErrorCode.NOT_YOUR_TURN });
+  });
+
+  it('only lets the dealer match the highest bid', () => {
+    let state = bid(deal(seated()), 2); // p1
+    expect(getValidBids(state)).toEqual([0, 3, 4, 5]);
+    state = bid(bid(state, 0), 0); // p2, p3
+    expect(getValidBids(state)).toEqual([0, 2, 3, 4, 5]);
+
+    state = bid(state, 2); // p0 deals and takes it by matching
+    expect(state.gamePhase).toBe('trump_selection');
+    expect(state.highestBidder).toBe('p0');
+    expect(getCurrentPlayer(state)!.id).toBe('p0');
+  });
+
+  it('throws the hand in when everyone punts, replaying the same round', () => {
+    let state = deal(seated());
+    for (let i = 0; i < 4; i++) state = bid(state, 0);
+    expect(state.gamePhase).toBe('round_complete');
+    expect(state.history).toHaveLength(0);
+
+    state = deal(state, 7);
+    expect(state.round).toBe(1);
+    expect(state.gamePhase).toBe('bidding');
+  });
+});
+
+describe('trump and sitting', () => {
+  function toTrump(bidAmount: number): GameState {
+    let state = bid(deal(seated()), bidAmount); // p1 bids
+    for (let i = 0; i < 3; i++) state = bid(state, 0);
+    return state;
+  }
+
+  it('makes everyone play when spades are trump', () => {
+    const state = apply(toTrump(2), { action: 'trump', payload: { playerId: 'p1', suit: 'spades' } });
+    expect(state.gamePhase).toBe('hand_play');
+    expect(state.playingPlayers.size).toBe(4);
+    expect(getCurrentPlayer(state)!.id).toBe('p1');
+  });
+
+  it('only lets the highest bidder choose trump', () => {
+    const result = applyAction(toTrump(2), { action: 'trump', payload: { playerId: 'p2', suit: 'hearts' } });
+    expect(result).toMatchObject({ valid: false, code: ErrorCode.NOT_YOUR_TURN });
+  });
+
+  it('asks the bidder for a penalty when everyone else sits', () => {
+    let state = apply(toTrump(2), { action: 'trump', payload: { playerId: 'p1', suit: 'hearts' } });
+    expect(state.gamePhase).toBe('sit_pass');
+    for (const playerId of ['p2', 'p3', 'p0']) {
+      state = apply(state, { action: 'sitpass', payload: { playerId, decision: 'sit' } });
+    }
+    expect(state.gamePhase).toBe('everyone_sat');
+    expect(state.players.find(p => p.id === 'p2')!.consecutiveSits).toBe(1);
+
+    state = apply(state, { action: 'penalty', payload: { playerId: 'p1', choice: 'self' } });
+    expect(state.gamePhase).toBe('round_complete');
+    expect(state.scores.get('p1')).toBe(GAME.STARTING_SCORE - GAME.EVERYONE_SAT_PENALTY);
+    expect(state.scores.get('p2')).toBe(GAME.STARTING_SCORE);
+  });
+
+  it('charges a sit against the table\'s starting score when a seat has no score yet', () => {
+    const state = apply(toTrump(2), { action: 'trump', payload: { playerId: 'p1', suit: 'hearts' } });
+    const scores = new Map(state.scores);
+    scores.delete('p2');
+
+    const settings = { ...DEFAULT_SETTINGS, startingScore: GAME.SIT_PENALTY_THRESHOLD - 1 };
+    const result = applyAction({ ...state, scores }, { action: 'sitpass', payload: { playerId: 'p2', decision: 'sit' } }, settings);
+    if (!result.valid) throw new Error(result.error);
+    expect(result.state.scores.get('p2')).toBe(settings.startingScore + GAME.SIT_PENALTY);
+  });
+});
+
+describe('playing a hand', () => {
+  it('rejects a card that is not in the hand', () => {
+    let state = deal(seated());
+    while (state.gamePhase !== 'hand_play') state = takeFirstOption(state);
+    const player = getCurrentPlayer(state)!;
+    const others = state.players.filter(p => p.id !== player.id).flatMap(p => p.hand);
+    const result = applyAction(state, { action: 'playcard', payload: { playerId: player.id, card: others[0] } });
+    expect(result.valid).toBe(false);
+  });
+
+  it('holds a finished trick until it is advanced', () => {
+    let state = deal(seated());
+    while (state.gamePhase !== 'trick_complete') state = takeFirstOption(state);
+    expect(state.currentTrick).toHaveLength(state.playingPlayers.size);
+    expect(getCurrentPlayer(state)!.id).toBe(state.lastTrickWinner);
+
+    state = apply(state, { action: 'advance', payload: {} });
+    expect(state.gamePhase).toBe('hand_play');
+    expect(state.currentTrick).toHaveLength(0);
+    expect(state.trickNumber).toBe(2);
+  });
+
+  it('scores the hand after the last trick and passes the deal on', () => {
+    const state = playRound(deal(seated()));
+    expect(state.gamePhase).toBe('round_complete');
+    expect(state.dealerIndex).toBe(1);
+
+    const [round] = state.history;
+    const tricks = Array.from(round.tricksWon.values()).reduce((sum, n) => sum + n, 0);
+    expect(tricks).toBe(GAME.TRICKS_PER_ROUND);
+    round.scoreChanges.forEach((change, playerId) => {
+      expect(state.scores.get(playerId)).toBe(GAME.STARTING_SCORE + change);
+    });
+    expect(state.players.every(p => p.hand.length === 0)).toBe(true);
+  });
+
+  it('plays to game over and pays the winner what the others owe', () => {
+    let state = seated();
+    let seed = 1;
+    while (state.gamePhase !== 'game_over') {
+      state = playRound(deal(state, seed++));
+      expect(seed).toBeLessThan(200);
+    }
+
+    const moneyChanges = state.history[state.history.length - 1].moneyChanges!;
+    const total = Array.from(moneyChanges.values()).reduce((sum, n) => sum + n, 0);
+    expect(total).toBeCloseTo(0);
+    expect(applyAction(state, { action: 'deal', payload: { seed } }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,826 @@
+/**
+ * Rules Engine for ShnarpsDuel
+ * Pure, deterministic reducer that owns every game rule.
+ *
+ * applyAction(state, action, settings) validates an action against the current
+ * state and returns either a brand-new state plus the events it produced, or an
+ * error. It never mutates its input, never reads the clock and never rolls dice:
+ * randomness enters only through the seed carried by a 'deal' action.
+ * The server room and the local store both keep whatever state it returns.
+ */
+
+import type {
+  Card,
+  DecisionOptions,
+  EngineAction,
+  GameEvent,
+  GameSettings,
+  GameState,
+  PenaltyChoice,
+  Player,
+  RoundHistory,
+  SitPassDecision,
+  Suit,
+  TrickRecord,
+} from './types';
+import { SUITS } from './types';
+import { GAME, DEFAULT_SETTINGS } from './constants';
+import { ErrorCode } from './messages';
+import { createDeck, dealCards, determineTrickWinner, getLeadSuit, getValidPlays, shuffleDeck } from './cardOperations';
+import { createRandom } from './random';
+import { validateBid, validateCardPlay, validateSitDecision } from './validation';
+import { calculateGameEndPayout, getScoreChange, hasPlayerWon, isPlayerEliminated } from './scoring';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Rule settings the engine needs (the turn timer is the caller's business) */
+export type RuleSettings = Pick<
+  GameSettings,
+  'startingScore' | 'winningScore' | 'eliminationScore' | 'moneyPerPoint' | 'moneyPerPunt'
+>;
+
+export type EngineResult =
+  | { valid: true; state: GameState; events: GameEvent[] }
+  | { valid: false; error: string; code: string };
+
+function reject(error: string, code: string = ErrorCode.INVALID_ACTION): EngineResult {
+  return { valid: false, error, code };
+}
+
+// =============================================================================
+// STATE CONSTRUCTION
+// =============================================================================
+
+/**
+ * Create an empty game in the setup phase
+ */
+export function createGameState(): GameState {
+  return {
+    gamePhase: 'setup',
+    players: [],
+    eliminatedPlayers: [],
+    currentPlayerIndex: 0,
+    dealerIndex: 0,
+    deck: [],
+    currentTrick: [],
+    completedTricks: [],
+    bids: new Map(),
+    trumpSuit: null,
+    highestBidder: null,
+    playingPlayers: new Set(),
+    mustyPlayers: new Set(),
+    scores: new Map(),
+    round: 1,
+    trickNumber: 1,
+    history: [],
+    lastTrickWinner: null,
+    dealSeed: null,
+  };
+}
+
+/**
+ * Seat a player during setup with the starting score
+ */
+export function addPlayer(
+  state: GameState,
+  player: Player,
+  settings: RuleSettings = DEFAULT_SETTINGS
+): GameState {
+  return {
+    ...state,
+    players: [...state.players, player],
+    scores: new Map(state.scores).set(player.id, settings.startingScore),
+  };
+}
+
+/**
+ * Remove a player during setup
+ */
+export function removePlayer(state: GameState, playerId: string): GameState {
+  const scores = new Map(state.scores);
+  scores.delete(playerId);
+  return {
+    ...state,
+    players: state.players.filter(p => p.id !== playerId),
+    scores,
+  };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export function getCurrentPlayer(state: GameState): Player | undefined {
+  return state.players[state.currentPlayerIndex];
+}
+
+export function getHighestBid(state: GameState): number {
+  return Math.max(0, ...Array.from(state.bids.values()));
+}
+
+/**
+ * Whether the given player may sit out this hand
+ */
+export function canSit(state: GameState, playerId: string): boolean {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return false;
+  return validateSitDecision(
+    'sit',
+    playerId,
+    player.consecutiveSits,
+    getHighestBid(state),
+    state.trumpSuit,
+    state.highestBidder
+  ).valid;
+}
+
+/**
+ * All bids the current player could legally make
+ */
+export function getValidBids(state: GameState): number[] {
+  const player = getCurrentPlayer(state);
+  if (!player || state.gamePhase !== 'bidding') return [];
+
+  const highestBid = getHighestBid(state);
+  const isDealer = state.currentPlayerIndex === state.dealerIndex;
+  const bids: number[] = [];
+  for (let bid = GAME.MIN_BID; bid <= GAME.MAX_BID; bid++) {
+    if (validateBid(bid, highestBid, isDealer, player.id, player.id).valid) {
+      bids.push(bid);
+    }
+  }
+  return bids;
+}
+
+/**
+ * The legal moves open to the current player, or null when nobody has a
+ * decision to make (setup, trick/round transitions, game over)
+ */
+export function getDecisionOptions(state: GameState): DecisionOptions | null {
+  const player = getCurrentPlayer(state);
+  if (!player) return null;
+
+  switch (state.gamePhase) {
+    case 'bidding':
+      return { action: 'bid', validBids: getValidBids(state) };
+    case 'trump_selection':
+      return { action: 'trump', suits: [...SUITS] };
+    case 'sit_pass':
+      return { action: 'sitpass', decisions: canSit(state, player.id) ? ['sit', 'play'] : ['play'] };
+    case 'hand_play':
+      return { action: 'playcard', validCards: getValidPlays(player.hand, state.currentTrick, state.trumpSuit) };
+    case 'everyone_sat':
+      return { action: 'penalty', choices: ['self', 'others'] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Index of the first seat at or after startIndex whose player matches,
+ * or -1 if nobody does
+ */
+function findSeat(
+  players: Player[],
+  startIndex: number,
+  matches: (player: Player) => boolean
+): number {
+  for (let i = 0; i < players.length; i++) {
+    const index = (startIndex + i) % players.length;
+    if (matches(players[index])) return index;
+  }
+  return -1;
+}
+
+/**
+ * Seat that leads the first trick: left of the dealer, skipping sitters
+ */
+function findFirstLeader(state: GameState, playingPlayers: Set<string>): number {
+  const index = findSeat(state.players, state.dealerIndex + 1, p => playingPlayers.has(p.id));
+  return Math.max(index, 0);
+}
+
+function removeCard(hand: Card[], card: Card): Card[] {
+  return hand.filter(c => !(c.suit === card.suit && c.rank === card.rank));
+}
+
+// =============================================================================
+// REDUCER
+// =============================================================================
+
+/**
+ * Validate and apply one action. Never mutates the given state.
+ */
+export function applyAction(
+  state: GameState,
+  action: EngineAction,
+  settings: RuleSettings = DEFAULT_SETTINGS
+): EngineResult {
+  switch (action.action) {
+    case 'deal':
+      return applyDeal(state, action.payload.seed);
+    case 'bid':
+      return applyBid(state, action.payload.playerId, action.payload.bid);
+    case 'trump':
+      return applyTrump(state, action.payload.playerId, action.payload.suit);
+    case 'sitpass':
+      return applySitPass(state, action.payload.playerId, action.payload.decision, settings);
+    case 'penalty':
+      return applyPenalty(state, action.payload.playerId, action.payload.choice, settings);
+    case 'playcard':
+      return applyPlayCard(state, action.payload.playerId, action.payload.card);
+    case 'advance':
+      return applyAdvance(state, settings);
+    default:
+      return reject(`Unknown action: ${(action as { action: string }).action}`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Dealing
+// -----------------------------------------------------------------------------
+
+function applyDeal(state: GameState, seed: number): EngineResult {
+  if (state.gamePhase !== 'setup' && state.gamePhase !== 'round_complete') {
+    return reject(`Cannot deal during ${state.gamePhase}`);
+  }
+
+  const playerCount = state.players.length;
+  if (state.gamePhase === 'setup' && playerCount < GAME.MIN_PLAYERS) {
+    return reject(`Need at least ${GAME.MIN_PLAYERS} players`, ErrorCode.NOT_ENOUGH_PLAYERS);
+  }
+  if (playerCount > GAME.MAX_PLAYERS) {
+    return reject(`At most ${GAME.MAX_PLAYERS} players can play`, ErrorCode.ROOM_FULL);
+  }
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    return reject('Deal seed must be a 32-bit unsigned integer');
+  }
+
+  // A round that was scored moves the counter on; a misdeal replays the same round
+  const roundScored = state.history.some(h => h.round === state.round);
+  const round = state.gamePhase === 'round_complete' && roundScored ? state.round + 1 : state.round;
+
+  const deck = shuffleDeck(createDeck(), createRandom(seed));
+  const hands = dealCards(deck, playerCount);
+  const players = state.players.map((player, index) => ({
+    ...player,
+    hand: hands[index] || [],
+    // NOTE: consecutiveSits carries over - the musty rule spans rounds
+  }));
+
+  const nextState: GameState = {
+    ...state,
+    gamePhase: 'bidding',
+    players,
+    deck: deck.slice(playerCount * GAME.CARDS_PER_HAND),
+    currentPlayerIndex: (state.dealerIndex + 1) % playerCount,
+    currentTrick: [],
+    completedTricks: [],
+    bids: new Map(),
+    trumpSuit: null,
+    highestBidder: null,
+    playingPlayers: new Set(),
+    mustyPlayers: new Set(),
+    round,
+    trickNumber: 1,
+    lastTrickWinner: null,
+    dealSeed: seed,
+  };
+
+  return {
+    valid: true,
+    state: nextState,
+    events: [{ type: 'cards_dealt', round, dealerId: players[state.dealerIndex].id }],
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Bidding
+// -----------------------------------------------------------------------------
+
+function applyBid(state: GameState, playerId: string, bid: number): EngineResult {
+  if (state.gamePhase !== 'bidding') {
+    return reject('Not in bidding phase');
+  }
+
+  const current = getCurrentPlayer(state);
+  if (!current) return reject('No current player');
+
+  const highestBid = getHighestBid(state);
+  const isDealer = state.currentPlayerIndex === state.dealerIndex;
+  const result = validateBid(bid, highestBid, isDealer, playerId, current.id);
+  if (!result.valid) {
+    return reject(result.error || 'Invalid bid', result.code || ErrorCode.INVALID_BID);
+  }
+
+  const bids = new Map(state.bids).set(playerId, bid);
+
+  // Beating the bid takes it; the dealer also takes it by matching
+  let highestBidder = state.highestBidder;
+  if (bid > highestBid || (isDealer && bid > 0 && bid === highestBid)) {
+    highestBidder = playerId;
+  }
+
+  const events: GameEvent[] = [{ type: 'bid_placed', playerId, bid }];
+
+  // The dealer bids last
+  if (!isDealer) {
+    return {
+      valid: true,
+      state: {
+        ...state,
+        bids,
+        highestBidder,
+        currentPlayerIndex: (state.currentPlayerIndex + 1) % state.players.length,
+      },
+      events,
+    };
+  }
+
+  if (!highestBidder) {
+    // Everyone punted - throw the hand in and redeal the same round
+    events.push({ type: 'misdeal', round: state.round });
+    return {
+      valid: true,
+      state: { ...state, bids, highestBidder: null, gamePhase: 'round_complete' },
+      events,
+    };
+  }
+
+  return {
+    valid: true,
+    state: {
+      ...state,
+      bids,
+      highestBidder,
+      gamePhase: 'trump_selection',
+      currentPlayerIndex: state.players.findIndex(p => p.id === highestBidder),
+    },
+    events,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Trump selection
+// -----------------------------------------------------------------------------
+
+function applyTrump(state: GameState, playerId: string, suit: Suit): EngineResult {
+  if (state.gamePhase !== 'trump_selection') {
+    return reject('Not in trump selection phase');
+  }
+  if (playerId !== state.highestBidder || getCurrentPlayer(state)?.id !== playerId) {
+    return reject('Only highest bidder can choose trump', ErrorCode.NOT_YOUR_TURN);
+  }
+  if (!SUITS.includes(suit)) {
+    return reject('Invalid suit');
+  }
+
+  const playingPlayers = new Set<string>([playerId]);
+  const mustyPlayers = new Set(
+    state.players
+      .filter(p => p.consecutiveSits >= GAME.MAX_CONSECUTIVE_SITS)
+      .map(p => p.id)
+  );
+  const events: GameEvent[] = [{ type: 'trump_chosen', playerId, suit }];
+
+  // Bid of 1 or spades trump: everyone plays, no sit/pass
+  const everyoneMustPlay = getHighestBid(state) === 1 || suit === 'spades';
+  if (everyoneMustPlay) {
+    state.players.forEach(p => {
+      if (p.isActive) playingPlayers.add(p.id);
+    });
+    return {
+      valid: true,
+      state: {
+        ...state,
+        trumpSuit: suit,
+        playingPlayers,
+        mustyPlayers,
+        gamePhase: 'hand_play',
+        currentPlayerIndex: findFirstLeader(state, playingPlayers),
+        currentTrick: [],
+      },
+      events,
+    };
+  }
+
+  // Sit/pass starts with the player after the highest bidder
+  return {
+    valid: true,
+    state: {
+      ...state,
+      trumpSuit: suit,
+      playingPlayers,
+      mustyPlayers,
+      gamePhase: 'sit_pass',
+      currentPlayerIndex: (state.currentPlayerIndex + 1) % state.players.length,
+    },
+    events,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Sit / pass
+// -----------------------------------------------------------------------------
+
+function applySitPass(
+  state: GameState,
+  playerId: string,
+  decision: SitPassDecision,
+  settings: RuleSettings
+): EngineResult {
+  if (state.gamePhase !== 'sit_pass') {
+    return reject('Not in sit/pass phase');
+  }
+
+  const current = getCurrentPlayer(state);
+  if (!current || current.id !== playerId) {
+    return reject('Not your turn', ErrorCode.NOT_YOUR_TURN);
+  }
+
+  const result = validateSitDecision(
+    decision,
+    playerId,
+    current.consecutiveSits,
+    getHighestBid(state),
+    state.trumpSuit,
+    state.highestBidder
+  );
+  if (!result.valid) {
+    return reject(result.error || 'Invalid decision', result.code || ErrorCode.INVALID_DECISION);
+  }
+
+  const playingPlayers = new Set(state.playingPlayers);
+  const scores = new Map(state.scores);
+  let penalty = 0;
+
+  const players = state.players.map(p => {
+    if (p.id !== playerId) return p;
+    if (decision === 'play') {
+      playingPlayers.add(playerId);
+      return { ...p, consecutiveSits: 0 };
+    }
+    return { ...p, consecutiveSits: p.consecutiveSits + 1 };
+  });
+
+  // Sitting close to the finish line costs a point
+  if (decision === 'sit') {
+    const score = scores.get(playerId) ?? settings.startingScore;
+    if (score < GAME.SIT_PENALTY_THRESHOLD) {
+      penalty = GAME.SIT_PENALTY;
+      scores.set(playerId, score + penalty);
+    }
+  }
+
+  const events: GameEvent[] = [{ type: 'sit_decided', playerId, decision, penalty }];
+  const nextIndex = (state.currentPlayerIndex + 1) % players.length;
+  const base = { ...state, players, playingPlayers, scores };
+
+  // Decisions go round the table once and stop at the highest bidder
+  if (players[nextIndex].id !== state.highestBidder) {
+    return { valid: true, state: { ...base, currentPlayerIndex: nextIndex }, events };
+  }
+
+  // Everyone else sat out: the bidder picks a penalty instead of playing
+  if (playingPlayers.size === 1) {
+    return {
+      valid: true,
+      state: { ...base, gamePhase: 'everyone_sat', currentPlayerIndex: nextIndex },
+      events,
+    };
+  }
+
+  return {
+    valid: true,
+    state: {
+      ...base,
+      gamePhase: 'hand_play',
+      currentPlayerIndex: findFirstLeader(state, playingPlayers),
+      currentTrick: [],
+    },
+    events,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Everyone sat
+// -----------------------------------------------------------------------------
+
+function applyPenalty(
+  state: GameState,
+  playerId: string,
+  choice: PenaltyChoice,
+  settings: RuleSettings
+): EngineResult {
+  if (state.gamePhase !== 'everyone_sat') {
+    return reject('Not in penalty phase');
+  }
+  if (playerId !== state.highestBidder) {
+    return reject('Only the highest bidder chooses the penalty', ErrorCode.NOT_YOUR_TURN);
+  }
+  if (choice !== 'self' && choice !== 'others') {
+    return reject('Invalid penalty choice', ErrorCode.INVALID_DECISION);
+  }
+
+  const scores = new Map(state.scores);
+  const scoreChanges = new Map<string, number>();
+
+  if (choice === 'self') {
+    scoreChanges.set(playerId, -GAME.EVERYONE_SAT_PENALTY);
+  } else {
+    state.players.forEach(p => {
+      if (p.id !== playerId) scoreChanges.set(p.id, GAME.EVERYONE_SAT_PENALTY);
+    });
+  }
+  scoreChanges.forEach((change, id) => {
+    scores.set(id, (scores.get(id) ?? settings.startingScore) + change);
+  });
+
+  const roundHistory: RoundHistory = {
+    round: state.round,
+    seed: state.dealSeed ?? undefined,
+    bids: new Map(state.bids),
+    trumpSuit: state.trumpSuit,
+    highestBidder: state.highestBidder,
+    playingPlayers: Array.from(state.playingPlayers),
+    tricksWon: new Map(),
+    scoreChanges,
+    finalScores: new Map(scores),
+    ...handDetail(state),
+  };
+
+  return finishRound(
+    state,
+    state.players,
+    scores,
+    roundHistory,
+    [{ type: 'penalty_chosen', playerId, choice }],
+    settings
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Card play
+// -----------------------------------------------------------------------------
+
+function applyPlayCard(state: GameState, playerId: string, card: Card): EngineResult {
+  if (state.gamePhase !== 'hand_play') {
+    return reject('Not in hand play phase');
+  }
+
+  const current = getCurrentPlayer(state);
+  if (!current) return reject('No current player');
+  if (!state.playingPlayers.has(playerId)) {
+    return reject('Player is not playing this round');
+  }
+
+  const result = validateCardPlay(card, current.hand, getLeadSuit(state.currentTrick), playerId, current.id);
+  if (!result.valid) {
+    return reject(result.error || 'Invalid card', result.code || ErrorCode.INVALID_CARD);
+  }
+
+  // Use the card from the hand so clients can't smuggle in a bogus value
+  const playedCard = current.hand.find(c => c.suit === card.suit && c.rank === card.rank)!;
+  const players = state.players.map(p =>
+    p.id === playerId ? { ...p, hand: removeCard(p.hand, playedCard) } : p
+  );
+  const currentTrick = [...state.currentTrick, { playerId, card: playedCard }];
+  const events: GameEvent[] = [{ type: 'card_played', playerId, card: playedCard }];
+
+  if (currentTrick.length < state.playingPlayers.size) {
+    const nextIndex = findSeat(players, state.currentPlayerIndex + 1, p => state.playingPlayers.has(p.id));
+    return {
+      valid: true,
+      state: { ...state, players, currentTrick, currentPlayerIndex: nextIndex },
+      events,
+    };
+  }
+
+  // Trick complete - it stays on the table until the owner dispatches 'advance'
+  const winnerId = determineTrickWinner(currentTrick, state.trumpSuit);
+  events.push({ type: 'trick_won', playerId: winnerId, trickNumber: state.trickNumber });
+
+  return {
+    valid: true,
+    state: {
+      ...state,
+      players,
+      currentTrick,
+      completedTricks: [...state.completedTricks, currentTrick],
+      gamePhase: 'trick_complete',
+      lastTrickWinner: winnerId,
+      currentPlayerIndex: players.findIndex(p => p.id === winnerId),
+    },
+    events,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Trick / round completion
+// -----------------------------------------------------------------------------
+
+function applyAdvance(state: GameState, settings: RuleSettings): EngineResult {
+  if (state.gamePhase !== 'trick_complete') {
+    return reject(`Nothing to advance during ${state.gamePhase}`);
+  }
+
+  // Winner of the last trick leads the next one
+  if (state.completedTricks.length < GAME.TRICKS_PER_ROUND) {
+    return {
+      valid: true,
+      state: {
+        ...state,
+        gamePhase: 'hand_play',
+        currentTrick: [],
+        lastTrickWinner: null,
+        trickNumber: state.trickNumber + 1,
+      },
+      events: [],
+    };
+  }
+
+  return scoreHand(state, settings);
+}
+
+/**
+ * Score a fully played hand
+ */
+function scoreHand(state: GameState, settings: RuleSettings): EngineResult {
+  const scores = new Map(state.scores);
+  const tricksWon = new Map<string, number>();
+  for (const trick of state.completedTricks) {
+    const winnerId = determineTrickWinner(trick, state.trumpSuit);
+    tricksWon.set(winnerId, (tricksWon.get(winnerId) || 0) + 1);
+  }
+
+  const scoreChanges = new Map<string, number>();
+  const punts = new Map<string, number>();
+  const bidder = state.highestBidder;
+
+  // Spading out: spades trump and the bidder takes every trick - straight to 0
+  const spadingOut = state.trumpSuit === 'spades' && !!bidder &&
+    tricksWon.get(bidder) === GAME.TRICKS_PER_ROUND;
+
+  if (spadingOut && bidder) {
+    const bidderScore = scores.get(bidder) ?? settings.startingScore;
+    scoreChanges.set(bidder, settings.winningScore - bidderScore);
+    scores.set(bidder, settings.winningScore);
+  } else {
+    Array.from(state.playingPlayers).forEach(playerId => {
+      const { change, isPunt } = getScoreChange(
+        state.bids.get(playerId) || 0,
+        tricksWon.get(playerId) || 0,
+        playerId === bidder
+      );
+      if (isPunt) punts.set(playerId, 1);
+      scoreChanges.set(playerId, change);
+      scores.set(playerId, (scores.get(playerId) ?? settings.startingScore) + change);
+    });
+  }
+
+  const players = state.players.map(p =>
+    punts.has(p.id) ? { ...p, punts: (p.punts || 0) + 1 } : p
+  );
+
+  const roundHistory: RoundHistory = {
+    round: state.round,
+    seed: state.dealSeed ?? undefined,
+    bids: new Map(state.bids),
+    trumpSuit: state.trumpSuit,
+    highestBidder: bidder,
+    playingPlayers: Array.from(state.playingPlayers),
+    tricksWon,
+    scoreChanges,
+    finalScores: new Map(scores),
+    punts,
+    ...handDetail(state),
+  };
+
+  return finishRound(state, players, scores, roundHistory, [], settings);
+}
+
+/**
+ * How the hand went, for the round history. Cards leave a hand only by being
+ * played, so what's left plus what was played is what was dealt.
+ */
+function handDetail(state: GameState): Pick<RoundHistory, 'dealtHands' | 'sitDecisions' | 'tricks'> {
+  const tricks: TrickRecord[] = state.completedTricks.map(plays => ({
+    plays,
+    winnerId: determineTrickWinner(plays, state.trumpSuit),
+  }));
+
+  const dealtHands = new Map<string, Card[]>();
+  const sitDecisions = new Map<string, SitPassDecision>();
+  state.players.forEach(p => {
+    const played = tricks.flatMap(t => t.plays).filter(play => play.playerId === p.id).map(play => play.card);
+    dealtHands.set(p.id, [...played, ...p.hand]);
+    if (p.id !== state.highestBidder) {
+      sitDecisions.set(p.id, state.playingPlayers.has(p.id) ? 'play' : 'sit');
+    }
+  });
+
+  return { dealtHands, sitDecisions, tricks };
+}
+
+/**
+ * Record the round, eliminate players over the limit and either end the game
+ * or hand the deal to the next seat
+ */
+function finishRound(
+  state: GameState,
+  players: Player[],
+  scores: Map<string, number>,
+  roundHistory: RoundHistory,
+  events: GameEvent[],
+  settings: RuleSettings
+): EngineResult {
+  const scoreOf = (player: Player) => scores.get(player.id) ?? settings.startingScore;
+
+  events.push({
+    type: 'round_scored',
+    round: state.round,
+    scoreChanges: Object.fromEntries(roundHistory.scoreChanges),
+  });
+
+  const remaining: Player[] = [];
+  const newlyEliminated: Player[] = [];
+  players.forEach(player => {
+    if (isPlayerEliminated(scoreOf(player), settings.eliminationScore)) {
+      newlyEliminated.push({ ...player, hand: [], isActive: false });
+      events.push({ type: 'player_eliminated', playerId: player.id, score: scoreOf(player) });
+    } else {
+      remaining.push({ ...player, hand: [] });
+    }
+  });
+
+  const eliminatedPlayers = [...state.eliminatedPlayers, ...newlyEliminated];
+  const stillChasing = remaining.filter(p => !hasPlayerWon(scoreOf(p), settings.winningScore));
+  const hasWinner = remaining.some(p => hasPlayerWon(scoreOf(p), settings.winningScore));
+
+  if (hasWinner || stillChasing.length <= 1) {
+    const everyone = [...remaining, ...eliminatedPlayers];
+    const moneyChanges = calculateGameEndPayout(
+      everyone,
+      scores,
+      settings.moneyPerPoint,
+      settings.moneyPerPunt,
+      settings.winningScore
+    );
+    const payOut = (player: Player) => ({
+      ...player,
+      wallet: (player.wallet ?? 100) + (moneyChanges.get(player.id) || 0),
+    });
+    const paidRemaining = remaining.map(payOut);
+    const paidEliminated = eliminatedPlayers.map(payOut);
+
+    roundHistory.moneyChanges = moneyChanges;
+    roundHistory.finalWallets = new Map(
+      [...paidRemaining, ...paidEliminated].map(p => [p.id, p.wallet ?? 100])
+    );
+
+    const winner = paidRemaining
+      .filter(p => hasPlayerWon(scoreOf(p), settings.winningScore))
+      .sort((a, b) => scoreOf(a) - scoreOf(b))[0];
+    events.push({
+      type: 'game_over',
+      winnerId: winner?.id ?? null,
+      moneyChanges: Object.fromEntries(moneyChanges),
+    });
+
+    return {
+      valid: true,
+      state: {
+        ...state,
+        gamePhase: 'game_over',
+        players: paidRemaining,
+        eliminatedPlayers: paidEliminated,
+        scores,
+        history: [...state.history, roundHistory],
+      },
+      events,
+    };
+  }
+
+  // Deal passes to the next seat still in the game
+  const nextDealerId = state.players[
+    findSeat(state.players, state.dealerIndex + 1, p => remaining.some(r => r.id === p.id))
+  ].id;
+  const dealerIndex = remaining.findIndex(p => p.id === nextDealerId);
+
+  return {
+    valid: true,
+    state: {
+      ...state,
+      gamePhase: 'round_complete',
+      players: remaining,
+      eliminatedPlayers,
+      scores,
+      dealerIndex,
+      currentPlayerIndex: (dealerIndex + 1) % remaining.length,
+      history: [...state.history, roundHistory],
+    },
+    events,
+  };
+}
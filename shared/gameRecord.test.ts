@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { formatGameRecord, parseGameRecord } from './gameRecord';
+import { validateGameRecord } from './validation';
+import { addPlayer, applyAction, createGameState, getCurrentPlayer, getDecisionOptions, type RuleSettings } from './gameEngine';
+import { recordAction, startRecording } from './replay';
+import { DEFAULT_SETTINGS } from './constants';
+import type { EngineAction, GameRecording, GameState, Player, SerializedPlayer } from './types';
+
+// A short game so it plays out to the end in a few hands
+const SETTINGS: RuleSettings = { ...DEFAULT_SETTINGS, startingScore: 4 };
+
+function seat(number: number, isAI = false): Player {
+  return {
+    id: `seat${number}`,
+    name: `Player ${number}`,
+    hand: [],
+    isActive: true,
+    consecutiveSits: 0,
+    isAI,
+    ...(isAI && { aiDifficulty: 'hard' as const, aiPersonality: 'sitter' as const })
+  };
+}
+
+/** The first legal move for whoever is on turn, or what the table does next */
+function nextAction(state: GameState, seed: number): EngineAction {
+  if (state.gamePhase === 'round_complete') return { action: 'deal', payload: { seed } };
+  if (state.gamePhase === 'trick_complete') return { action: 'advance', payload: {} };
+  const playerId = getCurrentPlayer(state)!.id;
+  const options = getDecisionOptions(state)!;
+  switch (options.action) {
+    case 'bid':
+      return { action: 'bid', payload: { playerId, bid: options.validBids[options.validBids.length - 1] } };
+    case 'trump':
+      return { action: 'trump', payload: { playerId, suit: options.suits[0] } };
+    case 'sitpass':
+      return { action: 'sitpass', payload: { playerId, decision: 'play' } };
+    case 'playcard':
+      return { action: 'playcard', payload: { playerId, card: options.validCards[0] } };
+    case 'penalty':
+      return { action: 'penalty', payload: { playerId, choice: 'self' } };
+  }
+}
+
+/** Play a whole game with ids matching the record's seat ids */
+function recordedGame(): GameRecording {
+  const players = [seat(1), seat(2), seat(3, true), seat(4)];
+  let state = players.reduce((table, player) => addPlayer(table, player, SETTINGS), createGameState());
+  let recording = startRecording(players, SETTINGS);
+  let seed = 100;
+
+  let action: EngineAction = { action: 'deal', payload: { seed: seed++ } };
+  for (let step = 0; step < 5000; step++) {
+    const result = applyAction(state, action, SETTINGS);
+    if (!result.valid) throw new Error(`${action.action} rejected: ${result.error}`);
+    state = result.state;
+    recording = recordAction(recording, action);
+    if (state.gamePhase === 'game_over') return recording;
+    action = nextAction(state, state.gamePhase === 'round_complete' ? seed++ : 0);
+  }
+  throw new Error(`Game did not finish (stuck in ${state.gamePhase})`);
+}
+
+const recording = recordedGame();
+const record = formatGameRecord(recording, new Date(2024, 4, 1));
+
+describe('game records', () => {
+  it('reads back and replays a recorded game', () => {
+    const parsed = parseGameRecord(record);
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    // The record keeps who sat where, not their wallets or connections
+    const seatOf = ({ id, name, isAI, aiDifficulty, aiPersonality }: SerializedPlayer) =>
+      ({ id, name, isAI, aiDifficulty, aiPersonality });
+    expect(parsed.data.players.map(seatOf)).toEqual(recording.players.map(seatOf));
+    expect(parsed.data.settings).toEqual(recording.settings);
+    expect(parsed.data.tags.Date).toBe('2024.05.01');
+    expect(parsed.data.tags.Result).toMatch(/^[1-4]$/);
+
+    const validated = validateGameRecord(record);
+    expect(validated.valid).toBe(true);
+    if (validated.valid) expect(validated.recording.actions).toEqual(recording.actions);
+  });
+
+  it('rejects a move the rules do not allow', () => {
+    // Seat 2 opens the bidding, so seat 3 bidding first is out of turn
+    const outOfTurn = record.replace(/^1\. deal 2b/m, '1. deal 3b');
+    expect(outOfTurn).not.toBe(record);
+
+    const validated = validateGameRecord(outOfTurn);
+    expect(validated.valid).toBe(false);
+    if (!validated.valid) expect(validated.error).toMatch(/^Move 2 \(bid\)/);
+  });
+
+  it('rejects a record whose seeds do not match its deals', () => {
+    const seeds = record.match(/^\[Seeds "([\d ]+)"\]$/m)![1].split(' ');
+
+    const missing = validateGameRecord(record.replace(`"${seeds.join(' ')}"`, `"${seeds.slice(0, -1).join(' ')}"`));
+    expect(missing).toEqual({ valid: false, error: expect.stringMatching(new RegExp(`deal ${seeds.length} has no seed$`)) });
+
+    const extra = validateGameRecord(record.replace(`"${seeds.join(' ')}"`, `"${seeds.join(' ')} 7"`));
+    expect(extra).toEqual({
+      valid: false,
+      error: `The record has ${seeds.length + 1} seeds but deals ${seeds.length} hands`
+    });
+  });
+
+  it('rejects a Result tag that does not match how the moves end', () => {
+    const result = record.match(/^\[Result "(.*)"\]$/m)![1];
+    const validated = validateGameRecord(record.replace(`[Result "${result}"]`, '[Result "*"]'));
+    expect(validated).toEqual({ valid: false, error: `Result tag says "*" but the moves end in "${result}"` });
+  });
+
+  it('rejects a move it cannot read', () => {
+    const garbled = record.replace(/^1\. deal /m, '1. deal 2x9 ');
+    expect(parseGameRecord(garbled)).toEqual({ success: false, error: 'Unreadable move "2x9"' });
+    expect(validateGameRecord(garbled)).toEqual({ valid: false, error: 'Unreadable move "2x9"' });
+
+    const noSuchSeat = record.replace(/^1\. deal /m, '1. deal 5b2 ');
+    expect(parseGameRecord(noSuchSeat)).toEqual({
+      success: false,
+      error: 'Move "5b2" names seat 5, but there are 4 seats'
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Game records for ShnarpsDuel
+ * A plain-text, versioned record of a whole game in the spirit of chess PGN:
+ * bracketed header tags (seats, rules, deal seeds, date, result) followed by
+ * the move list. GAME_RECORD.md documents the format; validateGameRecord in
+ * validation.ts replays a record through the rules engine.
+ */
+
+import type { GameAction, GameRecording, GameState, SerializedPlayer, Suit } from './types';
+import { AIDifficultySchema, AIPersonalitySchema, RankSchema } from './validation';
+import { replayRecording } from './replay';
+import { hasPlayerWon } from './scoring';
+import { createDeck } from './cardOperations';
+import { GAME } from './constants';
+
+export const GAME_RECORD_VERSION = 1;
+
+const SUIT_LETTERS: Record<Suit, string> = { spades: 'S', hearts: 'H', diamonds: 'D', clubs: 'C' };
+const LETTER_SUITS: Record<string, Suit> = { S: 'spades', H: 'hearts', D: 'diamonds', C: 'clubs' };
+
+const SETTING_TAGS = {
+  startingScore: 'StartingScore',
+  winningScore: 'WinningScore',
+  eliminationScore: 'EliminationScore',
+  moneyPerPoint: 'MoneyPerPoint',
+  moneyPerPunt: 'MoneyPerPunt',
+} as const;
+
+/** A record's move list before it is replayed: deals take the next seed */
+export type RecordMove = GameAction | 'deal';
+
+export interface ParsedGameRecord {
+  tags: Record<string, string>;
+  players: SerializedPlayer[]; // Ids are seat1, seat2, ... in seat order
+  settings: GameRecording['settings'];
+  seeds: number[];
+  moves: RecordMove[];
+}
+
+// Seats are numbered from 1 in the record
+const seatId = (seat: number) => `seat${seat}`;
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * "3" for the winner's seat, "-" when the game ended with nobody at the
+ * winning score and "*" while it is still going
+ */
+export function gameResult(state: GameState, players: { id: string }[], winningScore: number): string {
+  if (state.gamePhase !== 'game_over') return '*';
+  const scoreOf = (id: string) => state.scores.get(id) ?? Infinity;
+  const winner = state.players
+    .filter(p => hasPlayerWon(scoreOf(p.id), winningScore))
+    .sort((a, b) => scoreOf(a.id) - scoreOf(b.id))[0];
+  return winner ? String(players.findIndex(p => p.id === winner.id) + 1) : '-';
+}
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+/**
+ * Write a recording as a game record
+ */
+export function formatGameRecord(recording: GameRecording, date: Date = new Date()): string {
+  const seatOf = (playerId: string) => recording.players.findIndex(p => p.id === playerId) + 1;
+  const { steps } = replayRecording(recording);
+
+  const tags: [string, string][] = [
+    ['Game', 'ShnarpsDuel'],
+    ['Version', String(GAME_RECORD_VERSION)],
+    ['Date', formatDate(date)],
+  ];
+  recording.players.forEach((p, index) => {
+    tags.push([`Seat${index + 1}`, p.name]);
+    if (p.isAI) tags.push([`Seat${index + 1}AI`, `${p.aiDifficulty ?? 'medium'} ${p.aiPersonality ?? 'balanced'}`]);
+  });
+  (Object.keys(SETTING_TAGS) as (keyof typeof SETTING_TAGS)[]).forEach(key => {
+    tags.push([SETTING_TAGS[key], String(recording.settings[key])]);
+  });
+  const seeds = recording.actions.flatMap(a => (a.action === 'deal' ? [a.payload.seed] : []));
+  tags.push(['Seeds', seeds.join(' ')]);
+  tags.push(['Result', gameResult(steps[steps.length - 1].state, recording.players, recording.settings.winningScore)]);
+
+  // One line per deal, numbered by the round it dealt
+  const lines: string[][] = [];
+  recording.actions.forEach((action, index) => {
+    switch (action.action) {
+      case 'deal':
+        lines.push([`${steps[index + 1]?.state.round ?? lines.length + 1}.`, 'deal']);
+        return;
+      case 'advance':
+        return; // Implied once every playing seat has played to a trick
+    }
+    const seat = seatOf(action.payload.playerId);
+    const line = lines[lines.length - 1] ?? [];
+    switch (action.action) {
+      case 'bid':
+        line.push(`${seat}b${action.payload.bid}`);
+        break;
+      case 'trump':
+        line.push(`${seat}t${SUIT_LETTERS[action.payload.suit]}`);
+        break;
+      case 'sitpass':
+        line.push(`${seat}${action.payload.decision}`);
+        break;
+      case 'penalty':
+        line.push(`${seat}pen-${action.payload.choice}`);
+        break;
+      case 'playcard':
+        line.push(`${seat}:${action.payload.card.rank}${SUIT_LETTERS[action.payload.card.suit]}`);
+        break;
+    }
+  });
+
+  return [
+    ...tags.map(([name, value]) => `[${name} ${quote(value)}]`),
+    '',
+    ...lines.map(line => line.join(' ')),
+    '',
+  ].join('\n');
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+const TAG_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+
+function parseMove(token: string, seatCount: number): RecordMove | string {
+  if (token === 'deal') return 'deal';
+
+  const match = token.match(/^(\d+)(b\d+|t[SHDC]|sit|play|pen-self|pen-others|:(?:10|[2-9JQKA])[SHDC])$/);
+  if (!match) return `Unreadable move "${token}"`;
+  const seat = Number(match[1]);
+  if (seat < 1 || seat > seatCount) return `Move "${token}" names seat ${seat}, but there are ${seatCount} seats`;
+
+  const playerId = seatId(seat);
+  const move = match[2];
+  if (move.startsWith('b')) return { action: 'bid', payload: { playerId, bid: Number(move.slice(1)) } };
+  if (move.startsWith('t')) return { action: 'trump', payload: { playerId, suit: LETTER_SUITS[move[1]] } };
+  if (move === 'sit' || move === 'play') return { action: 'sitpass', payload: { playerId, decision: move } };
+  if (move.startsWith('pen-')) {
+    return { action: 'penalty', payload: { playerId, choice: move === 'pen-self' ? 'self' : 'others' } };
+  }
+
+  const rank = RankSchema.parse(move.slice(1, -1));
+  const suit = LETTER_SUITS[move[move.length - 1]];
+  const card = createDeck().find(c => c.rank === rank && c.suit === suit)!;
+  return { action: 'playcard', payload: { playerId, card } };
+}
+
+/**
+ * Read a game record's tags and moves. This only checks the syntax - whether
+ * the moves are legal is up to validateGameRecord.
+ */
+export function parseGameRecord(text: string):
+  | { success: true; data: ParsedGameRecord }
+  | { success: false; error: string } {
+  const tags: Record<string, string> = {};
+  const tokens: string[] = [];
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.replace(/;.*$/, '').trim(); // ; starts a comment
+    if (!line) continue;
+    if (line.startsWith('[')) {
+      const match = line.match(TAG_PATTERN);
+      if (!match) return { success: false, error: `Line ${index + 1}: unreadable tag` };
+      tags[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    } else {
+      tokens.push(...line.split(/\s+/).filter(token => !/^\d+\.$/.test(token)));
+    }
+  }
+
+  if (tags.Game !== 'ShnarpsDuel') return { success: false, error: 'Not a ShnarpsDuel game record' };
+  const version = Number(tags.Version);
+  if (version !== GAME_RECORD_VERSION) {
+    return { success: false, error: `Unsupported record version ${tags.Version ?? '(none)'}` };
+  }
+
+  const players: SerializedPlayer[] = [];
+  for (let seat = 1; tags[`Seat${seat}`] !== undefined; seat++) {
+    const [difficulty, personality] = (tags[`Seat${seat}AI`] ?? '').split(/\s+/);
+    const isAI = tags[`Seat${seat}AI`] !== undefined;
+    if (isAI && !AIDifficultySchema.safeParse(difficulty).success) {
+      return { success: false, error: `Seat ${seat} has an unknown AI difficulty "${difficulty}"` };
+    }
+    players.push({
+      id: seatId(seat),
+      name: tags[`Seat${seat}`],
+      hand: [],
+      isActive: true,
+      consecutiveSits: 0,
+      isAI,
+      ...(isAI && {
+        aiDifficulty: AIDifficultySchema.parse(difficulty),
+        aiPersonality: AIPersonalitySchema.catch('balanced').parse(personality),
+      }),
+    });
+  }
+  if (players.length < GAME.MIN_PLAYERS || players.length > GAME.MAX_PLAYERS) {
+    return { success: false, error: `A game needs ${GAME.MIN_PLAYERS}-${GAME.MAX_PLAYERS} seats, the record has ${players.length}` };
+  }
+
+  const settings = {} as GameRecording['settings'];
+  for (const key of Object.keys(SETTING_TAGS) as (keyof typeof SETTING_TAGS)[]) {
+    const value = Number(tags[SETTING_TAGS[key]]);
+    if (tags[SETTING_TAGS[key]] === undefined || !Number.isFinite(value)) {
+      return { success: false, error: `Missing or unreadable ${SETTING_TAGS[key]} tag` };
+    }
+    settings[key] = value;
+  }
+
+  const seeds = (tags.Seeds ?? '').split(/\s+/).filter(Boolean).map(Number);
+  if (seeds.some(seed => !Number.isInteger(seed))) return { success: false, error: 'Unreadable Seeds tag' };
+
+  const moves: RecordMove[] = [];
+  for (const token of tokens) {
+    const move = parseMove(token, players.length);
+    if (typeof move === 'string' && move !== 'deal') return { success: false, error: move };
+    moves.push(move);
+  }
+
+  return { success: true, data: { tags, players, settings, seeds, moves } };
+}
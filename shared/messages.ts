@@ -5,14 +5,17 @@
 
 import type {
   Card,
-  Player,
-  GamePhase,
   Suit,
+  PenaltyChoice,
   SerializedPlayer,
   SerializedGameState,
   AIDifficulty,
-  TrickPlay,
+  AIPersonality,
   GameSettings,
+  DecisionOptions,
+  ChatMessage,
+  ReactionId,
+  LobbyRoom,
 } from './types';
 
 // =============================================================================
@@ -35,12 +38,19 @@ export const ErrorCode = {
   NOT_YOUR_TURN: 'NOT_YOUR_TURN',
   NOT_HOST: 'NOT_HOST',
   PLAYER_DISCONNECTED: 'PLAYER_DISCONNECTED',
+  INVALID_RECONNECT_TOKEN: 'INVALID_RECONNECT_TOKEN',
+  SEAT_NOT_AVAILABLE: 'SEAT_NOT_AVAILABLE',
+
+  // Chat errors
+  CHAT_MUTED: 'CHAT_MUTED',
+  CHAT_RATE_LIMITED: 'CHAT_RATE_LIMITED',
 
   // Action errors
   INVALID_ACTION: 'INVALID_ACTION',
   INVALID_BID: 'INVALID_BID',
   INVALID_CARD: 'INVALID_CARD',
   INVALID_DECISION: 'INVALID_DECISION',
+  DECISION_EXPIRED: 'DECISION_EXPIRED',
   MUST_FOLLOW_SUIT: 'MUST_FOLLOW_SUIT',
   CARD_NOT_IN_HAND: 'CARD_NOT_IN_HAND',
 
@@ -65,23 +75,38 @@ export interface CreateRoomMessage {
   type: 'CREATE_ROOM';
   playerName: string;
   settings?: Partial<GameSettings>;
+  isPublic?: boolean; // List the room in the lobby - private rooms are reached by code only
+}
+
+/** Join a public room that is waiting for players, or open one that AI fills after LOBBY.BACKFILL_DELAY */
+export interface QuickMatchMessage {
+  type: 'QUICK_MATCH';
+  playerName: string;
+}
+
+/** Start or stop receiving LOBBY_ROOMS whenever the public rooms change */
+export interface WatchLobbyMessage {
+  type: 'WATCH_LOBBY';
+  watching: boolean;
 }
 
 export interface JoinRoomMessage {
   type: 'JOIN_ROOM';
-  roomCode: string;
+  roomId: string;
   playerName: string;
 }
 
 export interface RejoinRoomMessage {
   type: 'REJOIN_ROOM';
-  roomCode: string;
-  playerId: string;
+  roomId: string;
+  reconnectToken: string;
 }
 
 export interface AddAIMessage {
   type: 'ADD_AI';
-  difficulty: AIDifficulty;
+  aiName: string;
+  difficulty?: AIDifficulty; // Defaults to medium
+  personality?: AIPersonality; // Defaults to balanced
 }
 
 export interface RemovePlayerMessage {
@@ -95,7 +120,7 @@ export interface StartGameMessage {
 
 export interface GameActionMessage {
   type: 'GAME_ACTION';
-  action: 'bid' | 'trump' | 'sitpass' | 'playcard' | 'penalty' | 'sync_state';
+  action: 'bid' | 'trump' | 'sitpass' | 'playcard' | 'penalty';
   payload: unknown;
 }
 
@@ -113,6 +138,7 @@ export interface TrumpActionMessage {
   type: 'GAME_ACTION';
   action: 'trump';
   payload: {
+    playerId: string;
     suit: Suit;
   };
 }
@@ -140,43 +166,99 @@ export interface PenaltyActionMessage {
   action: 'penalty';
   payload: {
     playerId: string;
+    choice: PenaltyChoice;
   };
 }
 
-export interface SyncStateActionMessage {
-  type: 'GAME_ACTION';
-  action: 'sync_state';
-  payload: {
-    gamePhase?: GamePhase;
-    currentPlayerIndex?: number;
-    scores?: Record<string, number>;
-    playingPlayers?: string[];
-    mustyPlayers?: string[];
-    currentTrick?: TrickPlay[];
-    completedTricks?: TrickPlay[][];
-    lastTrickWinner?: string | null;
-    round?: number;
-    trickNumber?: number;
-    players?: Array<{
-      id: string;
-      hand?: Card[];
-      consecutiveSits?: number;
-      isActive?: boolean;
-      punts?: number;
-      wallet?: number;
-    }>;
-  };
+export interface ChatSendMessage {
+  type: 'CHAT';
+  text: string; // Up to CHAT.MAX_LENGTH characters
+}
+
+export interface ReactMessage {
+  type: 'REACT';
+  reaction: ReactionId;
+}
+
+/** Watch a room without a seat - works in setup and mid-game */
+export interface SpectateRoomMessage {
+  type: 'SPECTATE_ROOM';
+  roomId: string;
+  allHands?: boolean; // Every hand face up, each shown once it has been played out
+}
+
+/** Spectators only: switch between the live table and the delayed all-hands view */
+export interface SetSpectatorViewMessage {
+  type: 'SET_SPECTATOR_VIEW';
+  allHands: boolean;
+}
+
+/** Spectators only: take an AI or abandoned seat when the next hand is dealt */
+export interface ClaimSeatMessage {
+  type: 'CLAIM_SEAT';
+  playerId: string; // The seat to take - it keeps its score, sits and punts
+  playerName: string;
+}
+
+/** Host only: hand a disconnected player's seat to an AI mid-game */
+export interface ReplaceWithAIMessage {
+  type: 'REPLACE_WITH_AI';
+  playerId: string;
+  difficulty: AIDifficulty;
+  personality?: AIPersonality; // Defaults to balanced
+}
+
+/** Host only: silence or unsilence a player's chat and reactions */
+export interface MutePlayerMessage {
+  type: 'MUTE_PLAYER';
+  playerId: string;
+  muted: boolean;
+}
+
+/** Host only: remove a player in setup, or hand their seat to an AI mid-game */
+export interface KickPlayerMessage {
+  type: 'KICK_PLAYER';
+  playerId: string;
+}
+
+// Bot protocol (see BOT_API.md): an external program takes a seat with
+// BOT_JOIN, then answers each DECISION_REQUEST with a DECISION_RESPONSE.
+// Rejoining a bot seat uses REJOIN_ROOM like any other player.
+
+export interface BotJoinMessage {
+  type: 'BOT_JOIN';
+  roomId: string;
+  botName: string;
+}
+
+export interface DecisionResponseMessage {
+  type: 'DECISION_RESPONSE';
+  requestId: string;
+  action: 'bid' | 'trump' | 'sitpass' | 'playcard' | 'penalty';
+  payload: unknown; // As in GAME_ACTION; playerId may be left out
 }
 
 /** Union of all client → server messages */
 export type ClientMessage =
   | CreateRoomMessage
+  | QuickMatchMessage
+  | WatchLobbyMessage
   | JoinRoomMessage
   | RejoinRoomMessage
+  | SpectateRoomMessage
+  | SetSpectatorViewMessage
+  | ClaimSeatMessage
+  | ReplaceWithAIMessage
   | AddAIMessage
   | RemovePlayerMessage
   | StartGameMessage
-  | GameActionMessage;
+  | GameActionMessage
+  | ChatSendMessage
+  | ReactMessage
+  | MutePlayerMessage
+  | KickPlayerMessage
+  | BotJoinMessage
+  | DecisionResponseMessage;
 
 /** Union of typed game action messages */
 export type TypedGameActionMessage =
@@ -184,8 +266,7 @@ export type TypedGameActionMessage =
   | TrumpActionMessage
   | SitPassActionMessage
   | PlayCardActionMessage
-  | PenaltyActionMessage
-  | SyncStateActionMessage;
+  | PenaltyActionMessage;
 
 // =============================================================================
 // SERVER → CLIENT MESSAGES
@@ -195,6 +276,7 @@ export interface RoomCreatedMessage {
   type: 'ROOM_CREATED';
   roomId: string;
   playerId: string;
+  reconnectToken?: string; // Not issued to spectators
 }
 
 export interface JoinedRoomMessage {
@@ -203,6 +285,9 @@ export interface JoinedRoomMessage {
   playerId: string;
   players: SerializedPlayer[];
   isHost: boolean;
+  reconnectToken: string;
+  chat: ChatMessage[]; // The room's recent chat
+  mutedPlayerIds: string[];
 }
 
 export interface RejoinedRoomMessage {
@@ -212,6 +297,50 @@ export interface RejoinedRoomMessage {
   players: SerializedPlayer[];
   gameState: SerializedGameState | null;
   isHost: boolean;
+  reconnectToken: string; // Replaces the token used to rejoin
+  chat: ChatMessage[]; // The room's recent chat, missed while away
+  mutedPlayerIds: string[];
+}
+
+export interface SpectatingMessage {
+  type: 'SPECTATING';
+  roomId: string;
+  players: SerializedPlayer[]; // Hands hidden until the delayed all-hands view catches up
+  gameState: SerializedGameState;
+  isSpectator: true;
+  allHands: boolean;
+  chat: ChatMessage[];
+  mutedPlayerIds: string[];
+}
+
+export interface SpectatorCountMessage {
+  type: 'SPECTATOR_COUNT';
+  count: number;
+}
+
+/** Sent to a spectator whose CLAIM_SEAT was accepted, until the next deal */
+export interface ClaimPendingMessage {
+  type: 'CLAIM_PENDING';
+  playerId: string;
+}
+
+/** Sent to the spectator who now holds the seat - from here on they are that player */
+export interface SeatClaimedMessage {
+  type: 'SEAT_CLAIMED';
+  roomId: string;
+  localPlayerId: string;
+  players: SerializedPlayer[];
+  gameState: SerializedGameState;
+  isHost: boolean;
+  isSpectator: false;
+  reconnectToken: string;
+  chat: ChatMessage[];
+  mutedPlayerIds: string[];
+}
+
+export interface LobbyRoomsMessage {
+  type: 'LOBBY_ROOMS';
+  rooms: LobbyRoom[]; // Open public rooms, those still waiting for players first
 }
 
 export interface PlayerJoinedMessage {
@@ -243,6 +372,30 @@ export interface RoomClosedMessage {
   type: 'ROOM_CLOSED';
 }
 
+export interface ChatBroadcastMessage {
+  type: 'CHAT_MESSAGE';
+  message: ChatMessage;
+}
+
+/** A quick reaction, shown briefly over the sender's seat */
+export interface ReactionBroadcastMessage {
+  type: 'REACTION';
+  playerId: string;
+  reaction: ReactionId;
+}
+
+export interface PlayerMutedMessage {
+  type: 'PLAYER_MUTED';
+  playerId: string;
+  muted: boolean;
+}
+
+/** Sent only to the player the host kicked, just before their connection closes */
+export interface KickedMessage {
+  type: 'KICKED';
+  reason: string;
+}
+
 export interface GameStartedMessage {
   type: 'GAME_STARTED';
   players: SerializedPlayer[];
@@ -270,6 +423,19 @@ export interface TurnTimerStartMessage {
   currentPlayerId: string;
 }
 
+/** Sent only to a bot seat when it is that seat's turn */
+export interface DecisionRequestMessage {
+  type: 'DECISION_REQUEST';
+  requestId: string; // Echo back in DECISION_RESPONSE
+  playerId: string;
+  deadline: number; // Epoch ms - after this the server plays a safe move for the bot
+  timeLimitMs: number;
+  hand: Card[];
+  options: DecisionOptions; // Only legal moves are listed
+  players: SerializedPlayer[];
+  gameState: SerializedGameState;
+}
+
 export interface ErrorMessage {
   type: 'ERROR';
   code?: ErrorCode;
@@ -281,16 +447,26 @@ export type ServerMessage =
   | RoomCreatedMessage
   | JoinedRoomMessage
   | RejoinedRoomMessage
+  | SpectatingMessage
+  | SpectatorCountMessage
+  | ClaimPendingMessage
+  | SeatClaimedMessage
+  | LobbyRoomsMessage
   | PlayerJoinedMessage
   | PlayerLeftMessage
   | PlayerDisconnectedMessage
   | PlayerReconnectedMessage
   | HostTransferredMessage
   | RoomClosedMessage
+  | ChatBroadcastMessage
+  | ReactionBroadcastMessage
+  | PlayerMutedMessage
+  | KickedMessage
   | GameStartedMessage
   | GameStateSyncMessage
   | GameStateUpdateMessage
   | TurnTimerStartMessage
+  | DecisionRequestMessage
   | ErrorMessage;
 
 // =============================================================================
@@ -307,12 +483,24 @@ export function isClientMessage(msg: unknown): msg is ClientMessage {
   const type = (msg as { type: unknown }).type;
   return (
     type === 'CREATE_ROOM' ||
+    type === 'QUICK_MATCH' ||
+    type === 'WATCH_LOBBY' ||
     type === 'JOIN_ROOM' ||
     type === 'REJOIN_ROOM' ||
+    type === 'SPECTATE_ROOM' ||
+    type === 'SET_SPECTATOR_VIEW' ||
+    type === 'CLAIM_SEAT' ||
+    type === 'REPLACE_WITH_AI' ||
     type === 'ADD_AI' ||
     type === 'REMOVE_PLAYER' ||
     type === 'START_GAME' ||
-    type === 'GAME_ACTION'
+    type === 'GAME_ACTION' ||
+    type === 'CHAT' ||
+    type === 'REACT' ||
+    type === 'MUTE_PLAYER' ||
+    type === 'KICK_PLAYER' ||
+    type === 'BOT_JOIN' ||
+    type === 'DECISION_RESPONSE'
   );
 }
 
@@ -328,16 +516,26 @@ export function isServerMessage(msg: unknown): msg is ServerMessage {
     type === 'ROOM_CREATED' ||
     type === 'JOINED_ROOM' ||
     type === 'REJOINED_ROOM' ||
+    type === 'SPECTATING' ||
+    type === 'SPECTATOR_COUNT' ||
+    type === 'CLAIM_PENDING' ||
+    type === 'SEAT_CLAIMED' ||
+    type === 'LOBBY_ROOMS' ||
     type === 'PLAYER_JOINED' ||
     type === 'PLAYER_LEFT' ||
     type === 'PLAYER_DISCONNECTED' ||
     type === 'PLAYER_RECONNECTED' ||
     type === 'HOST_TRANSFERRED' ||
     type === 'ROOM_CLOSED' ||
+    type === 'CHAT_MESSAGE' ||
+    type === 'REACTION' ||
+    type === 'PLAYER_MUTED' ||
+    type === 'KICKED' ||
     type === 'GAME_STARTED' ||
     type === 'GAME_STATE_SYNC' ||
     type === 'GAME_STATE_UPDATE' ||
     type === 'TURN_TIMER_START' ||
+    type === 'DECISION_REQUEST' ||
     type === 'ERROR'
   );
 }
@@ -357,8 +555,7 @@ export function isGameActionMessage(msg: unknown): msg is GameActionMessage {
     action === 'trump' ||
     action === 'sitpass' ||
     action === 'playcard' ||
-    action === 'penalty' ||
-    action === 'sync_state'
+    action === 'penalty'
   );
 }
 
@@ -376,27 +573,64 @@ export function isErrorMessage(msg: unknown): msg is ErrorMessage {
 // =============================================================================
 
 export const createClientMessage = {
-  createRoom: (playerName: string, settings?: Partial<GameSettings>): CreateRoomMessage => ({
+  createRoom: (playerName: string, settings?: Partial<GameSettings>, isPublic: boolean = false): CreateRoomMessage => ({
     type: 'CREATE_ROOM',
     playerName,
     settings,
+    isPublic,
   }),
 
-  joinRoom: (roomCode: string, playerName: string): JoinRoomMessage => ({
+  quickMatch: (playerName: string): QuickMatchMessage => ({
+    type: 'QUICK_MATCH',
+    playerName,
+  }),
+
+  watchLobby: (watching: boolean): WatchLobbyMessage => ({
+    type: 'WATCH_LOBBY',
+    watching,
+  }),
+
+  joinRoom: (roomId: string, playerName: string): JoinRoomMessage => ({
     type: 'JOIN_ROOM',
-    roomCode,
+    roomId,
     playerName,
   }),
 
-  rejoinRoom: (roomCode: string, playerId: string): RejoinRoomMessage => ({
+  rejoinRoom: (roomId: string, reconnectToken: string): RejoinRoomMessage => ({
     type: 'REJOIN_ROOM',
-    roomCode,
+    roomId,
+    reconnectToken,
+  }),
+
+  spectateRoom: (roomId: string, allHands: boolean = false): SpectateRoomMessage => ({
+    type: 'SPECTATE_ROOM',
+    roomId,
+    allHands,
+  }),
+
+  setSpectatorView: (allHands: boolean): SetSpectatorViewMessage => ({
+    type: 'SET_SPECTATOR_VIEW',
+    allHands,
+  }),
+
+  claimSeat: (playerId: string, playerName: string): ClaimSeatMessage => ({
+    type: 'CLAIM_SEAT',
+    playerId,
+    playerName,
+  }),
+
+  replaceWithAI: (playerId: string, difficulty: AIDifficulty, personality?: AIPersonality): ReplaceWithAIMessage => ({
+    type: 'REPLACE_WITH_AI',
     playerId,
+    difficulty,
+    personality,
   }),
 
-  addAI: (difficulty: AIDifficulty): AddAIMessage => ({
+  addAI: (aiName: string, difficulty: AIDifficulty, personality?: AIPersonality): AddAIMessage => ({
     type: 'ADD_AI',
+    aiName,
     difficulty,
+    personality,
   }),
 
   removePlayer: (playerId: string): RemovePlayerMessage => ({
@@ -408,16 +642,37 @@ export const createClientMessage = {
     type: 'START_GAME',
   }),
 
+  chat: (text: string): ChatSendMessage => ({
+    type: 'CHAT',
+    text,
+  }),
+
+  react: (reaction: ReactionId): ReactMessage => ({
+    type: 'REACT',
+    reaction,
+  }),
+
+  mutePlayer: (playerId: string, muted: boolean): MutePlayerMessage => ({
+    type: 'MUTE_PLAYER',
+    playerId,
+    muted,
+  }),
+
+  kickPlayer: (playerId: string): KickPlayerMessage => ({
+    type: 'KICK_PLAYER',
+    playerId,
+  }),
+
   bid: (playerId: string, bid: number): BidActionMessage => ({
     type: 'GAME_ACTION',
     action: 'bid',
     payload: { playerId, bid },
   }),
 
-  trump: (suit: Suit): TrumpActionMessage => ({
+  trump: (playerId: string, suit: Suit): TrumpActionMessage => ({
     type: 'GAME_ACTION',
     action: 'trump',
-    payload: { suit },
+    payload: { playerId, suit },
   }),
 
   sitPass: (playerId: string, decision: 'sit' | 'play'): SitPassActionMessage => ({
@@ -431,6 +686,23 @@ export const createClientMessage = {
     action: 'playcard',
     payload: { playerId, card },
   }),
+
+  botJoin: (roomId: string, botName: string): BotJoinMessage => ({
+    type: 'BOT_JOIN',
+    roomId,
+    botName,
+  }),
+
+  decisionResponse: (
+    requestId: string,
+    action: DecisionResponseMessage['action'],
+    payload: unknown
+  ): DecisionResponseMessage => ({
+    type: 'DECISION_RESPONSE',
+    requestId,
+    action,
+    payload,
+  }),
 };
 
 export const createServerMessage = {
@@ -440,10 +712,16 @@ export const createServerMessage = {
     code,
   }),
 
-  roomCreated: (roomId: string, playerId: string): RoomCreatedMessage => ({
+  roomCreated: (roomId: string, playerId: string, reconnectToken?: string): RoomCreatedMessage => ({
     type: 'ROOM_CREATED',
     roomId,
     playerId,
+    reconnectToken,
+  }),
+
+  chatMessage: (message: ChatMessage): ChatBroadcastMessage => ({
+    type: 'CHAT_MESSAGE',
+    message,
   }),
 
   turnTimerStart: (timeLimit: number, currentPlayerId: string): TurnTimerStartMessage => ({
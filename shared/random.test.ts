@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, deriveSeed, nextSeed, randomSeed } from './random';
+import { createDeck, shuffleDeck } from './cardOperations';
+
+const draw = (seed: number, count: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe('createRandom', () => {
+  it('produces the same sequence from the same seed', () => {
+    expect(draw(42, 10)).toEqual(draw(42, 10));
+    expect(draw(42, 10)).not.toEqual(draw(43, 10));
+  });
+
+  it('stays in [0, 1)', () => {
+    draw(7, 1000).forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('treats seeds as 32-bit unsigned', () => {
+    expect(draw(-1, 5)).toEqual(draw(4294967295, 5));
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives each label its own seed and the same seed for the same labels', () => {
+    expect(deriveSeed(1, 'p1', 'bidding', 0)).toBe(deriveSeed(1, 'p1', 'bidding', 0));
+    expect(deriveSeed(1, 'p1', 'bidding', 0)).not.toBe(deriveSeed(1, 'p2', 'bidding', 0));
+    expect(deriveSeed(1, 'p1', 'bidding', 0)).not.toBe(deriveSeed(2, 'p1', 'bidding', 0));
+  });
+
+  it('returns a 32-bit unsigned integer', () => {
+    const seed = deriveSeed(4000000000, 'seat', 3);
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('seeds', () => {
+  it('draws one replayable seed per deal from a game seed', () => {
+    const a = createRandom(99);
+    const b = createRandom(99);
+    const seeds = [nextSeed(a), nextSeed(a), nextSeed(a)];
+    expect([nextSeed(b), nextSeed(b), nextSeed(b)]).toEqual(seeds);
+    seeds.forEach(seed => expect(seed >>> 0).toBe(seed));
+  });
+
+  it('makes fresh seeds the engine accepts', () => {
+    const seed = randomSeed();
+    expect(seed >>> 0).toBe(seed);
+  });
+
+  it('shuffles the deck the same way from the same seed', () => {
+    const deck = createDeck();
+    expect(shuffleDeck(deck, createRandom(5))).toEqual(shuffleDeck(deck, createRandom(5)));
+    expect(shuffleDeck(deck, createRandom(5))).not.toEqual(shuffleDeck(deck, createRandom(6)));
+  });
+});
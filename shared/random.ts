@@ -0,0 +1,49 @@
+/**
+ * Seedable randomness for ShnarpsDuel
+ * Every deal carries a 32-bit seed, and everything random in a hand (the
+ * shuffle, AI tie-breaks) is drawn from generators seeded off it, so a hand
+ * can be replayed bit for bit from its seed.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Fresh 32-bit seed for a new deal
+ */
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Deterministic generator of numbers in [0, 1) (mulberry32).
+ * The same seed always produces the same sequence.
+ */
+export function createRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Mix a seed with labels (player id, phase, trick...) into an independent
+ * seed, so separate decisions in one hand don't share a sequence (FNV-1a)
+ */
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (const char of parts.join('|')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Next 32-bit seed from a generator - e.g. one seed per deal from a game seed
+ */
+export function nextSeed(random: RandomSource): number {
+  return Math.floor(random() * 4294967296) >>> 0;
+}
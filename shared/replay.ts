@@ -0,0 +1,78 @@
+/**
+ * Game recordings for ShnarpsDuel
+ * Records every action the engine accepts and plays a finished game back
+ * through the same engine, one state per action
+ */
+
+import type { EngineAction, GameRecording, GameState, Player } from './types';
+import { addPlayer, applyAction, createGameState, type RuleSettings } from './gameEngine';
+import { serializePlayer } from './serialization';
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Start a recording for the table as it is about to deal the first hand
+ */
+export function startRecording(players: Player[], settings: RuleSettings): GameRecording {
+  const { startingScore, winningScore, eliminationScore, moneyPerPoint, moneyPerPunt } = settings;
+  return {
+    players: players.map(p => serializePlayer(p, false)),
+    settings: { startingScore, winningScore, eliminationScore, moneyPerPoint, moneyPerPunt },
+    actions: [],
+  };
+}
+
+export function recordAction(recording: GameRecording, action: EngineAction): GameRecording {
+  return { ...recording, actions: [...recording.actions, action] };
+}
+
+// =============================================================================
+// PLAYBACK
+// =============================================================================
+
+export interface ReplayStep {
+  state: GameState;
+  action: EngineAction | null; // The action that led here; null for the table before the first deal
+}
+
+export interface Replay {
+  steps: ReplayStep[];
+  error?: string; // Why playback stopped early - the recording doesn't fit the rules
+}
+
+/**
+ * Play a recording back through the rules engine. Stops at the first action
+ * the engine rejects, keeping every state up to it.
+ */
+export function replayRecording(recording: GameRecording): Replay {
+  let state = recording.players.reduce(
+    (table, player) => addPlayer(table, { ...player, hand: [] }, recording.settings),
+    createGameState()
+  );
+  const steps: ReplayStep[] = [{ state, action: null }];
+
+  for (const action of recording.actions) {
+    const result = applyAction(state, action, recording.settings);
+    if (!result.valid) {
+      return { steps, error: `Action ${steps.length} (${action.action}) was rejected: ${result.error}` };
+    }
+    state = result.state;
+    steps.push({ state, action });
+  }
+
+  return { steps };
+}
+
+/**
+ * Index of the step that dealt each round, by round number. A misdealt round
+ * is dealt twice; the deal that was played out is the one kept.
+ */
+export function roundStarts(steps: ReplayStep[]): Map<number, number> {
+  const starts = new Map<number, number>();
+  steps.forEach((step, index) => {
+    if (step.action?.action === 'deal') starts.set(step.state.round, index);
+  });
+  return starts;
+}
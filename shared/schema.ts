@@ -1,11 +1,23 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, uniqueIndex, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Dollars and cents. Payouts are fractional (a quarter a point by default), so
+// the column is numeric; the driver hands numeric values back as strings.
+const money = customType<{ data: number; driverData: string }>({
+  dataType: () => "numeric(12, 2)",
+  toDriver: (value) => value.toFixed(2),
+  fromDriver: (value) => Number(value),
+});
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash - see server/auth.ts
+  wallet: money("wallet").notNull().default(100),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  gamesWon: integer("games_won").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const games = pgTable("games", {
@@ -30,6 +42,37 @@ export const gamePlayers = pgTable("game_players", {
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
+// One row per finished round - mirrors RoundHistory with Maps stored as JSON records
+export const gameRounds = pgTable("game_rounds", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").references(() => games.id).notNull(),
+  round: integer("round").notNull(),
+  seed: bigint("seed", { mode: "number" }), // Deal seed (unsigned 32-bit) - replays the shuffle
+  trumpSuit: text("trump_suit"),
+  highestBidder: text("highest_bidder"),
+  bids: jsonb("bids").notNull(), // Record<playerId, bid>
+  playingPlayers: jsonb("playing_players").notNull(), // playerId[]
+  tricksWon: jsonb("tricks_won").notNull(),
+  scoreChanges: jsonb("score_changes").notNull(),
+  finalScores: jsonb("final_scores").notNull(),
+  punts: jsonb("punts"),
+  moneyChanges: jsonb("money_changes"), // Only on the final round
+  finalWallets: jsonb("final_wallets"),
+  dealtHands: jsonb("dealt_hands"), // Record<playerId, Card[]>
+  sitDecisions: jsonb("sit_decisions"), // Record<playerId, 'sit' | 'play'>
+  tricks: jsonb("tricks"), // TrickRecord[]
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  gameRoundIdx: uniqueIndex("game_rounds_game_id_round_idx").on(table.gameId, table.round),
+}));
+
+// Live WebSocket rooms, snapshotted after every action so they survive a restart
+export const roomSnapshots = pgTable("room_snapshots", {
+  roomId: text("room_id").primaryKey(),
+  snapshot: jsonb("snapshot").notNull(), // RoomSnapshot
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -48,7 +91,9 @@ export const insertGamePlayerSchema = createInsertSchema(gamePlayers).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type Game = typeof games.$inferSelect;
 export type GamePlayer = typeof gamePlayers.$inferSelect;
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type InsertGamePlayer = z.infer<typeof insertGamePlayerSchema>;
+export type GameRound = typeof gameRounds.$inferSelect;
@@ -0,0 +1,111 @@
+/**
+ * Scoring for ShnarpsDuel
+ * Round scoring, win/elimination checks and the end-of-game payout
+ */
+
+import type { Player } from './types';
+import { GAME, DEFAULT_SETTINGS } from './constants';
+
+// =============================================================================
+// ROUND SCORING
+// =============================================================================
+
+export interface ScoreChange {
+  change: number;
+  isPunt: boolean;
+}
+
+/**
+ * Score change for one playing player at the end of a hand.
+ * - Bid 0 (punt): +5 if no tricks, -1 per trick otherwise
+ * - Highest bidder who misses their bid: +5 punt
+ * - Everyone else: -1 per trick won
+ */
+export function getScoreChange(
+  bid: number,
+  tricksWon: number,
+  isHighestBidder: boolean
+): ScoreChange {
+  if (bid === 0) {
+    return tricksWon === 0
+      ? { change: GAME.PUNT_PENALTY, isPunt: true }
+      : { change: -tricksWon, isPunt: false };
+  }
+
+  if (isHighestBidder && tricksWon < bid) {
+    return { change: GAME.PUNT_PENALTY, isPunt: true };
+  }
+
+  return { change: -tricksWon, isPunt: false };
+}
+
+/**
+ * Calculate a player's new score after a hand
+ */
+export function calculateScore(
+  playerId: string,
+  bid: number,
+  tricksWon: number,
+  currentScore: number,
+  isHighestBidder: boolean = false
+): number {
+  return currentScore + getScoreChange(bid, tricksWon, isHighestBidder).change;
+}
+
+// =============================================================================
+// WIN / ELIMINATION
+// =============================================================================
+
+export function isPlayerEliminated(
+  score: number,
+  eliminationScore: number = GAME.ELIMINATION_SCORE
+): boolean {
+  return score > eliminationScore;
+}
+
+export function hasPlayerWon(
+  score: number,
+  winningScore: number = GAME.WINNING_SCORE
+): boolean {
+  return score <= winningScore;
+}
+
+// =============================================================================
+// PAYOUT
+// =============================================================================
+
+/**
+ * Money owed at game end: each loser pays the winner per point left on their
+ * score plus per punt taken during the game. Returns an empty map when nobody
+ * reached the winning score.
+ */
+export function calculateGameEndPayout(
+  players: Player[],
+  scores: Map<string, number>,
+  moneyPerPoint: number = DEFAULT_SETTINGS.moneyPerPoint,
+  moneyPerPunt: number = DEFAULT_SETTINGS.moneyPerPunt,
+  winningScore: number = GAME.WINNING_SCORE
+): Map<string, number> {
+  const moneyChanges = new Map<string, number>();
+  const scoreOf = (player: Player) => scores.get(player.id) ?? GAME.STARTING_SCORE;
+
+  // Lowest score at or below the winning score takes the pot
+  const winner = players
+    .filter(p => hasPlayerWon(scoreOf(p), winningScore))
+    .sort((a, b) => scoreOf(a) - scoreOf(b))[0];
+  if (!winner) return moneyChanges;
+
+  let totalPayout = 0;
+
+  players.forEach(player => {
+    if (player.id !== winner.id) {
+      const amountOwed = (scoreOf(player) * moneyPerPoint) + ((player.punts || 0) * moneyPerPunt);
+      moneyChanges.set(player.id, -amountOwed);
+      totalPayout += amountOwed;
+    }
+  });
+
+  moneyChanges.set(winner.id, totalPayout);
+
+  return moneyChanges;
+}
@@ -0,0 +1,173 @@
+/**
+ * Serialization for ShnarpsDuel
+ * Converts engine state (Maps/Sets) to and from plain JSON for transport
+ */
+
+import type {
+  GameState,
+  Player,
+  RoundHistory,
+  SerializedEngineState,
+  SerializedGameState,
+  SerializedPlayer,
+  SerializedRoundHistory,
+} from './types';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function mapToRecord<V>(map: Map<string, V>): Record<string, V> {
+  return Object.fromEntries(map);
+}
+
+function recordToMap<V>(record: Record<string, V> | undefined): Map<string, V> {
+  return new Map(Object.entries(record || {}));
+}
+
+// =============================================================================
+// ROUND HISTORY
+// =============================================================================
+
+export function serializeRoundHistory(round: RoundHistory): SerializedRoundHistory {
+  return {
+    round: round.round,
+    seed: round.seed,
+    bids: mapToRecord(round.bids),
+    trumpSuit: round.trumpSuit,
+    highestBidder: round.highestBidder,
+    playingPlayers: [...round.playingPlayers],
+    tricksWon: mapToRecord(round.tricksWon),
+    scoreChanges: mapToRecord(round.scoreChanges),
+    finalScores: mapToRecord(round.finalScores),
+    punts: round.punts && mapToRecord(round.punts),
+    moneyChanges: round.moneyChanges && mapToRecord(round.moneyChanges),
+    finalWallets: round.finalWallets && mapToRecord(round.finalWallets),
+    dealtHands: round.dealtHands && mapToRecord(round.dealtHands),
+    sitDecisions: round.sitDecisions && mapToRecord(round.sitDecisions),
+    tricks: round.tricks,
+  };
+}
+
+export function deserializeRoundHistory(round: SerializedRoundHistory): RoundHistory {
+  return {
+    round: round.round,
+    seed: round.seed,
+    bids: recordToMap(round.bids),
+    trumpSuit: round.trumpSuit,
+    highestBidder: round.highestBidder,
+    playingPlayers: [...round.playingPlayers],
+    tricksWon: recordToMap(round.tricksWon),
+    scoreChanges: recordToMap(round.scoreChanges),
+    finalScores: recordToMap(round.finalScores),
+    punts: round.punts && recordToMap(round.punts),
+    moneyChanges: round.moneyChanges && recordToMap(round.moneyChanges),
+    finalWallets: round.finalWallets && recordToMap(round.finalWallets),
+    dealtHands: round.dealtHands && recordToMap(round.dealtHands),
+    sitDecisions: round.sitDecisions && recordToMap(round.sitDecisions),
+    tricks: round.tricks,
+  };
+}
+
+// =============================================================================
+// GAME STATE
+// =============================================================================
+
+/**
+ * Serialize everything except players, the undealt deck and the deal seed,
+ * which are never sent to clients as-is (the seed would give away every hand).
+ */
+export function serializeGameState(state: GameState): SerializedGameState {
+  return {
+    gamePhase: state.gamePhase,
+    currentPlayerIndex: state.currentPlayerIndex,
+    dealerIndex: state.dealerIndex,
+    currentTrick: state.currentTrick,
+    completedTricks: state.completedTricks,
+    bids: mapToRecord(state.bids),
+    trumpSuit: state.trumpSuit,
+    highestBidder: state.highestBidder,
+    playingPlayers: Array.from(state.playingPlayers),
+    mustyPlayers: Array.from(state.mustyPlayers),
+    scores: mapToRecord(state.scores),
+    round: state.round,
+    trickNumber: state.trickNumber,
+    lastTrickWinner: state.lastTrickWinner,
+    history: state.history.map(serializeRoundHistory),
+  };
+}
+
+export function deserializeGameState(
+  state: SerializedGameState
+): Omit<GameState, 'players' | 'eliminatedPlayers' | 'deck' | 'dealSeed'> {
+  return {
+    gamePhase: state.gamePhase,
+    currentPlayerIndex: state.currentPlayerIndex,
+    dealerIndex: state.dealerIndex,
+    currentTrick: state.currentTrick || [],
+    completedTricks: state.completedTricks || [],
+    bids: recordToMap(state.bids),
+    trumpSuit: state.trumpSuit,
+    highestBidder: state.highestBidder,
+    playingPlayers: new Set(state.playingPlayers || []),
+    mustyPlayers: new Set(state.mustyPlayers || []),
+    scores: recordToMap(state.scores),
+    round: state.round,
+    trickNumber: state.trickNumber ?? 1,
+    lastTrickWinner: state.lastTrickWinner ?? null,
+    history: (state.history || []).map(deserializeRoundHistory),
+  };
+}
+
+// =============================================================================
+// PLAYERS
+// =============================================================================
+
+/**
+ * Serialize a player for one viewer. Hands are only included when revealHand is set.
+ */
+export function serializePlayer(player: Player, revealHand: boolean): SerializedPlayer {
+  return {
+    id: player.id,
+    name: player.name,
+    hand: revealHand ? player.hand : [],
+    isActive: player.isActive,
+    consecutiveSits: player.consecutiveSits,
+    isAI: player.isAI,
+    isBot: player.isBot,
+    aiDifficulty: player.aiDifficulty,
+    aiPersonality: player.aiPersonality,
+    avatar: player.avatar,
+    wallet: player.wallet ?? 100,
+    punts: player.punts ?? 0,
+    isConnected: player.isConnected ?? true,
+  };
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Serialize the whole engine state, hands and deck included, so a game can be
+ * resumed exactly where it stopped.
+ */
+export function serializeEngineState(state: GameState): SerializedEngineState {
+  return {
+    ...serializeGameState(state),
+    players: state.players.map(p => serializePlayer(p, true)),
+    eliminatedPlayers: state.eliminatedPlayers.map(p => serializePlayer(p, true)),
+    deck: state.deck,
+    dealSeed: state.dealSeed,
+  };
+}
+
+export function deserializeEngineState(state: SerializedEngineState): GameState {
+  return {
+    ...deserializeGameState(state),
+    players: state.players.map(p => ({ ...p })),
+    eliminatedPlayers: (state.eliminatedPlayers || []).map(p => ({ ...p })),
+    deck: state.deck || [],
+    dealSeed: state.dealSeed ?? null,
+  };
+}
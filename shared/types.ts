@@ -59,7 +59,10 @@ export interface PlayerAvatar {
   icon: string;
 }
 
-export type AIDifficulty = 'easy' | 'medium' | 'hard';
+export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+// Table habits on top of the difficulty (see shared/ai/personalities.ts)
+export type AIPersonality = 'balanced' | 'aggressive' | 'sitter' | 'ganger';
 
 export interface Player {
   id: string;
@@ -68,7 +71,9 @@ export interface Player {
   isActive: boolean;
   consecutiveSits: number;
   isAI: boolean;
+  isBot?: boolean; // Seat played by an external program over the bot protocol
   aiDifficulty?: AIDifficulty;
+  aiPersonality?: AIPersonality;
   avatar?: PlayerAvatar;
   wallet?: number;
   punts?: number; // Track total punts across game
@@ -110,8 +115,15 @@ export const GAME_PHASES: GamePhase[] = [
 // ROUND HISTORY
 // =============================================================================
 
+// One trick as it was played: the cards in order (the first was led) and who took it
+export interface TrickRecord {
+  plays: TrickPlay[];
+  winnerId: string;
+}
+
 export interface RoundHistory {
   round: number;
+  seed?: number; // Deal seed - replays this hand's shuffle exactly
   bids: Map<string, number>;
   trumpSuit: Suit | null;
   highestBidder: string | null;
@@ -122,6 +134,10 @@ export interface RoundHistory {
   punts?: Map<string, number>; // Track who punted this round
   moneyChanges?: Map<string, number>;
   finalWallets?: Map<string, number>;
+  // Hand detail - missing on rounds recorded before it was kept
+  dealtHands?: Map<string, Card[]>; // Every seat's five cards as dealt
+  sitDecisions?: Map<string, SitPassDecision>; // Everyone but the bidder
+  tricks?: TrickRecord[];
 }
 
 // =============================================================================
@@ -147,6 +163,7 @@ export interface GameState {
   trickNumber: number;
   history: RoundHistory[];
   lastTrickWinner: string | null;
+  dealSeed: number | null; // Seed of the current deal. Server-side only, like the deck
 }
 
 // =============================================================================
@@ -155,6 +172,9 @@ export interface GameState {
 
 export type SitPassDecision = 'sit' | 'play';
 
+// Everyone-sat penalty: bidder takes -5 ('self') or everyone else takes +5 ('others')
+export type PenaltyChoice = 'self' | 'others';
+
 export interface BidAction {
   action: 'bid';
   payload: {
@@ -166,6 +186,7 @@ export interface BidAction {
 export interface TrumpAction {
   action: 'trump';
   payload: {
+    playerId: string;
     suit: Suit;
   };
 }
@@ -190,26 +211,69 @@ export interface PenaltyAction {
   action: 'penalty';
   payload: {
     playerId: string;
+    choice: PenaltyChoice;
   };
 }
 
-export interface SyncStateAction {
-  action: 'sync_state';
-  payload: SyncStatePayload;
-}
-
 export type GameAction =
   | BidAction
   | TrumpAction
   | SitPassAction
   | PlayCardAction
-  | PenaltyAction
-  | SyncStateAction;
+  | PenaltyAction;
 
 export type GameActionType = GameAction['action'];
 
+// Every legal move open to the player whose turn it is, keyed by the action
+// that takes one of them. Sent to bot seats with each decision request.
+export type DecisionOptions =
+  | { action: 'bid'; validBids: number[] }
+  | { action: 'trump'; suits: Suit[] }
+  | { action: 'sitpass'; decisions: SitPassDecision[] }
+  | { action: 'playcard'; validCards: Card[] }
+  | { action: 'penalty'; choices: PenaltyChoice[] };
+
+// Lifecycle actions are only dispatched by whoever owns the game (server room or
+// local store), never sent by players.
+
+// Deal a new hand from a deck shuffled with the seed (setup or round_complete → bidding)
+export interface DealAction {
+  action: 'deal';
+  payload: {
+    seed: number;
+  };
+}
+
+// Move past trick_complete (next trick, or score the round after the last trick)
+export interface AdvanceAction {
+  action: 'advance';
+  payload: Record<string, never>;
+}
+
+export type EngineAction =
+  | GameAction
+  | DealAction
+  | AdvanceAction;
+
 // =============================================================================
-// SYNC STATE PAYLOAD (for host → server state sync)
+// GAME EVENTS (emitted by the rules engine alongside each new state)
+// =============================================================================
+
+export type GameEvent =
+  | { type: 'cards_dealt'; round: number; dealerId: string }
+  | { type: 'misdeal'; round: number }
+  | { type: 'bid_placed'; playerId: string; bid: number }
+  | { type: 'trump_chosen'; playerId: string; suit: Suit }
+  | { type: 'sit_decided'; playerId: string; decision: SitPassDecision; penalty: number }
+  | { type: 'card_played'; playerId: string; card: Card }
+  | { type: 'trick_won'; playerId: string; trickNumber: number }
+  | { type: 'penalty_chosen'; playerId: string; choice: PenaltyChoice }
+  | { type: 'round_scored'; round: number; scoreChanges: Record<string, number> }
+  | { type: 'player_eliminated'; playerId: string; score: number }
+  | { type: 'game_over'; winnerId: string | null; moneyChanges: Record<string, number> };
+
+export type GameEventType = GameEvent['type'];
+
 // =============================================================================
 
 export interface SyncStatePayload {
@@ -234,32 +298,29 @@ export interface SyncStatePayload {
 }
 
 // =============================================================================
-// GAME ROOM (Server-side)
+// SERIALIZED TYPES (for JSON transport)
 // =============================================================================
 
-export interface GameRoomState {
-  gamePhase: GamePhase;
-  currentPlayerIndex: number;
-  dealerIndex: number;
-  deck: Card[];
-  currentTrick: TrickPlay[];
-  completedTricks: TrickPlay[][];
-  bids: Map<string, number>;
+// Serialized version of RoundHistory (Maps become plain records)
+export interface SerializedRoundHistory {
+  round: number;
+  seed?: number;
+  bids: Record<string, number>;
   trumpSuit: Suit | null;
   highestBidder: string | null;
-  playingPlayers: Set<string>;
-  mustyPlayers: Set<string>;
-  scores: Map<string, number>;
-  round: number;
-  trickNumber: number;
-  lastTrickWinner: string | null;
+  playingPlayers: string[];
+  tricksWon: Record<string, number>;
+  scoreChanges: Record<string, number>;
+  finalScores: Record<string, number>;
+  punts?: Record<string, number>;
+  moneyChanges?: Record<string, number>;
+  finalWallets?: Record<string, number>;
+  dealtHands?: Record<string, Card[]>;
+  sitDecisions?: Record<string, SitPassDecision>;
+  tricks?: TrickRecord[];
 }
 
-// =============================================================================
-// SERIALIZED TYPES (for JSON transport)
-// =============================================================================
-
-// Serialized version of GameRoomState for WebSocket transport
+// Serialized version of GameState for WebSocket transport (players travel separately)
 export interface SerializedGameState {
   gamePhase: GamePhase;
   currentPlayerIndex: number;
@@ -275,6 +336,7 @@ export interface SerializedGameState {
   round: number;
   trickNumber: number;
   lastTrickWinner: string | null;
+  history: SerializedRoundHistory[];
 }
 
 // Serialized player data for transport
@@ -285,7 +347,9 @@ export interface SerializedPlayer {
   isActive: boolean;
   consecutiveSits: number;
   isAI: boolean;
+  isBot?: boolean;
   aiDifficulty?: AIDifficulty;
+  aiPersonality?: AIPersonality;
   avatar?: PlayerAvatar;
   wallet?: number;
   punts?: number;
@@ -296,10 +360,63 @@ export interface SerializedPlayer {
 export interface SerializedRoomState {
   roomId: string;
   players: SerializedPlayer[];
+  eliminatedPlayers: SerializedPlayer[];
   gameState: SerializedGameState;
   localPlayerId: string | null;
   isHost: boolean;
   turnTimeRemaining: number | null;
+  coachAllowed: boolean;
+  reconnectToken?: string; // Only on ROOM_CREATED, JOINED_ROOM and REJOINED_ROOM
+  recording?: GameRecording; // Only once the game is over - its deal seeds give away every hand
+  spectatorCount: number; // Everyone watching without a seat
+  isSpectator?: boolean; // Only on views sent to spectators
+  isPublic: boolean; // Listed in the lobby
+  backfillAt: number | null; // Quick match rooms: when AI fills the empty seats and the game starts
+}
+
+// One public room as listed in the lobby
+export interface LobbyRoom {
+  roomId: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  gamePhase: GamePhase;
+  round: number;
+  settings: Pick<GameSettings, 'startingScore' | 'turnTimeLimit' | 'moneyPerPoint' | 'coachAllowed'>;
+  quickMatch: boolean;
+}
+
+// One line of room chat. System lines (joins, disconnects, eliminations)
+// have no sender, so playerId is null.
+export interface ChatMessage {
+  id: string;
+  playerId: string | null;
+  playerName: string;
+  message: string;
+  timestamp: number;
+  isSystem?: boolean;
+}
+
+// Quick reactions players can send to the table (labels in REACTIONS)
+export type ReactionId = 'nice_trump' | 'nice_hand' | 'ouch' | 'musty' | 'hurry' | 'gg';
+
+// A whole game: who sat down, the rules it was played under and every action
+// the engine accepted, starting with the first deal. Replaying the actions
+// through applyAction rebuilds the game state by state.
+export interface GameRecording {
+  players: SerializedPlayer[]; // Seated at the first deal, in seat order, hands empty
+  settings: Pick<GameSettings, 'startingScore' | 'winningScore' | 'eliminationScore' | 'moneyPerPoint' | 'moneyPerPunt'>;
+  actions: EngineAction[];
+}
+
+// Complete engine state with every hand and the undealt deck.
+// Server-side only (room snapshots) - never sent to clients.
+export interface SerializedEngineState extends SerializedGameState {
+  players: SerializedPlayer[];
+  eliminatedPlayers: SerializedPlayer[];
+  deck: Card[];
+  dealSeed?: number | null;
 }
 
 // =============================================================================
@@ -323,52 +440,31 @@ export interface GameSettings {
   turnTimeLimit: number; // seconds, 0 = no limit
   moneyPerPoint: number;
   moneyPerPunt: number;
+  coachAllowed: boolean; // Players may turn on coach hints in this room
 }
 
 // =============================================================================
 // SERVER-SIDE GAME ROOM
 // =============================================================================
 
-/**
- * Server-side player with optional WebSocket connection.
- * The ws property is typed as `unknown` to avoid coupling shared types to Node.js WebSocket.
- * Server code should cast to the appropriate WebSocket type.
- */
-export interface ServerPlayer extends Player {
-  ws?: unknown;
-}
-
 /**
  * Server-side game room state.
- * Used by websocket.ts and gameLoop.ts.
+ * The rules engine owns gameState; sockets are kept beside it, keyed by player id.
+ * Socket and timer types are `unknown` to avoid coupling shared types to Node.js.
  */
 export interface ServerGameRoom {
   id: string;
-  players: Map<string, ServerPlayer>;
+  gameState: GameState;
+  connections: Map<string, unknown>;
   spectatorWs?: unknown;
-  gameState: {
-    gamePhase: GamePhase;
-    currentPlayerIndex: number;
-    dealerIndex: number;
-    deck: Card[];
-    currentTrick: TrickPlay[];
-    completedTricks: TrickPlay[][];
-    bids: Map<string, number>;
-    trumpSuit: Suit | null;
-    highestBidder: string | null;
-    playingPlayers: Set<string>;
-    mustyPlayers: Set<string>;
-    scores: Map<string, number>;
-    round: number;
-  };
+  settings: GameSettings;
   host: string;
   createdAt: number;
   turnTimer?: unknown; // NodeJS.Timeout
   turnTimeLimit: number;
   turnStartTime?: number;
   // Race condition prevention
-  stateLocked: boolean;
   aiProcessing: boolean;
   aiTimeouts: Set<unknown>; // Set<NodeJS.Timeout>
-  stateLockTimeout?: unknown; // NodeJS.Timeout
+  transitionTimer?: unknown; // NodeJS.Timeout - pending trick/round transition
 }
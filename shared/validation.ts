@@ -4,8 +4,11 @@
  */
 
 import { z } from 'zod';
-import { GAME } from './constants';
-import type { Card, Suit, ValidationResult, Player, TrickPlay } from './types';
+import { CHAT, GAME } from './constants';
+import { addPlayer, applyAction, createGameState } from './gameEngine';
+import { gameResult, parseGameRecord } from './gameRecord';
+import { recordAction, startRecording } from './replay';
+import type { Card, EngineAction, GameRecording, Suit, ValidationResult, Player, TrickPlay } from './types';
 
 // =============================================================================
 // ZOD SCHEMAS - Card Types
@@ -38,6 +41,7 @@ export const BidPayloadSchema = z.object({
 });
 
 export const TrumpPayloadSchema = z.object({
+  playerId: z.string().min(1),
   suit: SuitSchema,
 });
 
@@ -53,27 +57,7 @@ export const PlayCardPayloadSchema = z.object({
 
 export const PenaltyPayloadSchema = z.object({
   playerId: z.string().min(1),
-});
-
-export const SyncStatePayloadSchema = z.object({
-  gamePhase: z.string().optional(),
-  currentPlayerIndex: z.number().int().optional(),
-  scores: z.record(z.string(), z.number()).optional(),
-  playingPlayers: z.array(z.string()).optional(),
-  mustyPlayers: z.array(z.string()).optional(),
-  currentTrick: z.array(TrickPlaySchema).optional(),
-  completedTricks: z.array(z.array(TrickPlaySchema)).optional(),
-  lastTrickWinner: z.string().nullable().optional(),
-  round: z.number().int().optional(),
-  trickNumber: z.number().int().optional(),
-  players: z.array(z.object({
-    id: z.string().min(1),
-    hand: z.array(CardSchema).optional(),
-    consecutiveSits: z.number().int().optional(),
-    isActive: z.boolean().optional(),
-    punts: z.number().int().optional(),
-    wallet: z.number().optional(),
-  })).optional(),
+  choice: z.enum(['self', 'others']),
 });
 
 // Discriminated union of all game actions
@@ -98,10 +82,6 @@ export const GameActionSchema = z.discriminatedUnion('action', [
     action: z.literal('penalty'),
     payload: PenaltyPayloadSchema,
   }),
-  z.object({
-    action: z.literal('sync_state'),
-    payload: SyncStatePayloadSchema,
-  }),
 ]);
 
 export type ValidatedGameAction = z.infer<typeof GameActionSchema>;
@@ -110,30 +90,66 @@ export type ValidatedGameAction = z.infer<typeof GameActionSchema>;
 // ZOD SCHEMAS - Client Messages
 // =============================================================================
 
+// A host's rule settings, over the WebSocket or the HTTP API - the same ranges the settings screen offers
+export const GameSettingsSchema = z.object({
+  startingScore: z.number().int().min(1).max(50).optional(),
+  winningScore: z.number().int().min(0).max(50).optional(),
+  eliminationScore: z.number().int().min(1).max(100).optional(),
+  turnTimeLimit: z.number().int().min(0).max(120).optional(),
+  moneyPerPoint: z.number().min(0).max(100).optional(),
+  moneyPerPunt: z.number().min(0).max(100).optional(),
+  coachAllowed: z.boolean().optional(),
+});
+
 export const CreateRoomSchema = z.object({
   type: z.literal('CREATE_ROOM'),
   playerName: z.string().min(1).max(20),
-  settings: z.object({
-    startingScore: z.number().int().optional(),
-    turnTimeLimit: z.number().int().min(0).optional(),
-  }).optional(),
+  settings: GameSettingsSchema.optional(),
+  isPublic: z.boolean().optional(),
+});
+
+export const QuickMatchSchema = z.object({
+  type: z.literal('QUICK_MATCH'),
+  playerName: z.string().trim().min(1, 'Please enter your name').max(20),
+});
+
+export const WatchLobbySchema = z.object({
+  type: z.literal('WATCH_LOBBY'),
+  watching: z.boolean(),
 });
 
 export const JoinRoomSchema = z.object({
   type: z.literal('JOIN_ROOM'),
-  roomCode: z.string().length(6),
+  roomId: z.string().length(6),
   playerName: z.string().min(1).max(20),
 });
 
 export const RejoinRoomSchema = z.object({
   type: z.literal('REJOIN_ROOM'),
-  roomCode: z.string().length(6),
-  playerId: z.string().min(1),
+  roomId: z.string().length(6),
+  reconnectToken: z.string().min(1),
+});
+
+export const SpectateRoomSchema = z.object({
+  type: z.literal('SPECTATE_ROOM'),
+  roomId: z.string().length(6),
+  allHands: z.boolean().default(false),
 });
 
+export const SetSpectatorViewSchema = z.object({
+  type: z.literal('SET_SPECTATOR_VIEW'),
+  allHands: z.boolean(),
+});
+
+export const AIDifficultySchema = z.enum(['easy', 'medium', 'hard', 'expert']);
+
+export const AIPersonalitySchema = z.enum(['balanced', 'aggressive', 'sitter', 'ganger']);
+
 export const AddAISchema = z.object({
   type: z.literal('ADD_AI'),
-  difficulty: z.enum(['easy', 'medium', 'hard']),
+  aiName: z.string().min(1).max(20),
+  difficulty: AIDifficultySchema.default('medium'),
+  personality: AIPersonalitySchema.default('balanced'),
 });
 
 export const RemovePlayerSchema = z.object({
@@ -147,19 +163,80 @@ export const StartGameSchema = z.object({
 
 export const GameActionMessageSchema = z.object({
   type: z.literal('GAME_ACTION'),
-  action: z.enum(['bid', 'trump', 'sitpass', 'playcard', 'penalty', 'sync_state']),
+  action: z.enum(['bid', 'trump', 'sitpass', 'playcard', 'penalty']),
+  payload: z.unknown(),
+});
+
+export const ChatSchema = z.object({
+  type: z.literal('CHAT'),
+  text: z.string().trim().min(1, 'Message is empty').max(CHAT.MAX_LENGTH, `Messages are limited to ${CHAT.MAX_LENGTH} characters`),
+});
+
+export const ReactionIdSchema = z.enum(['nice_trump', 'nice_hand', 'ouch', 'musty', 'hurry', 'gg']);
+
+export const ReactSchema = z.object({
+  type: z.literal('REACT'),
+  reaction: ReactionIdSchema,
+});
+
+export const MutePlayerSchema = z.object({
+  type: z.literal('MUTE_PLAYER'),
+  playerId: z.string().min(1),
+  muted: z.boolean(),
+});
+
+export const KickPlayerSchema = z.object({
+  type: z.literal('KICK_PLAYER'),
+  playerId: z.string().min(1),
+});
+
+export const ClaimSeatSchema = z.object({
+  type: z.literal('CLAIM_SEAT'),
+  playerId: z.string().min(1),
+  playerName: z.string().trim().min(1, 'Please enter your name').max(20),
+});
+
+export const ReplaceWithAISchema = z.object({
+  type: z.literal('REPLACE_WITH_AI'),
+  playerId: z.string().min(1),
+  difficulty: AIDifficultySchema.default('medium'),
+  personality: AIPersonalitySchema.default('balanced'),
+});
+
+export const BotJoinSchema = z.object({
+  type: z.literal('BOT_JOIN'),
+  roomId: z.string().length(6),
+  botName: z.string().min(1).max(20),
+});
+
+export const DecisionResponseSchema = z.object({
+  type: z.literal('DECISION_RESPONSE'),
+  requestId: z.string().min(1),
+  action: z.enum(['bid', 'trump', 'sitpass', 'playcard', 'penalty']),
   payload: z.unknown(),
 });
 
 // Union of all client messages
 export const ClientMessageSchema = z.discriminatedUnion('type', [
   CreateRoomSchema,
+  QuickMatchSchema,
+  WatchLobbySchema,
   JoinRoomSchema,
   RejoinRoomSchema,
+  SpectateRoomSchema,
+  SetSpectatorViewSchema,
   AddAISchema,
   RemovePlayerSchema,
   StartGameSchema,
   GameActionMessageSchema,
+  ChatSchema,
+  ReactSchema,
+  MutePlayerSchema,
+  KickPlayerSchema,
+  ClaimSeatSchema,
+  ReplaceWithAISchema,
+  BotJoinSchema,
+  DecisionResponseSchema,
 ]);
 
 // =============================================================================
@@ -375,6 +452,57 @@ export function parseClientMessage(data: unknown):
   return { success: true, data: result.data };
 }
 
+// =============================================================================
+// GAME RECORDS
+// =============================================================================
+
+/**
+ * Read a game record and play it through the rules engine. Rejects a record
+ * with a move the rules don't allow, with more or fewer seeds than deals, or
+ * whose Result tag doesn't match how its moves end.
+ */
+export function validateGameRecord(text: string):
+  | { valid: true; recording: GameRecording }
+  | { valid: false; error: string } {
+  const parsed = parseGameRecord(text);
+  if (!parsed.success) return { valid: false, error: parsed.error };
+  const { tags, players, settings, seeds, moves } = parsed.data;
+
+  let state = players.reduce((table, player) => addPlayer(table, player, settings), createGameState());
+  let recording = startRecording(players, settings);
+  const apply = (action: EngineAction): string | null => {
+    const result = applyAction(state, action, settings);
+    if (!result.valid) return result.error;
+    state = result.state;
+    recording = recordAction(recording, action);
+    return null;
+  };
+
+  let dealt = 0;
+  for (const [index, move] of moves.entries()) {
+    // A finished trick is cleared by whoever runs the table, so the record leaves it out
+    if (state.gamePhase === 'trick_complete') apply({ action: 'advance', payload: {} });
+
+    if (move === 'deal' && dealt >= seeds.length) {
+      return { valid: false, error: `Move ${index + 1}: deal ${dealt + 1} has no seed` };
+    }
+    const action: EngineAction = move === 'deal' ? { action: 'deal', payload: { seed: seeds[dealt++] } } : move;
+    const error = apply(action);
+    if (error) return { valid: false, error: `Move ${index + 1} (${action.action}): ${error}` };
+  }
+  if (state.gamePhase === 'trick_complete') apply({ action: 'advance', payload: {} });
+
+  if (dealt !== seeds.length) {
+    return { valid: false, error: `The record has ${seeds.length} seeds but deals ${dealt} hands` };
+  }
+  const result = gameResult(state, players, settings.winningScore);
+  if (tags.Result !== undefined && tags.Result !== result) {
+    return { valid: false, error: `Result tag says "${tags.Result}" but the moves end in "${result}"` };
+  }
+
+  return { valid: true, recording };
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================